@@ -25,7 +25,7 @@ const config: ExpoConfig = {
     buildNumber: '1',
     infoPlist: {
       ITSAppUsesNonExemptEncryption: false, 
-      NSCameraUsageDescription: 'Quill needs camera access to let you add images from your camera to your journal entries.',
+      NSCameraUsageDescription: 'Quill needs camera access to let you add images from your camera to your journal entries and to scan pairing codes.',
       NSMicrophoneUsageDescription: 'Quill uses your microphone to record voice notes.',
       NSPhotoLibraryUsageDescription: 'Quill needs photo access to let you add images from your photo library to your journal entries.',
       NSLocationWhenInUseUsageDescription: 'Quill can tag entries with your location.',
@@ -47,6 +47,7 @@ const config: ExpoConfig = {
     permissions: [
       'android.permission.RECORD_AUDIO',
       'android.permission.MODIFY_AUDIO_SETTINGS',
+      'android.permission.CAMERA',
       "USE_BIOMETRIC",
       "USE_FINGERPRINT",
     ],
@@ -2,8 +2,10 @@
 import { DrawerContent } from '@/components/DrawerContent';
 import { HamburgerButton } from '@/components/HamburgerButton';
 import { HomeButton } from '@/components/HomeButton';
+import JournalLockGate from '@/components/JournalLockGate';
 import { AuthProvider, useAuth } from '@/context/AuthContext';
 import { JournalProvider } from '@/context/JournalContext';
+import { LocalAuthProvider, useLocalAuth } from '@/context/LocalAuthContext';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { useRouter, useSegments } from 'expo-router';
 import { Drawer } from 'expo-router/drawer';
@@ -15,18 +17,19 @@ export { default as resetPassword } from './reset-password';
 
 function AuthenticatedDrawer() {
   const { user, isReady } = useAuth(); // <— use isReady instead of loading
+  const { isGuest, loading: guestLoading } = useLocalAuth();
   const router = useRouter();
   const segments = useSegments();
 
   useEffect(() => {
-    if (!isReady) return;
+    if (!isReady || guestLoading) return;
     const inAuthGroup = segments[0] === 'auth';
-    if (!user && !inAuthGroup) {
+    if (!user && !isGuest && !inAuthGroup) {
       router.replace('/auth/authentication');
     }
-  }, [user, isReady, segments]);
+  }, [user, isGuest, isReady, guestLoading, segments]);
 
-  if (!isReady) {
+  if (!isReady || guestLoading) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
         <ActivityIndicator size="large" color="#007AFF" />
@@ -60,6 +63,16 @@ function AuthenticatedDrawer() {
         }} 
       />
 
+      <Drawer.Screen
+        name="recover-journal"
+        options={{
+          title: 'Recover Journal',
+          headerShown: false,
+          drawerItemStyle: { display: 'none' },
+          swipeEnabled: false
+        }}
+      />
+
       {/* Auth screens - hidden from drawer */}
       {/* <Drawer.Screen name="auth/login" options={{ headerShown: false, drawerItemStyle: { display: 'none' }, swipeEnabled: false }} />
       <Drawer.Screen name="auth/signup" options={{ headerShown: false, drawerItemStyle: { display: 'none' }, swipeEnabled: false }} /> */}
@@ -73,8 +86,14 @@ function AuthenticatedDrawer() {
       <Drawer.Screen name="settings/help" options={{ title: 'Help & Support', headerShown: true, drawerItemStyle: { display: 'none' } }} />
       {/* <Drawer.Screen name="settings/billing" options={{title: 'Upgrade to Pro', headerShown: true, drawerItemStyle: { display: 'none' } }} /> */}
       <Drawer.Screen name="settings/subscriptions" options={{title: 'Subscription', headerShown: true, drawerItemStyle: { display: 'none' } }} />
-      <Drawer.Screen name="settings/backup" options={{title: 'Backup', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/backup" options={{title: 'Backup & Sync', headerShown: true, drawerItemStyle: { display: 'none' } }} />
       <Drawer.Screen name="settings/export" options={{title: 'Export', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/storage" options={{title: 'Storage', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/journals" options={{title: 'Journals', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/trash" options={{title: 'Trash', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/diagnostics" options={{title: 'Journal Health', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/encryption" options={{title: 'Encryption', headerShown: true, drawerItemStyle: { display: 'none' } }} />
+      <Drawer.Screen name="settings/duplicates" options={{title: 'Duplicates', headerShown: true, drawerItemStyle: { display: 'none' } }} />
       <Drawer.Screen name="settings/about" options={{title: 'About Quill', headerShown: true, drawerItemStyle: { display: 'none' } }} />
 
       {/* Entry detail (matches app/entry/[id].tsx) */}
@@ -87,11 +106,15 @@ export default function RootLayout() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <AuthProvider>
+        <LocalAuthProvider>
+        <JournalLockGate>
         <JournalProvider>
         <BottomSheetModalProvider>
           <AuthenticatedDrawer />
           </BottomSheetModalProvider>
         </JournalProvider>
+        </JournalLockGate>
+        </LocalAuthProvider>
       </AuthProvider>
     </GestureHandlerRootView>
   );
@@ -6,12 +6,14 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../src/constants/theme';
 import { useJournal } from '../src/context/JournalContext';
+import { useAllEntries } from '../src/hooks/useAllEntries';
 import PeriodAnalyzer, { PeriodAnalysis } from '../src/services/periodAnalyzer';
 import { Stack } from 'expo-router';
 
 export default function AllTimeReviewScreen() {
   const router = useRouter();
-  const { entries } = useJournal();
+  const { activeJournalId } = useJournal();
+  const entries = useAllEntries(activeJournalId);
 
   const [isGenerating, setIsGenerating] = useState(false);
   const [analysis, setAnalysis] = useState<PeriodAnalysis | null>(null);
@@ -82,7 +84,7 @@ export default function AllTimeReviewScreen() {
 
     try {
       // Use the custom period type for all-time analysis
-      const result = await PeriodAnalyzer.analyzeMonthEntries(dateRange.start, dateRange.end);
+      const result = await PeriodAnalyzer.analyzeMonthEntries(dateRange.start, dateRange.end, activeJournalId);
       
       // Override the analysis to reflect "all-time" nature
       const allTimeResult = {
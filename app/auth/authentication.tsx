@@ -21,6 +21,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import * as LocalAuthentication from 'expo-local-authentication';
 import { supabase } from '@/services/supabase';
+import { useLocalAuth } from '@/context/LocalAuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Linking from "expo-linking";
 import * as SecureStore from 'expo-secure-store';
@@ -32,6 +33,7 @@ type AuthMode = 'signin' | 'signup';
 export default function AuthenticationScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const { isGuest, startGuestSession, upgradeToAccount } = useLocalAuth();
 
   const [mode, setMode] = useState<AuthMode>('signin');
   const [email, setEmail] = useState('');
@@ -177,6 +179,10 @@ export default function AuthenticationScreen() {
           });
         }    
 
+        if (isGuest && data.session) {
+          await moveGuestEntries(data.session.user.id);
+        }
+
         router.replace('/(tabs)');
 
       } else {
@@ -194,6 +200,7 @@ export default function AuthenticationScreen() {
           // Save email on successful sign up
           await saveEmail(email);
           // Handle profile creation logic here
+          if (isGuest) await moveGuestEntries(data.session.user.id);
           router.replace('/(tabs)');
         } else {
           Alert.alert(
@@ -212,6 +219,28 @@ export default function AuthenticationScreen() {
     }
   };
 
+  // Failing to move guest entries must not block signing in; they stay on
+  // this device and the upgrade can be retried by signing in again.
+  const moveGuestEntries = async (userId: string) => {
+    try {
+      await upgradeToAccount(userId);
+    } catch (error: any) {
+      Alert.alert(
+        'Could Not Move Entries',
+        error.message || 'Your guest entries are still on this device.'
+      );
+    }
+  };
+
+  const handleContinueAsGuest = async () => {
+    try {
+      await startGuestSession();
+      router.replace('/(tabs)');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start a guest session.');
+    }
+  };
+
   const handleForgotPassword = async () => {
     if (!email.trim() || !validateEmail(email)) {
       Alert.alert('Email Required', 'Please enter a valid email address first.');
@@ -621,6 +650,23 @@ export default function AuthenticationScreen() {
                 </TouchableOpacity>
               )}
 
+              {/* Guest Mode */}
+              {!isGuest && (
+                <TouchableOpacity
+                  style={{ alignSelf: 'center', marginBottom: 24 }}
+                  onPress={handleContinueAsGuest}
+                  disabled={loading}
+                >
+                  <Text style={{
+                    fontSize: 15,
+                    color: '#8B5CF6',
+                    fontWeight: '600',
+                  }}>
+                    Continue without an account
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Terms (Sign Up Only) */}
               {mode === 'signup' && (
                 <Text style={{
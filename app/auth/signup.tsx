@@ -1,3 +1,4 @@
+import { useLocalAuth } from '@/context/LocalAuthContext';
 import { supabase } from '@/services/supabase';
 import { Link, useRouter } from 'expo-router';
 import React, { useMemo, useState } from 'react';
@@ -48,6 +49,7 @@ export default function SignupScreen() {
   // server/API errors only
   const [err, setErr]   = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
+  const { isGuest, upgradeToAccount } = useLocalAuth();
 
   // compute field errors (pure)
   const nameErr = useMemo(() => validateDisplayName(displayName), [displayName]);
@@ -93,9 +95,15 @@ export default function SignupScreen() {
         if (!prof.avatar_url) await ensureDefaultAvatar(u.id, cleanName);
         broadcastProfileUpdated(u.id);
 
+        if (isGuest) {
+          await upgradeToAccount(u.id, p => setInfo(`Moving your entries… ${p.done}/${p.total}`));
+        }
+
         router.replace('/(tabs)');
       } else {
-        setInfo('Check your email to confirm your account, then log in.');
+        setInfo(isGuest
+          ? 'Check your email to confirm your account, then log in. Your guest entries will move in when you do.'
+          : 'Check your email to confirm your account, then log in.');
       }
     } catch (e: any) {
       // server-side error only
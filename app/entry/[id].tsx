@@ -6,6 +6,7 @@ import {
 } from 'react-native';
 import { theme } from '../../src/constants/theme';
 import { useJournal } from '../../src/context/JournalContext';
+import { entryRepository } from '../../src/services/repository/entryRepository';
 import { Entry } from '../../src/types/journal';
 import { formatDisplayDate, formatTime } from '../../src/utils/format';
 
@@ -19,6 +20,13 @@ export default function EntryDetailScreen() {
     const foundEntry = entries.find(e => e.id === id);
     setEntry(foundEntry || null);
 
+    // Older entries may not be in the loaded timeline window yet
+    if (!foundEntry && id) {
+      entryRepository.getEntry(id)
+        .then(setEntry)
+        .catch(error => console.error('Failed to load entry:', error));
+    }
+
     if (foundEntry) {
       console.log('📄 ENTRY DETAIL - Full entry:', foundEntry);
       console.log('📸 ENTRY DETAIL - Photos:', foundEntry.photoUris);
@@ -38,8 +46,12 @@ export default function EntryDetailScreen() {
           style: 'destructive',
           onPress: async () => {
             if (entry) {
-              await deleteEntry(entry.id);
-              router.back();
+              try {
+                await deleteEntry(entry.id);
+                router.back();
+              } catch (error) {
+                console.error('Failed to delete entry:', error);
+              }
             }
           },
         },
@@ -6,13 +6,15 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../src/constants/theme';
 import { useJournal } from '../src/context/JournalContext';
+import { useAllEntries } from '../src/hooks/useAllEntries';
 import PeriodAnalyzer, { PeriodAnalysis } from '../src/services/periodAnalyzer';
 import { Stack } from 'expo-router';
 
 
 export default function MonthReviewScreen() {
   const router = useRouter();
-  const { entries } = useJournal();
+  const { activeJournalId } = useJournal();
+  const entries = useAllEntries(activeJournalId);
 
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -67,7 +69,7 @@ export default function MonthReviewScreen() {
     setError(null);
 
     try {
-      const result = await PeriodAnalyzer.analyzeMonthEntries(month.startDate, month.endDate);
+      const result = await PeriodAnalyzer.analyzeMonthEntries(month.startDate, month.endDate, activeJournalId);
       setAnalysis(result);
     } catch (err) {
       console.error('Month analysis failed:', err);
@@ -20,10 +20,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { supabase } from '@/services/supabase';
+import { useKeyVault } from '@/hooks/useKeyVault';
 
 export default function ResetPasswordScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const { status: journalStatus } = useKeyVault();
 
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -534,6 +536,23 @@ export default function ResetPasswordScreen() {
                 </Text>
               </TouchableOpacity>
 
+              {/* Journal passphrase recovery, for accounts that set one */}
+              {(journalStatus === 'locked' || journalStatus === 'unlocked') && (
+                <TouchableOpacity
+                  style={{ alignSelf: 'center', marginTop: 20 }}
+                  onPress={() => router.push('/recover-journal')}
+                >
+                  <Text style={{
+                    fontSize: 15,
+                    color: '#8B5CF6',
+                    fontWeight: '600',
+                    textAlign: 'center',
+                  }}>
+                    Forgot your journal passphrase? Use your recovery key
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Security Note */}
               <View style={{
                 marginTop: 40,
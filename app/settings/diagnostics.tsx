@@ -0,0 +1 @@
+export { DiagnosticsScreen as default } from '../../src/screens/Settings/DiagnosticsScreen';
@@ -0,0 +1 @@
+export { DuplicatesScreen as default } from '../../src/screens/Settings/DuplicatesScreen';
@@ -0,0 +1 @@
+export { EncryptionScreen as default } from '../../src/screens/Settings/EncryptionScreen';
@@ -0,0 +1 @@
+export { JournalsScreen as default } from '../../src/screens/Settings/JournalsScreen';
@@ -0,0 +1 @@
+export { StorageScreen as default } from '../../src/screens/Settings/StorageScreen';
@@ -0,0 +1 @@
+export { TrashScreen as default } from '../../src/screens/Settings/TrashScreen';
@@ -6,6 +6,7 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../src/constants/theme';
 import { useJournal } from '../src/context/JournalContext';
+import { useAllEntries } from '../src/hooks/useAllEntries';
 import PeriodAnalyzer, { PeriodAnalysis } from '../src/services/periodAnalyzer';
 import { Stack } from 'expo-router';
 import analytics from '@/utils/analytics';
@@ -13,7 +14,8 @@ import analytics from '@/utils/analytics';
 
 export default function WeekReviewScreen() {
   const router = useRouter();
-  const { entries } = useJournal();
+  const { activeJournalId } = useJournal();
+  const entries = useAllEntries(activeJournalId);
 
   const [selectedWeek, setSelectedWeek] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -70,7 +72,7 @@ export default function WeekReviewScreen() {
     setError(null);
 
     try {
-      const result = await PeriodAnalyzer.analyzeWeekEntries(week.startDate, week.endDate);
+      const result = await PeriodAnalyzer.analyzeWeekEntries(week.startDate, week.endDate, activeJournalId);
       setAnalysis(result);
     } catch (err) {
       console.error('Week analysis failed:', err);
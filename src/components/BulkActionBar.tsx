@@ -0,0 +1,341 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { theme } from '../constants/theme';
+import { useJournal } from '../context/JournalContext';
+import { useJournals } from '../hooks/useJournals';
+import { formatDate, parseDate } from '../services/dates';
+import { EntryExportService } from '../services/entryExport';
+import { BulkEdit, journalOf, TRASH_RETENTION_DAYS } from '../services/repository';
+import { normalizeTag } from '../services/tags';
+import { Entry, Journal, Mood } from '../types/journal';
+import Chip from './Chip';
+import JournalPicker from './JournalPicker';
+import MoodPicker from './MoodPicker';
+import TagInput from './TagInput';
+
+type Panel = 'tags' | 'mood' | 'date' | 'move';
+
+interface BulkActionBarProps {
+  selected: Entry[];
+  onDone: () => void; // an action finished; leave selection mode
+}
+
+/**
+ * Actions for the entries picked in multi-select mode: retag, change mood
+ * or date, move to another journal, export and delete.
+ */
+export default function BulkActionBar({ selected, onDone }: BulkActionBarProps) {
+  const { bulkUpdateEntries, bulkDeleteEntries } = useJournal();
+  const { journals } = useJournals();
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [pickedDate, setPickedDate] = useState(new Date());
+
+  const ids = selected.map(e => e.id);
+  const disabled = busy || selected.length === 0;
+  const count = `${selected.length} ${selected.length === 1 ? 'entry' : 'entries'}`;
+
+  const selectedTags = Array.from(new Set(selected.flatMap(e => (e.tags || []).map(t => t.name)))).sort();
+  const journalIds = new Set(selected.map(journalOf));
+  const currentJournal = journalIds.size === 1 ? [...journalIds][0] : undefined;
+
+  // Errors are already shown by the journal context
+  const run = async (action: () => Promise<void>) => {
+    setPanel(null);
+    setBusy(true);
+    try {
+      await action();
+      onDone();
+    } catch (error) {
+      console.error('Bulk action failed:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applyEdit = (edit: BulkEdit) => run(() => bulkUpdateEntries(ids, edit));
+
+  const openPanel = (next: Panel) => {
+    if (next === 'tags') {
+      setTagsToAdd([]);
+      setTagsToRemove([]);
+    }
+    if (next === 'date') {
+      setPickedDate(parseDate(selected[0]?.date ?? formatDate(new Date())));
+    }
+    setPanel(next);
+  };
+
+  const handleApplyTags = () => run(async () => {
+    if (tagsToAdd.length > 0) {
+      await bulkUpdateEntries(ids, { kind: 'addTags', tags: tagsToAdd.map(normalizeTag) });
+    }
+    if (tagsToRemove.length > 0) {
+      await bulkUpdateEntries(ids, { kind: 'removeTags', names: tagsToRemove });
+    }
+  });
+
+  const handleMood = (mood: Mood) => applyEdit({ kind: 'setMood', mood });
+
+  const handleMove = (journal: Journal) => applyEdit({ kind: 'setJournal', journalId: journal.id });
+
+  // Android shows its own dialog and reports the pick straight away
+  const handleDateChange = (event: { type: string }, date?: Date) => {
+    if (Platform.OS !== 'ios') {
+      setPanel(null);
+      if (event.type === 'set' && date) applyEdit({ kind: 'setDate', date: formatDate(date) });
+      return;
+    }
+    if (date) setPickedDate(date);
+  };
+
+  const handleExport = async () => {
+    try {
+      if (await EntryExportService.shareEntries(selected)) onDone();
+    } catch (error) {
+      console.error('Failed to export entries:', error);
+      Alert.alert('Error', 'Could not export the selected entries. Please try again.');
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      `Delete ${count}?`,
+      `They will be kept in the trash for ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => run(() => bulkDeleteEntries(ids)) },
+      ]
+    );
+  };
+
+  const actions: { key: string; icon: keyof typeof Ionicons.glyphMap; label: string; onPress: () => void; color?: string }[] = [
+    { key: 'tags', icon: 'pricetag-outline', label: 'Tags', onPress: () => openPanel('tags') },
+    { key: 'mood', icon: 'happy-outline', label: 'Mood', onPress: () => openPanel('mood') },
+    { key: 'date', icon: 'calendar-outline', label: 'Date', onPress: () => openPanel('date') },
+    ...(journals.length > 1
+      ? [{ key: 'move', icon: 'folder-open-outline' as const, label: 'Move', onPress: () => openPanel('move') }]
+      : []),
+    { key: 'export', icon: 'share-outline', label: 'Export', onPress: handleExport },
+    { key: 'delete', icon: 'trash-outline', label: 'Delete', onPress: handleDelete, color: theme.colors.danger },
+  ];
+
+  return (
+    <>
+      <View style={styles.bar}>
+        {busy ? (
+          <ActivityIndicator style={styles.busy} color={theme.colors.primary} />
+        ) : (
+          actions.map(action => (
+            <TouchableOpacity
+              key={action.key}
+              style={styles.action}
+              onPress={action.onPress}
+              disabled={disabled}
+            >
+              <Ionicons
+                name={action.icon}
+                size={22}
+                color={disabled ? theme.colors.muted : action.color ?? theme.colors.primary}
+              />
+              <Text style={[styles.actionLabel, disabled && styles.actionLabelDisabled]}>{action.label}</Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      <Modal
+        visible={panel === 'tags' || panel === 'mood' || (panel === 'date' && Platform.OS === 'ios')}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPanel(null)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.content}>
+            <View style={styles.header}>
+              <Text style={styles.title}>
+                {panel === 'tags' ? 'Edit Tags' : panel === 'mood' ? 'Set Mood' : 'Change Date'}
+              </Text>
+              <TouchableOpacity onPress={() => setPanel(null)}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.body}>
+              <Text style={styles.caption}>Applies to {count}</Text>
+
+              {panel === 'tags' && (
+                <>
+                  <Text style={styles.label}>Add</Text>
+                  <TagInput value={tagsToAdd} onChange={setTagsToAdd} />
+
+                  {selectedTags.length > 0 && (
+                    <>
+                      <Text style={styles.label}>Remove</Text>
+                      <View style={styles.chips}>
+                        {selectedTags.map(name => {
+                          const removing = tagsToRemove.includes(name);
+                          return (
+                            <TouchableOpacity
+                              key={name}
+                              onPress={() => setTagsToRemove(prev =>
+                                removing ? prev.filter(n => n !== name) : [...prev, name]
+                              )}
+                            >
+                              <Chip label={`#${name}`} color={removing ? theme.colors.danger + '30' : undefined} />
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </>
+                  )}
+
+                  <TouchableOpacity
+                    style={[styles.applyButton, tagsToAdd.length + tagsToRemove.length === 0 && styles.applyButtonDisabled]}
+                    onPress={handleApplyTags}
+                    disabled={tagsToAdd.length + tagsToRemove.length === 0}
+                  >
+                    <Text style={styles.applyButtonText}>Apply</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+
+              {panel === 'mood' && <MoodPicker onChange={handleMood} />}
+
+              {panel === 'date' && (
+                <>
+                  <DateTimePicker
+                    value={pickedDate}
+                    mode="date"
+                    display="inline"
+                    onChange={handleDateChange}
+                    maximumDate={new Date()}
+                  />
+                  <TouchableOpacity
+                    style={styles.applyButton}
+                    onPress={() => applyEdit({ kind: 'setDate', date: formatDate(pickedDate) })}
+                  >
+                    <Text style={styles.applyButtonText}>Apply</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {panel === 'date' && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={pickedDate}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+          maximumDate={new Date()}
+        />
+      )}
+
+      <JournalPicker
+        visible={panel === 'move'}
+        journals={journals}
+        selectedId={currentJournal}
+        onSelect={handleMove}
+        onClose={() => setPanel(null)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+    paddingTop: theme.spacing.sm,
+    paddingBottom: theme.spacing.xl,
+    backgroundColor: theme.colors.background,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  busy: {
+    paddingVertical: theme.spacing.md,
+  },
+  action: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+  },
+  actionLabel: {
+    ...theme.typography.caption,
+    color: theme.colors.text,
+    marginTop: 2,
+  },
+  actionLabelDisabled: {
+    color: theme.colors.muted,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+  },
+  content: {
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.radius.lg,
+    width: '100%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    ...theme.typography.h3,
+    color: theme.colors.text,
+    fontWeight: '700',
+  },
+  body: {
+    padding: theme.spacing.lg,
+    gap: theme.spacing.sm,
+  },
+  caption: {
+    ...theme.typography.caption,
+    marginBottom: theme.spacing.xs,
+  },
+  label: {
+    ...theme.typography.h4,
+    color: theme.colors.text,
+    marginTop: theme.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  applyButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    ...theme.typography.button,
+    color: '#FFF',
+  },
+});
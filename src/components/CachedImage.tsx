@@ -0,0 +1,22 @@
+import React from 'react';
+import { Image, ImageProps, View } from 'react-native';
+import { theme } from '../constants/theme';
+import { useCachedPhoto } from '../hooks/useCachedPhoto';
+
+interface CachedImageProps extends Omit<ImageProps, 'source'> {
+  uri: string;
+}
+
+/**
+ * An Image that shows photos from the on-device photo cache, so they load
+ * once and still show offline.
+ */
+export default function CachedImage({ uri, style, ...props }: CachedImageProps) {
+  const localUri = useCachedPhoto(uri);
+
+  if (!localUri) {
+    return <View style={[style, { backgroundColor: theme.colors.surface }]} />;
+  }
+
+  return <Image {...props} source={{ uri: localUri }} style={style} />;
+}
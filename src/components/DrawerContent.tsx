@@ -1,5 +1,6 @@
 // src/components/DrawerContent.tsx
 import { useAuth } from '@/context/AuthContext';
+import { useJournals } from '@/hooks/useJournals';
 import { useJournalStats } from '@/hooks/useJournalStats';
 import { ensureUserProfile, getUserProfile, PROFILE_UPDATED_EVENT, type UserProfile } from '@/services/profile';
 import { supabase } from '@/services/supabase';
@@ -33,13 +34,17 @@ const menuItems: MenuItem[] = [
   { id: 'sep1', separator: true, label: '', icon: 'cube' },
   // { id: 'general', label: 'General', icon: 'settings-outline', route: '/settings/general' },
   { id: 'privacy', label: 'Privacy & Security', icon: 'lock-closed-outline', route: '/settings/privacy' },
+  { id: 'encryption', label: 'Encryption', icon: 'key-outline', route: '/settings/encryption' },
   // { id: 'notifications', label: 'Notifications', icon: 'notifications-outline', route: '/settings/notifications' },
 
   // Data Management
-  // { id: 'sep2', separator: true, label: '', icon: 'cube' },
-  // { id: 'backup', label: 'Backup & Sync', icon: 'cloud-outline', route: '/settings/backup' },
+  { id: 'sep2', separator: true, label: '', icon: 'cube' },
+  { id: 'backup', label: 'Backup & Sync', icon: 'cloud-outline', route: '/settings/backup' },
   // { id: 'export', label: 'Export Data', icon: 'download-outline', route: '/settings/export' },
-  // { id: 'storage', label: 'Storage', icon: 'folder-outline', route: '/settings/storage' },
+  { id: 'storage', label: 'Storage', icon: 'folder-outline', route: '/settings/storage' },
+  { id: 'trash', label: 'Trash', icon: 'trash-outline', route: '/settings/trash' },
+  { id: 'diagnostics', label: 'Journal Health', icon: 'pulse-outline', route: '/settings/diagnostics' },
+  { id: 'duplicates', label: 'Duplicates', icon: 'copy-outline', route: '/settings/duplicates' },
 
   // Account & Billing
   // { id: 'sep3', separator: true, label: '', icon: 'cube' },
@@ -57,6 +62,7 @@ export const DrawerContent: React.FC<any> = (props) => {
   const router = useRouter();
   const { user } = useAuth(); // no 'profile' here
   const stats = useJournalStats();
+  const { journals, activeJournal, switchJournal } = useJournals();
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
   useEffect(() => {
@@ -162,6 +168,11 @@ export const DrawerContent: React.FC<any> = (props) => {
     }
   };
 
+  const handleSwitchJournal = (id: string) => {
+    switchJournal(id).catch(e => console.warn('Failed to switch journal:', e));
+    props.navigation?.closeDrawer?.();
+  };
+
   const onSignOut = async () => {
     try {
       await supabase.auth.signOut();
@@ -208,6 +219,38 @@ export const DrawerContent: React.FC<any> = (props) => {
           </View>
         </View>
 
+        {/* Journal switcher */}
+        <View style={styles.menuContainer}>
+          <Text style={styles.sectionTitle}>JOURNALS</Text>
+          {journals.map((journal) => {
+            const active = journal.id === activeJournal?.id;
+            return (
+              <TouchableOpacity
+                key={journal.id}
+                style={styles.menuItem}
+                onPress={() => handleSwitchJournal(journal.id)}
+              >
+                <View style={styles.menuItemLeft}>
+                  <View style={[styles.journalIcon, { backgroundColor: journal.color + '20' }]}>
+                    <Ionicons name={journal.icon as keyof typeof Ionicons.glyphMap} size={16} color={journal.color} />
+                  </View>
+                  <Text style={[styles.menuItemText, active && styles.activeJournalText]} numberOfLines={1}>
+                    {journal.name}
+                  </Text>
+                </View>
+                {active && <Ionicons name="checkmark" size={20} color="#7c3aed" />}
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity style={styles.menuItem} onPress={() => handleItemPress('/settings/journals')}>
+            <View style={styles.menuItemLeft}>
+              <Ionicons name="albums-outline" size={22} color="#666" />
+              <Text style={styles.menuItemText}>Manage Journals</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+          </TouchableOpacity>
+        </View>
+
         {/* Menu Items */}
         <View style={styles.menuContainer}>
           {menuItems.map((item) => {
@@ -305,7 +348,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFF',
   },
   menuItemLeft: { flexDirection: 'row', alignItems: 'center', flex: 1 },
-  menuItemText: { fontSize: 16, color: '#000', marginLeft: 12 },
+  menuItemText: { fontSize: 16, color: '#000', marginLeft: 12, flexShrink: 1 },
+  sectionTitle: { fontSize: 13, color: '#8E8E93', paddingHorizontal: 20, paddingTop: 12, paddingBottom: 4 },
+  journalIcon: { width: 22, height: 22, borderRadius: 11, justifyContent: 'center', alignItems: 'center' },
+  activeJournalText: { fontWeight: '600' },
   badge: { backgroundColor: '#7c3aed', paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, marginRight: 8 },
   badgeText: { color: '#FFF', fontSize: 11, fontWeight: '600' },
   separator: { height: 8, backgroundColor: '#F2F2F7' },
@@ -1,11 +1,15 @@
 // Updated EntryDetailSheet.tsx - Remove internal photo viewer and pass callback to parent
 
-import React, { forwardRef, useImperativeHandle, useRef, useCallback } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Image } from 'react-native';
+import React, { forwardRef, useImperativeHandle, useRef, useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
 import { BottomSheetModal, BottomSheetScrollView } from '@gorhom/bottom-sheet';
 import { Ionicons } from '@expo/vector-icons';
 import { theme } from '@/constants/theme';
 import { Entry } from '@/types/journal';
+import { ConflictResolution } from '@/services/conflicts';
+import { EntryRevision } from '@/services/revisions';
+import CachedImage from './CachedImage';
+import RevisionHistory from './RevisionHistory';
 import { formatDisplayDate, formatTime } from '@/utils/format';
 
 export interface EntryDetailSheetRef {
@@ -19,11 +23,20 @@ interface EntryDetailSheetProps {
   onEdit?: (entry: Entry) => void;
   onDelete?: (entry: Entry) => void;
   onPhotoPress?: (photoUri: string) => void; // Add this prop
+  onResolveConflict?: (entry: Entry, resolution: ConflictResolution) => void;
+  onRestoreRevision?: (entry: Entry, revision: EntryRevision) => void;
+  onMove?: (entry: Entry) => void; // move to another journal
 }
 
 const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
-  ({ entry, onDismiss, onEdit, onDelete, onPhotoPress }, ref) => {
+  ({ entry, onDismiss, onEdit, onDelete, onPhotoPress, onResolveConflict, onRestoreRevision, onMove }, ref) => {
     const bottomSheetRef = useRef<BottomSheetModal>(null);
+    const [showHistory, setShowHistory] = useState(false);
+
+    // Always open on the entry itself
+    useEffect(() => {
+      setShowHistory(false);
+    }, [entry?.id]);
 
     useImperativeHandle(ref, () => ({
       present: () => bottomSheetRef.current?.present(),
@@ -43,12 +56,32 @@ const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
       }
     }, [entry, onDelete]);
 
+    const handleMove = useCallback(() => {
+      if (entry && onMove) {
+        onMove(entry);
+      }
+    }, [entry, onMove]);
+
     const handlePhotoPress = useCallback((photoUri: string) => {
       if (onPhotoPress) {
         onPhotoPress(photoUri);
       }
     }, [onPhotoPress]);
 
+    const handleResolve = useCallback((resolution: ConflictResolution) => {
+      if (entry && onResolveConflict) {
+        bottomSheetRef.current?.dismiss();
+        onResolveConflict(entry, resolution);
+      }
+    }, [entry, onResolveConflict]);
+
+    const handleRestoreRevision = useCallback((revision: EntryRevision) => {
+      if (entry && onRestoreRevision) {
+        setShowHistory(false);
+        onRestoreRevision(entry, revision);
+      }
+    }, [entry, onRestoreRevision]);
+
     if (!entry) return null;
 
     return (
@@ -63,13 +96,34 @@ const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
           {/* Header with Edit and Delete buttons */}
           <View style={styles.header}>
             <View style={styles.headerInfo}>
-              <Text style={styles.headerTitle}>Entry Details</Text>
+              <Text style={styles.headerTitle}>{showHistory ? 'History' : 'Entry Details'}</Text>
               <Text style={styles.headerDate}>
                 {formatDisplayDate(entry.date)} • {formatTime(entry.createdAt)}
               </Text>
             </View>
             
             <View style={styles.actionButtons}>
+              {onRestoreRevision && (
+                <TouchableOpacity 
+                  style={[styles.actionButton, showHistory ? styles.historyButtonActive : styles.historyButton]} 
+                  onPress={() => setShowHistory(v => !v)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons name="time-outline" size={20} color={theme.colors.primary} />
+                </TouchableOpacity>
+              )}
+
+              {onMove && (
+                <TouchableOpacity 
+                  style={[styles.actionButton, styles.historyButton]} 
+                  onPress={handleMove}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  accessibilityLabel="Move to another journal"
+                >
+                  <Ionicons name="folder-open-outline" size={20} color={theme.colors.primary} />
+                </TouchableOpacity>
+              )}
+
               {onDelete && (
                 <TouchableOpacity 
                   style={[styles.actionButton, styles.deleteButton]} 
@@ -97,6 +151,34 @@ const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
             showsVerticalScrollIndicator={false}
             contentContainerStyle={{ paddingBottom: 100 }}
           >
+            {showHistory ? (
+              <RevisionHistory entry={entry} onRestore={handleRestoreRevision} />
+            ) : (
+            <>
+            {/* Conflicted copy */}
+            {entry.conflictOf && onResolveConflict && (
+              <View style={styles.conflictBanner}>
+                <View style={styles.conflictHeader}>
+                  <Ionicons name="git-compare-outline" size={18} color={theme.colors.warning} />
+                  <Text style={styles.conflictTitle}>Edited on two devices</Text>
+                </View>
+                <Text style={styles.conflictText}>
+                  This copy holds changes from this device that clashed with an edit made elsewhere.
+                </Text>
+                <View style={styles.conflictActions}>
+                  <TouchableOpacity style={styles.conflictButton} onPress={() => handleResolve('keep-copy')}>
+                    <Text style={styles.conflictButtonText}>Use this version</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.conflictButton} onPress={() => handleResolve('keep-original')}>
+                    <Text style={styles.conflictButtonText}>Keep other</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.conflictButton} onPress={() => handleResolve('keep-both')}>
+                    <Text style={styles.conflictButtonText}>Keep both</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
             {/* Title */}
             {entry.title && (
               <View style={styles.section}>
@@ -123,8 +205,8 @@ const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
                       onPress={() => handlePhotoPress(uri)}
                       activeOpacity={0.8}
                     >
-                      <Image 
-                        source={{ uri }} 
+                      <CachedImage 
+                        uri={uri} 
                         style={styles.photo}
                         resizeMode="cover"
                       />
@@ -163,6 +245,8 @@ const EntryDetailSheet = forwardRef<EntryDetailSheetRef, EntryDetailSheetProps>(
                 </View>
               </View>
             )}
+            </>
+            )}
           </BottomSheetScrollView>
         </View>
       </BottomSheetModal>
@@ -223,6 +307,12 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: theme.colors.danger + '15',
   },
+  historyButton: {
+    backgroundColor: theme.colors.surface,
+  },
+  historyButtonActive: {
+    backgroundColor: theme.colors.primary + '25',
+  },
   scrollView: {
     flex: 1,
     marginBottom: theme.spacing.xl,
@@ -290,6 +380,46 @@ const styles = StyleSheet.create({
     color: theme.colors.primary,
     fontWeight: '500',
   },
+  conflictBanner: {
+    backgroundColor: theme.colors.warning + '15',
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  conflictTitle: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    fontWeight: '600',
+  },
+  conflictText: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  conflictButton: {
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.radius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  conflictButtonText: {
+    ...theme.typography.caption,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
 });
 
 export default EntryDetailSheet;
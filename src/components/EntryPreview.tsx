@@ -4,7 +4,7 @@ import { Animated, StyleSheet, Text, TouchableOpacity, View } from 'react-native
 import { theme } from '../constants/theme';
 // ✅ Import intelligent analyzer and entry service
 import EfficientPeriodAnalyzer from '../services/periodAnalyzer';
-import { entriesService } from '../services/entries';
+import { entryRepository } from '../services/repository/entryRepository';
 import { Entry } from '../types/journal';
 
 interface EntryPreviewProps {
@@ -36,7 +36,7 @@ export default function EntryPreview({ title, content, opacity, onPress, current
     setIsLoadingDayInfo(true);
     try {
       // Get all entries for today
-      const groupedEntries = await entriesService.groupEntriesByDay();
+      const groupedEntries = await entryRepository.groupEntriesByDay();
       const dayEntries = groupedEntries[currentDate] || [];
       setDayEntryCount(dayEntries.length);
 
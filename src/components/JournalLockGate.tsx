@@ -0,0 +1,202 @@
+import { Ionicons } from '@expo/vector-icons';
+import { usePathname } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator, KeyboardAvoidingView, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme } from '../constants/theme';
+import { useAuth } from '../context/AuthContext';
+import { useKeyVault } from '../hooks/useKeyVault';
+import JournalRecoveryScreen from '../screens/JournalRecoveryScreen';
+import PairDeviceScreen from '../screens/PairDeviceScreen';
+import { keyVault } from '../services/keyVault';
+
+// Reachable while locked: an account password reset signs the user in
+// mid-flow, and recovery is how a forgotten passphrase gets replaced. The
+// journal provider stays mounted behind them but starts no loading, sync,
+// realtime or migrations until the key is unlocked.
+const UNGATED_ROUTES = ['/reset-password', '/recover-journal'];
+
+/**
+ * Keeps the journal unmounted while a passphrase-protected account is
+ * locked, so nothing loads, syncs or gets written without the data key.
+ */
+export default function JournalLockGate({ children }: { children: React.ReactNode }) {
+  const { userId, status, unlockWithPassphrase, unlockWithBiometrics } = useKeyVault();
+  const { signOut } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [biometrics, setBiometrics] = useState(false);
+  const [recovering, setRecovering] = useState(false);
+  const [pairing, setPairing] = useState(false);
+  const pathname = usePathname();
+
+  // Offer biometrics straight away when they hold a copy of the key
+  useEffect(() => {
+    if (status !== 'locked' || !userId) return;
+    let cancelled = false;
+    keyVault.isBiometricUnlockEnabled(userId).then(enabled => {
+      if (cancelled) return;
+      setBiometrics(enabled);
+      if (enabled) unlockWithBiometrics().catch(() => {});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [status, userId, unlockWithBiometrics]);
+
+  if (status === null) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+  if (status !== 'locked' || UNGATED_ROUTES.includes(pathname)) return <>{children}</>;
+  if (recovering) {
+    return <JournalRecoveryScreen onDone={() => setRecovering(false)} onCancel={() => setRecovering(false)} />;
+  }
+  if (pairing) return <PairDeviceScreen onCancel={() => setPairing(false)} />;
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlockWithPassphrase(passphrase);
+      setPassphrase('');
+    } catch (e: any) {
+      setError(e?.message === 'Incorrect passphrase' ? 'That passphrase is not right.' : 'Could not unlock. Please try again.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView style={styles.content} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Ionicons name="lock-closed" size={48} color={theme.colors.primary} />
+        <Text style={styles.title}>Journal Locked</Text>
+        <Text style={styles.subtitle}>Enter your journal passphrase to read and write entries.</Text>
+
+        <TextInput
+          style={styles.input}
+          value={passphrase}
+          onChangeText={setPassphrase}
+          placeholder="Passphrase"
+          placeholderTextColor={theme.colors.muted}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="go"
+          onSubmitEditing={handleUnlock}
+          editable={!unlocking}
+        />
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.button, (!passphrase || unlocking) && styles.buttonDisabled]}
+          onPress={handleUnlock}
+          disabled={!passphrase || unlocking}
+        >
+          {unlocking ? <ActivityIndicator color="#FFF" /> : <Text style={styles.buttonText}>Unlock</Text>}
+        </TouchableOpacity>
+
+        {biometrics && (
+          <TouchableOpacity style={styles.link} onPress={() => unlockWithBiometrics().catch(() => {})} disabled={unlocking}>
+            <Ionicons name="finger-print" size={20} color={theme.colors.primary} />
+            <Text style={styles.linkText}>Unlock with Biometrics</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.link} onPress={() => setPairing(true)} disabled={unlocking}>
+          <Ionicons name="qr-code-outline" size={20} color={theme.colors.primary} />
+          <Text style={styles.linkText}>Pair with Another Device</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.link} onPress={() => setRecovering(true)} disabled={unlocking}>
+          <Text style={styles.secondaryText}>Forgot passphrase? Use your recovery key</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.link} onPress={() => signOut().catch(() => {})} disabled={unlocking}>
+          <Text style={styles.secondaryText}>Sign Out</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  title: {
+    ...theme.typography.h2,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  subtitle: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  input: {
+    ...theme.typography.body,
+    width: '100%',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surface,
+  },
+  error: {
+    ...theme.typography.caption,
+    color: theme.colors.danger,
+  },
+  button: {
+    width: '100%',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    ...theme.typography.button,
+    color: '#FFF',
+  },
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+  },
+  linkText: {
+    ...theme.typography.button,
+    color: theme.colors.primary,
+  },
+  secondaryText: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -0,0 +1,122 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { theme } from '../constants/theme';
+import { Journal } from '../types/journal';
+
+interface JournalPickerProps {
+  visible: boolean;
+  title?: string;
+  journals: Journal[];
+  selectedId?: string;
+  onSelect: (journal: Journal) => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal list of journals to pick one from, e.g. to move entries into.
+ */
+export default function JournalPicker({
+  visible, title = 'Move to Journal', journals, selectedId, onSelect, onClose,
+}: JournalPickerProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.scroll}>
+            {journals.map(journal => {
+              const selected = journal.id === selectedId;
+              return (
+                <TouchableOpacity
+                  key={journal.id}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => onSelect(journal)}
+                  disabled={selected}
+                >
+                  <View style={[styles.icon, { backgroundColor: journal.color + '20' }]}>
+                    <Ionicons name={journal.icon as keyof typeof Ionicons.glyphMap} size={18} color={journal.color} />
+                  </View>
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]} numberOfLines={1}>
+                    {journal.name}
+                  </Text>
+                  {selected && <Ionicons name="checkmark" size={20} color={theme.colors.primary} />}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+  },
+  content: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.lg,
+    width: '100%',
+    maxHeight: '70%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    ...theme.typography.h3,
+    color: theme.colors.text,
+    fontWeight: '700',
+  },
+  scroll: {
+    maxHeight: 300,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border + '50',
+  },
+  optionSelected: {
+    backgroundColor: theme.colors.primary + '10',
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionText: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    flex: 1,
+  },
+  optionTextSelected: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+});
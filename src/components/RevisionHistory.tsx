@@ -0,0 +1,204 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { theme } from '../constants/theme';
+import { EntryRevision, RevisionService } from '../services/revisions';
+import { Entry } from '../types/journal';
+import { diffWords } from '../utils/diff';
+import { formatDisplayDate, formatTime } from '../utils/format';
+
+interface RevisionHistoryProps {
+  entry: Entry;
+  onRestore: (revision: EntryRevision) => void;
+}
+
+function DiffText({ before, after, style }: { before: string; after: string; style: any }) {
+  return (
+    <Text style={style}>
+      {diffWords(before, after).map((part, index) => (
+        <Text
+          key={index}
+          style={part.type === 'added' ? styles.added : part.type === 'removed' ? styles.removed : undefined}
+        >
+          {part.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+/**
+ * Earlier versions of an entry, newest first. Expanding one shows what the
+ * edit after it changed: struck-through text was removed, highlighted text
+ * was added.
+ */
+export default function RevisionHistory({ entry, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    RevisionService.listRevisions(entry.id)
+      .then(list => {
+        if (!cancelled) setRevisions(list);
+      })
+      .catch(err => {
+        console.error('Failed to load revisions:', err);
+        if (!cancelled) setError('Could not load the history. Check your connection and try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.updatedAt]);
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loader} color={theme.colors.primary} />;
+  }
+
+  if (error) {
+    return <Text style={styles.emptyText}>{error}</Text>;
+  }
+
+  if (revisions.length === 0) {
+    return <Text style={styles.emptyText}>No earlier versions of this entry.</Text>;
+  }
+
+  return (
+    <View>
+      {revisions.map((revision, index) => {
+        const newer = index === 0 ? entry : revisions[index - 1].entry;
+        const expanded = expandedId === revision.id;
+
+        return (
+          <View key={revision.id} style={styles.revision}>
+            <TouchableOpacity
+              style={styles.revisionHeader}
+              onPress={() => setExpandedId(expanded ? null : revision.id)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.revisionInfo}>
+                <Text style={styles.revisionTitle}>
+                  {formatDisplayDate(revision.entry.updatedAt)}
+                </Text>
+                <Text style={styles.revisionMeta}>
+                  Saved {formatTime(revision.entry.updatedAt)} · replaced {formatTime(revision.revisedAt)}
+                </Text>
+              </View>
+              <Ionicons
+                name={expanded ? 'chevron-up' : 'chevron-down'}
+                size={18}
+                color={theme.colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            {expanded && (
+              <View style={styles.diff}>
+                {(revision.entry.title || newer.title) && (
+                  <DiffText
+                    before={revision.entry.title ?? ''}
+                    after={newer.title ?? ''}
+                    style={styles.diffTitle}
+                  />
+                )}
+                <DiffText
+                  before={revision.entry.body ?? ''}
+                  after={newer.body ?? ''}
+                  style={styles.diffBody}
+                />
+
+                <TouchableOpacity style={styles.restoreButton} onPress={() => onRestore(revision)}>
+                  <Ionicons name="arrow-undo-outline" size={16} color={theme.colors.primary} />
+                  <Text style={styles.restoreButtonText}>Restore this version</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loader: {
+    marginVertical: theme.spacing.xl,
+  },
+  emptyText: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: theme.spacing.xl,
+  },
+  revision: {
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTitle: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    fontWeight: '600',
+  },
+  revisionMeta: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  diff: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  diffTitle: {
+    ...theme.typography.h3,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  diffBody: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    lineHeight: 24,
+  },
+  added: {
+    backgroundColor: theme.colors.success + '30',
+  },
+  removed: {
+    backgroundColor: theme.colors.danger + '25',
+    textDecorationLine: 'line-through',
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.radius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.background,
+  },
+  restoreButtonText: {
+    ...theme.typography.caption,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+});
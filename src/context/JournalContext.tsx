@@ -1,88 +1,279 @@
 // src/context/JournalContext.tsx
-import { entriesService } from '@/services/entries';
+import { useAuth } from '@/context/AuthContext';
+import { ConflictResolution } from '@/services/conflicts';
+import {
+  applyBulkEdit, BulkEdit, CreateEntryInput, draftEntry, ENTRY_PAGE_SIZE, inJournal, isBeforeCursor,
+  RepositoryMode, sortEntries,
+} from '@/services/repository';
+import { entryRepository, REPOSITORY_MODE_CHANGED_EVENT } from '@/services/repository/entryRepository';
+import { EntryRow } from '@/services/repository/rows';
 import { supabase } from '@/services/supabase';
+import { ACTIVE_JOURNAL_CHANGED_EVENT, journalsService } from '@/services/journals';
+import { MigrationService } from '@/services/migrationService';
+import { OUTBOX_FLUSHED_EVENT } from '@/services/outbox';
 import PeriodAnalyzer from '@/services/periodAnalyzer';
-import { Entry } from '@/types/journal';
+import { SYNC_CHANGES_EVENT, syncEngine } from '@/services/syncEngine';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { useToast } from '@/hooks/useToast';
+import { DEFAULT_JOURNAL_ID, Entry, EntryCursor } from '@/types/journal';
 import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+type DaySummaryRow = {
+  date: string;
+  title: string | null;
+  needs_regeneration: boolean | null;
+};
 
 interface JournalContextType {
-  entries: Entry[];
+  entries: Entry[]; // the loaded window of the active journal's timeline, newest first
+  activeJournalId: string;
+  dayTitles: Record<string, string>; // titles pushed live from day_summaries
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   refreshEntries: () => Promise<void>;
-  createEntry: (data: Partial<Entry>) => Promise<Entry>;
+  loadMore: () => Promise<void>;
+  createEntry: (data: CreateEntryInput) => Promise<Entry>;
   updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
+  restoreEntry: (id: string) => Promise<void>; // bring an entry back from the trash
+  moveEntries: (ids: string[], journalId: string) => Promise<void>;
+  bulkUpdateEntries: (ids: string[], edit: BulkEdit) => Promise<void>;
+  bulkDeleteEntries: (ids: string[]) => Promise<void>;
+  resolveConflict: (copyId: string, resolution: ConflictResolution) => Promise<void>;
   getDayTitle: (date: string, dayEntries: Entry[]) => Promise<string>;
 }
 
 const JournalContext = createContext<JournalContextType | undefined>(undefined);
 
 export function JournalProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { showError } = useToast();
+  const { status: keyStatus } = useKeyVault();
+  // The lock gate lets a few screens through while locked; nothing loads,
+  // syncs or migrates until the key is available
+  const keyReady = keyStatus === 'unlocked' || keyStatus === 'unprotected';
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [dayTitles, setDayTitles] = useState<Record<string, string>>({});
+  const [repositoryMode, setRepositoryMode] = useState<RepositoryMode | null>(null);
+  const [activeJournalId, setActiveJournalId] = useState(DEFAULT_JOURNAL_ID);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const initialLoadDone = useRef(false);
+  const entriesRef = useRef<Entry[]>([]);
+  const cursorRef = useRef<EntryCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  const activeJournalRef = useRef(DEFAULT_JOURNAL_ID);
+
+  entriesRef.current = entries;
+
+  const setCursor = (cursor: EntryCursor | null) => {
+    cursorRef.current = cursor;
+    setHasMore(!!cursor);
+  };
+
+  // Patch one entry into the loaded window without reloading it
+  const upsertLocal = useCallback((entry: Entry) => {
+    setEntries(prev => {
+      const rest = prev.filter(e => e.id !== entry.id);
+      // Older than the loaded window: it will arrive with its page
+      const outsideWindow = (cursorRef.current && isBeforeCursor(entry, cursorRef.current))
+        || !inJournal(entry, activeJournalRef.current);
+      return entry.deleted || outsideWindow ? rest : sortEntries([...rest, entry]);
+    });
+  }, []);
+
+  const removeLocal = useCallback((id: string) => {
+    setEntries(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  const analyzeDay = (date?: string) => {
+    if (!date) return;
+    PeriodAnalyzer.handleEntryChange(date).catch(error => {
+      console.log('Background analysis trigger failed (non-critical):', error);
+    });
+  };
 
   const refreshEntries = useCallback(async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.auth.getUser();
-      if (error || !data?.user) {
+      // getSession reads the cached session, so this also works offline
+      const { data, error } = await supabase.auth.getSession();
+      const signedIn = !error && !!data?.session?.user;
+      if (!signedIn && (await entryRepository.getMode()) !== 'local') {
         setEntries([]);
+        setCursor(null);
         return;
       }
-      const loaded = await entriesService.listEntries();
-      console.log('📚 Loaded entries count:', loaded.length); // Add this
-      setEntries(loaded);
+
+      const journalId = await journalsService.getActiveJournalId();
+      const journalChanged = journalId !== activeJournalRef.current;
+      activeJournalRef.current = journalId;
+      setActiveJournalId(journalId);
+
+      // Reload as much as is already on screen so refreshing keeps the scroll depth
+      const limit = journalChanged ? ENTRY_PAGE_SIZE : Math.max(ENTRY_PAGE_SIZE, entriesRef.current.length);
+      const page = await entryRepository.listEntriesPage({ limit, journalId });
+      console.log('📚 Loaded entries count:', page.entries.length); // Add this
+      setEntries(page.entries);
+      setCursor(page.nextCursor);
     } catch (err) {
       console.error('Failed to refresh entries:', err);
       setEntries([]);
+      setCursor(null);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  const createEntry = useCallback(async (data: Partial<Entry>) => {
-    const entry = await entriesService.createEntry(data);
-    await refreshEntries();
-    
-    if (entry.date) {
-      PeriodAnalyzer.handleEntryChange(entry.date).catch(error => {
-        console.log('Background analysis trigger failed (non-critical):', error);
+  const loadMore = useCallback(async () => {
+    const before = cursorRef.current;
+    if (!before || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await entryRepository.listEntriesPage({ before, journalId: activeJournalRef.current });
+      // A refresh may have replaced the window while this page was loading
+      if (cursorRef.current !== before) return;
+
+      setEntries(prev => {
+        const loadedIds = new Set(prev.map(e => e.id));
+        return [...prev, ...page.entries.filter(e => !loadedIds.has(e.id))];
       });
+      setCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more entries:', err);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
     }
-    
+  }, []);
+
+  // Mutations apply to local state first, then reconcile with what the
+  // server returns; on failure the change is rolled back and rethrown.
+  const createEntry = useCallback(async (data: CreateEntryInput) => {
+    // New entries go in the journal being viewed unless told otherwise
+    const draft = draftEntry({ journalId: activeJournalRef.current, ...data });
+    upsertLocal(draft);
+
+    let entry: Entry;
+    try {
+      entry = await entryRepository.createEntry({
+        ...data, id: draft.id, createdAt: draft.createdAt, date: draft.date, journalId: draft.journalId,
+      });
+    } catch (error) {
+      removeLocal(draft.id);
+      showError('Could not save your entry. Please try again.');
+      throw error;
+    }
+
+    upsertLocal(entry);
+    analyzeDay(entry.date);
     return entry;
-  }, [refreshEntries]);
+  }, [upsertLocal, removeLocal, showError]);
 
   const updateEntry = useCallback(async (id: string, updates: Partial<Entry>) => {
-    const oldEntry = entries.find(e => e.id === id);
-    await entriesService.updateEntry(id, updates);
-    await refreshEntries();
-    
-    if (oldEntry?.date) {
-      PeriodAnalyzer.handleEntryChange(oldEntry.date).catch(error => {
-        console.log('Background analysis trigger failed (non-critical):', error);
-      });
+    const oldEntry = entriesRef.current.find(e => e.id === id);
+    if (oldEntry) {
+      upsertLocal({ ...oldEntry, ...updates, id, updatedAt: new Date().toISOString() });
     }
-    
+
+    try {
+      const saved = await entryRepository.updateEntry(id, updates, oldEntry);
+      if (saved) upsertLocal(saved);
+    } catch (error) {
+      if (oldEntry) upsertLocal(oldEntry);
+      showError('Could not save your changes. Please try again.');
+      throw error;
+    }
+
+    analyzeDay(oldEntry?.date);
     if (updates.date && updates.date !== oldEntry?.date) {
-      PeriodAnalyzer.handleEntryChange(updates.date).catch(error => {
-        console.log('Background analysis trigger failed (non-critical):', error);
-      });
+      analyzeDay(updates.date);
     }
-  }, [refreshEntries, entries]);
+  }, [upsertLocal, showError]);
 
   const deleteEntry = useCallback(async (id: string) => {
-    const oldEntry = entries.find(e => e.id === id);
-    await entriesService.deleteEntry(id);
-    await refreshEntries();
-    
-    if (oldEntry?.date) {
-      PeriodAnalyzer.handleEntryChange(oldEntry.date).catch(error => {
-        console.log('Background analysis trigger failed (non-critical):', error);
-      });
+    const oldEntry = entriesRef.current.find(e => e.id === id);
+    removeLocal(id);
+
+    try {
+      await entryRepository.deleteEntry(id);
+    } catch (error) {
+      if (oldEntry) upsertLocal(oldEntry);
+      showError('Could not delete the entry. Please try again.');
+      throw error;
+    }
+
+    analyzeDay(oldEntry?.date);
+  }, [upsertLocal, removeLocal, showError]);
+
+  const restoreEntry = useCallback(async (id: string) => {
+    let restored: Entry | null;
+    try {
+      restored = await entryRepository.restoreEntry(id);
+    } catch (error) {
+      showError('Could not restore the entry. Please try again.');
+      throw error;
+    }
+    if (!restored) return;
+
+    upsertLocal(restored);
+    analyzeDay(restored.date);
+  }, [upsertLocal, showError]);
+
+  // Each affected day is re-analysed once, however many of its entries changed
+  const bulkUpdateEntries = useCallback(async (ids: string[], edit: BulkEdit) => {
+    const selected = new Set(ids);
+    const oldEntries = entriesRef.current.filter(e => selected.has(e.id));
+    applyBulkEdit(oldEntries, edit).forEach(upsertLocal);
+
+    let saved: Entry[];
+    try {
+      saved = await entryRepository.bulkUpdateEntries(ids, edit);
+    } catch (error) {
+      oldEntries.forEach(upsertLocal);
+      showError('Could not update the selected entries. Please try again.');
+      throw error;
     }
+
+    saved.forEach(upsertLocal);
+    new Set([...oldEntries, ...saved].map(e => e.date)).forEach(analyzeDay);
+  }, [upsertLocal, showError]);
+
+  const bulkDeleteEntries = useCallback(async (ids: string[]) => {
+    const selected = new Set(ids);
+    const oldEntries = entriesRef.current.filter(e => selected.has(e.id));
+    ids.forEach(removeLocal);
+
+    try {
+      await entryRepository.bulkDeleteEntries(ids);
+    } catch (error) {
+      oldEntries.forEach(upsertLocal);
+      showError('Could not delete the selected entries. Please try again.');
+      throw error;
+    }
+
+    new Set(oldEntries.map(e => e.date)).forEach(analyzeDay);
+  }, [upsertLocal, removeLocal, showError]);
+
+  // Moved entries drop out of the current journal's window
+  const moveEntries = useCallback(
+    (ids: string[], journalId: string) => bulkUpdateEntries(ids, { kind: 'setJournal', journalId }),
+    [bulkUpdateEntries]
+  );
+
+  const resolveConflict = useCallback(async (copyId: string, resolution: ConflictResolution) => {
+    const copy = entries.find(e => e.id === copyId);
+    await entryRepository.resolveConflict(copyId, resolution);
+    await refreshEntries();
+
+    analyzeDay(copy?.date);
   }, [refreshEntries, entries]);
 
   const getDayTitle = useCallback(async (date: string, dayEntries: Entry[]): Promise<string> => {
@@ -90,6 +281,7 @@ export function JournalProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   useEffect(() => {
+    if (!keyReady) return;
     // Only do initial load once
     if (!initialLoadDone.current) {
       initialLoadDone.current = true;
@@ -110,9 +302,116 @@ export function JournalProvider({ children }: { children: React.ReactNode }) {
     return () => { 
       sub.subscription.unsubscribe(); 
     };
+  }, [refreshEntries, keyReady]);
+
+  // Background sync: on launch, on foreground, on reconnect and on a timer
+  useEffect(() => (keyReady ? syncEngine.start() : undefined), [keyReady]);
+
+  useEffect(() => {
+    const flushedSub = DeviceEventEmitter.addListener(OUTBOX_FLUSHED_EVENT, () => {
+      refreshEntries();
+    });
+    const changesSub = DeviceEventEmitter.addListener(SYNC_CHANGES_EVENT, () => {
+      refreshEntries();
+    });
+    const journalSub = DeviceEventEmitter.addListener(ACTIVE_JOURNAL_CHANGED_EVENT, () => {
+      refreshEntries();
+    });
+
+    return () => {
+      flushedSub.remove();
+      changesSub.remove();
+      journalSub.remove();
+    };
   }, [refreshEntries]);
 
+  // Bring this user's data up to date; resumes a run interrupted last launch
   useEffect(() => {
+    if (!user?.id || !keyReady) return;
+
+    MigrationService.runMigrationIfNeeded(user.id)
+      .then(changed => {
+        if (changed) refreshEntries();
+      })
+      .catch(error => {
+        console.log('Data migration failed, will retry next launch:', error);
+      });
+  }, [user?.id, keyReady, refreshEntries]);
+
+  // Follow the entry repository mode; switching backends reloads the journal
+  useEffect(() => {
+    entryRepository.getMode().then(setRepositoryMode);
+
+    const sub = DeviceEventEmitter.addListener(REPOSITORY_MODE_CHANGED_EVENT, ({ mode }) => {
+      setRepositoryMode(mode);
+      refreshEntries();
+    });
+    return () => sub.remove();
+  }, [refreshEntries]);
+
+  // Live updates from other devices: patch entries and day titles in place
+  useEffect(() => {
+    if (!user?.id || !keyReady || !repositoryMode || repositoryMode === 'local') {
+      setDayTitles({});
+      return;
+    }
+
+    const handleEntryChange = async (payload: RealtimePostgresChangesPayload<EntryRow>) => {
+      if (payload.eventType === 'DELETE') {
+        const removedId = (payload.old as Partial<EntryRow>).id;
+        if (removedId) removeLocal(removedId);
+        return;
+      }
+
+      try {
+        const entry = await entryRepository.applyRemoteRow(payload.new);
+        if (entry) upsertLocal(entry);
+      } catch (error) {
+        console.error('Failed to apply live entry change:', error);
+      }
+    };
+
+    const handleSummaryChange = (payload: RealtimePostgresChangesPayload<DaySummaryRow>) => {
+      const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<DaySummaryRow>;
+      if (!row.date) return;
+      const date = row.date;
+
+      setDayTitles(prev => {
+        const next = { ...prev };
+        if (payload.eventType === 'DELETE' || row.needs_regeneration || !row.title) {
+          delete next[date];
+        } else {
+          next[date] = row.title;
+        }
+        return next;
+      });
+    };
+
+    const channel = supabase
+      .channel(`journal:${user.id}`)
+      .on<EntryRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'entries', filter: `user_id=eq.${user.id}` },
+        handleEntryChange
+      )
+      .on<DaySummaryRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'day_summaries', filter: `user_id=eq.${user.id}` },
+        handleSummaryChange
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.log('Realtime subscription unavailable (non-critical):', status);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, keyReady, repositoryMode, upsertLocal, removeLocal]);
+
+  useEffect(() => {
+    if (!keyReady) return;
     const cleanupOutdatedSummaries = () => {
       PeriodAnalyzer.processOutdatedSummaries(3).catch(error => {
         console.log('Background cleanup failed (non-critical):', error);
@@ -121,16 +420,26 @@ export function JournalProvider({ children }: { children: React.ReactNode }) {
 
     const timer = setTimeout(cleanupOutdatedSummaries, 5000);
     return () => clearTimeout(timer);
-  }, []);
+  }, [keyReady]);
 
   return (
     <JournalContext.Provider value={{ 
       entries, 
+      activeJournalId,
+      dayTitles,
       isLoading, 
+      isLoadingMore,
+      hasMore,
       refreshEntries, 
+      loadMore,
       createEntry, 
       updateEntry, 
       deleteEntry,
+      restoreEntry,
+      moveEntries,
+      bulkUpdateEntries,
+      bulkDeleteEntries,
+      resolveConflict,
       getDayTitle 
     }}>
       {children}
@@ -1,12 +1,17 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { entriesService } from '@/services/entries';
+import { GuestUpgradeProgress, GuestUpgradeService } from '@/services/guestUpgrade';
+import { journalsService } from '@/services/journals';
+import { entryRepository } from '@/services/repository/entryRepository';
+import { generateId } from '@/utils/id';
 
 interface UserProfile {
   id: string;
   email: string;
   name: string;
   bio?: string;
-  avatar_url?: string;
+  avatar_url?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -15,15 +20,22 @@ interface AuthContextType {
   user: UserProfile | null;
   profile: UserProfile | null;
   loading: boolean;
+  isGuest: boolean;
+  startGuestSession: (name?: string) => Promise<void>;
+  upgradeToAccount: (userId: string, onProgress?: (progress: GuestUpgradeProgress) => void) => Promise<number>;
   updateProfile: (updates: Partial<UserProfile>) => Promise<void>;
   signOut: () => Promise<void>;
-  signIn: (email: string, name: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const PROFILE_STORAGE_KEY = '@Jeevun:userProfile';
 
+/**
+ * Signed-out guest mode. A guest has a profile on this device only, and
+ * their entries live in the local entry repository until they create or
+ * sign in to an account, when `upgradeToAccount` moves them across.
+ */
 export const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
@@ -37,18 +49,6 @@ export const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       const storedProfile = await AsyncStorage.getItem(PROFILE_STORAGE_KEY);
       if (storedProfile) {
         setProfile(JSON.parse(storedProfile));
-      } else {
-        // Create default profile for demo/local use
-        const defaultProfile: UserProfile = {
-          id: 'local-user-001',
-          email: 'user@quillai.local',
-          name: 'Journal User',
-          bio: 'Journaling my thoughts and experiences daily.',
-          avatar_url: null,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-        await saveProfile(defaultProfile);
       }
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -83,18 +83,25 @@ export const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   };
 
-  const signIn = async (email: string, name: string) => {
-    const newProfile: UserProfile = {
-      id: `user-${Date.now()}`,
-      email,
+  const startGuestSession = useCallback(async (name = 'Guest') => {
+    const now = new Date().toISOString();
+    const guestProfile: UserProfile = {
+      id: `guest-${generateId()}`,
+      email: '',
       name,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      avatar_url: null,
+      created_at: now,
+      updated_at: now,
     };
-    await saveProfile(newProfile);
-  };
 
-  const signOut = async () => {
+    // Never show a previous account's mirrored entries or journals to a guest
+    await entriesService.claimLocalStore(guestProfile.id);
+    await journalsService.reset();
+    await saveProfile(guestProfile);
+    await entryRepository.setMode('local');
+  }, []);
+
+  const signOut = useCallback(async () => {
     try {
       await AsyncStorage.removeItem(PROFILE_STORAGE_KEY);
       setProfile(null);
@@ -102,17 +109,28 @@ export const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       console.error('Error signing out:', error);
       throw error;
     }
-  };
+  }, []);
+
+  const upgradeToAccount = useCallback(async (
+    userId: string,
+    onProgress?: (progress: GuestUpgradeProgress) => void
+  ) => {
+    const moved = await GuestUpgradeService.upgradeToAccount(userId, onProgress);
+    await signOut();
+    return moved;
+  }, [signOut]);
 
   return (
-    <AuthContext.Provider 
-      value={{ 
-        user: profile, 
-        profile, 
-        loading, 
-        updateProfile, 
+    <AuthContext.Provider
+      value={{
+        user: profile,
+        profile,
+        loading,
+        isGuest: !!profile,
+        startGuestSession,
+        upgradeToAccount,
+        updateProfile,
         signOut,
-        signIn 
       }}
     >
       {children}
@@ -120,10 +138,10 @@ export const LocalAuthProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   );
 };
 
-export const useAuth = () => {
+export const useLocalAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
+    throw new Error('useLocalAuth must be used within a LocalAuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,34 @@
+import { useJournal } from '@/context/JournalContext';
+import { inJournal } from '@/services/repository';
+import { entryRepository } from '@/services/repository/entryRepository';
+import { Entry } from '@/types/journal';
+import { useEffect, useState } from 'react';
+
+/**
+ * Every entry in the journal, read from the local mirror. The journal
+ * context only holds the loaded timeline window; stats and reviews need
+ * the whole thing. Reloads whenever the context's entries change. Pass a
+ * journal id to get only that journal's entries.
+ */
+export const useAllEntries = (journalId?: string) => {
+  const { entries: loadedEntries } = useJournal();
+  const [entries, setEntries] = useState<Entry[]>(loadedEntries);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    entryRepository.listLocalEntries()
+      .then(all => {
+        if (!cancelled) setEntries(journalId ? all.filter(e => inJournal(e, journalId)) : all);
+      })
+      .catch(error => {
+        console.error('Failed to load all entries:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadedEntries, journalId]);
+
+  return entries;
+};
@@ -0,0 +1,31 @@
+import { photoCache } from '@/services/photoCache';
+import { useEffect, useState } from 'react';
+
+/**
+ * A displayable URI for a photo: the local cached copy, downloading it on
+ * first use. Undefined while the download is in flight.
+ */
+export const useCachedPhoto = (uri: string | null | undefined) => {
+  const [localUri, setLocalUri] = useState<string | undefined>(
+    uri ? photoCache.peek(uri) ?? undefined : undefined
+  );
+
+  useEffect(() => {
+    if (!uri) {
+      setLocalUri(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    setLocalUri(photoCache.peek(uri) ?? undefined);
+    photoCache.resolve(uri).then(resolved => {
+      if (!cancelled) setLocalUri(resolved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  return localUri;
+};
@@ -0,0 +1,122 @@
+import { useAuth } from '@/context/AuthContext';
+import { devicePairing, OfferStatus, PairingOffer } from '@/services/devicePairing';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Both ends of device pairing. The unlocked device calls showCode and
+ * displays `offer`; the new one calls enterCode with what it scanned or
+ * typed, and unlocks once the key arrives. Each side polls the pairing
+ * row until it is done, and a pending offer is withdrawn on unmount.
+ */
+export const useDevicePairing = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [offer, setOffer] = useState<PairingOffer | null>(null);
+  const [offerStatus, setOfferStatus] = useState<OfferStatus | null>(null);
+  const [pairingId, setPairingId] = useState<string | null>(null);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const pendingOffer = useRef<string | null>(null);
+
+  // Sharing side: wait for an answer, then send the key
+  useEffect(() => {
+    if (!userId || !offer || offerStatus !== 'waiting') return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      try {
+        const status = await devicePairing.checkOffer(userId, offer.id);
+        if (cancelled) return;
+        if (status !== 'waiting') {
+          pendingOffer.current = null;
+          setOfferStatus(status);
+          return;
+        }
+      } catch (error) {
+        console.warn('Failed to check device pairing:', error);
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userId, offer, offerStatus]);
+
+  // Receiving side: wait for the key; unlocking swaps out the lock screen
+  useEffect(() => {
+    if (!userId || !pairingId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const poll = async () => {
+      try {
+        if (await devicePairing.receiveKey(userId, pairingId)) return;
+      } catch (error: any) {
+        if (cancelled) return;
+        setPairingId(null);
+        setAnswerError(error?.message ?? 'Pairing failed. Please try again');
+        return;
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [userId, pairingId]);
+
+  useEffect(() => () => {
+    if (pendingOffer.current) devicePairing.cancelOffer(pendingOffer.current);
+  }, []);
+
+  const requireUser = useCallback(() => {
+    if (!userId) throw new Error('Sign in to pair devices');
+    return userId;
+  }, [userId]);
+
+  const showCode = useCallback(async () => {
+    const created = await devicePairing.createOffer(requireUser());
+    pendingOffer.current = created.id;
+    setOffer(created);
+    setOfferStatus('waiting');
+  }, [requireUser]);
+
+  const cancelOffer = useCallback(() => {
+    if (pendingOffer.current) devicePairing.cancelOffer(pendingOffer.current);
+    pendingOffer.current = null;
+    setOffer(null);
+    setOfferStatus(null);
+  }, []);
+
+  const enterCode = useCallback(async (code: string) => {
+    setAnswerError(null);
+    try {
+      setPairingId(await devicePairing.answerOffer(requireUser(), code));
+    } catch (error: any) {
+      setAnswerError(error?.message ?? 'Pairing failed. Please try again');
+    }
+  }, [requireUser]);
+
+  const cancelAnswer = useCallback(() => {
+    setPairingId(null);
+    setAnswerError(null);
+  }, []);
+
+  return {
+    offer,
+    offerStatus,
+    showCode,
+    cancelOffer,
+    waitingForKey: !!pairingId,
+    answerError,
+    enterCode,
+    cancelAnswer,
+  };
+};
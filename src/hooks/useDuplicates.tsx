@@ -0,0 +1,58 @@
+import { useJournal } from '@/context/JournalContext';
+import { DuplicatePair, DuplicateService } from '@/services/duplicates';
+import { ImageUploadService } from '@/services/imageUpload';
+import { Entry } from '@/types/journal';
+import { useCallback, useEffect, useState } from 'react';
+import { useAllEntries } from './useAllEntries';
+
+/**
+ * Likely duplicate entries across the whole journal, and the actions to
+ * resolve them. Rechecks whenever entries change.
+ */
+export const useDuplicates = () => {
+  const { updateEntry, deleteEntry } = useJournal();
+  const entries = useAllEntries();
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    DuplicateService.findDuplicates(entries)
+      .then(found => {
+        if (!cancelled) setPairs(found);
+      })
+      .catch(error => {
+        console.error('Failed to find duplicates:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entries]);
+
+  /**
+   * Fold the other entry of `pair` into `keep` and move the other one to
+   * the trash. The other's photos are copied into the kept entry's folder
+   * first, since purging the other one deletes its folder.
+   */
+  const merge = useCallback(async (pair: DuplicatePair, keep: Entry) => {
+    const other = keep.id === pair.first.id ? pair.second : pair.first;
+    const updates = DuplicateService.mergeUpdates(keep, other);
+    updates.photoUris = await ImageUploadService.copyIntoEntry(updates.photoUris ?? [], keep.id);
+    await updateEntry(keep.id, updates);
+    await updateEntry(other.id, { mergedInto: keep.id });
+    await deleteEntry(other.id);
+    setPairs(prev => prev.filter(p => ![p.first.id, p.second.id].includes(other.id)));
+  }, [updateEntry, deleteEntry]);
+
+  const dismiss = useCallback(async (pair: DuplicatePair) => {
+    await DuplicateService.dismiss(pair);
+    setPairs(prev => prev.filter(p => p.key !== pair.key));
+  }, []);
+
+  return { pairs, isLoading, merge, dismiss };
+};
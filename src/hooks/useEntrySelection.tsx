@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Multi-select state for entry lists. Rows can stand for several entries
+ * (a timeline day), so selection works on groups of ids.
+ */
+export const useEntrySelection = () => {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const isSelected = useCallback(
+    (ids: string[]) => ids.length > 0 && ids.every(id => selectedIds.has(id)),
+    [selectedIds]
+  );
+
+  // Selects the group unless all of it is already selected, then deselects it
+  const toggle = useCallback((ids: string[]) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (ids.every(id => prev.has(id))) ids.forEach(id => next.delete(id));
+      else ids.forEach(id => next.add(id));
+      return next;
+    });
+  }, []);
+
+  const startSelecting = useCallback((ids: string[] = []) => {
+    setIsSelecting(true);
+    setSelectedIds(new Set(ids));
+  }, []);
+
+  const clear = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
+
+  return { isSelecting, selectedIds, isSelected, toggle, startSelecting, clear };
+};
@@ -1,4 +1,4 @@
-import { useJournal } from '@/context/JournalContext';
+import { useAllEntries } from '@/hooks/useAllEntries';
 import { useEffect, useState } from 'react';
 
 interface JournalStats {
@@ -9,7 +9,7 @@ interface JournalStats {
 }
 
 export const useJournalStats = () => {
-  const { entries } = useJournal();
+  const entries = useAllEntries();
   const [stats, setStats] = useState<JournalStats>({
     totalEntries: 0,
     totalDays: 0,
@@ -0,0 +1,56 @@
+import { useJournal } from '@/context/JournalContext';
+import { JournalInput, JOURNALS_CHANGED_EVENT, journalsService } from '@/services/journals';
+import { journalOf } from '@/services/repository';
+import { entryRepository } from '@/services/repository/entryRepository';
+import { DEFAULT_JOURNAL_ID, Journal } from '@/types/journal';
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+
+/**
+ * The account's journals and which one the app is showing.
+ */
+export const useJournals = () => {
+  const { activeJournalId, moveEntries } = useJournal();
+  const [journals, setJournals] = useState<Journal[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      journalsService.listJournals()
+        .then(list => {
+          if (!cancelled) setJournals(list);
+        })
+        .catch(error => console.error('Failed to load journals:', error));
+    };
+
+    load();
+    const sub = DeviceEventEmitter.addListener(JOURNALS_CHANGED_EVENT, load);
+
+    return () => {
+      cancelled = true;
+      sub.remove();
+    };
+  }, []);
+
+  const activeJournal = journals.find(j => j.id === activeJournalId) ?? journals[0] ?? null;
+
+  const switchJournal = useCallback((id: string) => journalsService.setActiveJournalId(id), []);
+
+  const createJournal = useCallback((input: JournalInput) => journalsService.createJournal(input), []);
+
+  const updateJournal = useCallback(
+    (id: string, updates: Partial<JournalInput>) => journalsService.updateJournal(id, updates),
+    []
+  );
+
+  /** Delete a journal, moving its entries into the default journal first. */
+  const deleteJournal = useCallback(async (id: string) => {
+    const entries = (await entryRepository.listLocalEntries()).filter(e => journalOf(e) === id);
+    await moveEntries(entries.map(e => e.id), DEFAULT_JOURNAL_ID);
+    await journalsService.deleteJournal(id);
+    return entries.length;
+  }, [moveEntries]);
+
+  return { journals, activeJournal, switchJournal, createJournal, updateJournal, deleteJournal };
+};
@@ -0,0 +1,110 @@
+import { useAuth } from '@/context/AuthContext';
+import { KEY_STATUS_EVENT, KeyStatus, keyVault } from '@/services/keyVault';
+import { REENCRYPTION_EVENT, reencryption } from '@/services/reencryption';
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+
+/**
+ * Passphrase protection state for the signed-in account, kept current by
+ * the key vault's events. Guests have no server copy, so they are always
+ * 'unprotected'. `status` is null until this device's state is known,
+ * and an 'unprotected' answer waits for the server to confirm it.
+ */
+export const useKeyVault = () => {
+  const { user, isReady } = useAuth();
+  const userId = user?.id ?? null;
+  const [status, setStatus] = useState<KeyStatus | null>(null);
+  const [reencrypting, setReencrypting] = useState(false);
+
+  useEffect(() => {
+    if (!isReady) return;
+    if (!userId) {
+      setStatus('unprotected');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus(null);
+    // Answer from the device first; the server check can take a while offline.
+    // Not for 'unprotected', which on a new device may just mean it hasn't
+    // heard of a passphrase set elsewhere yet.
+    keyVault.getLocalStatus(userId)
+      .then(local => {
+        if (cancelled) return;
+        if (local !== 'unprotected') setStatus(local);
+        return keyVault.getStatus(userId);
+      })
+      .then(checked => {
+        if (!cancelled && checked) setStatus(checked);
+      })
+      .catch(error => console.warn('Failed to read journal lock status:', error));
+    reencryption.getStatus(userId)
+      .then(s => {
+        if (!cancelled) setReencrypting(s.pending);
+      })
+      .catch(() => {});
+
+    const statusSub = DeviceEventEmitter.addListener(KEY_STATUS_EVENT, event => {
+      if (event.userId === userId) setStatus(event.status);
+    });
+    const reencryptionSub = DeviceEventEmitter.addListener(REENCRYPTION_EVENT, event => {
+      if (event.userId === userId) setReencrypting(event.pending);
+    });
+
+    return () => {
+      cancelled = true;
+      statusSub.remove();
+      reencryptionSub.remove();
+    };
+  }, [userId, isReady]);
+
+  const requireUser = useCallback(() => {
+    if (!userId) throw new Error('Sign in to protect your journal with a passphrase');
+    return userId;
+  }, [userId]);
+
+  const setUpPassphrase = useCallback(
+    (passphrase: string, useBiometrics: boolean) => keyVault.setUpPassphrase(requireUser(), passphrase, useBiometrics),
+    [requireUser]
+  );
+
+  const unlockWithPassphrase = useCallback(
+    (passphrase: string) => keyVault.unlockWithPassphrase(requireUser(), passphrase),
+    [requireUser]
+  );
+
+  const unlockWithBiometrics = useCallback(
+    () => keyVault.unlockWithBiometrics(requireUser()),
+    [requireUser]
+  );
+
+  const changePassphrase = useCallback(
+    (current: string, next: string) => keyVault.changePassphrase(requireUser(), current, next),
+    [requireUser]
+  );
+
+  const recoverWithKey = useCallback(
+    (recoveryKey: string, newPassphrase: string) => keyVault.recoverWithKey(requireUser(), recoveryKey, newPassphrase),
+    [requireUser]
+  );
+
+  const rotateKey = useCallback(
+    (passphrase: string) => keyVault.rotateKey(requireUser(), passphrase),
+    [requireUser]
+  );
+
+  const lock = useCallback(() => keyVault.lock(requireUser()), [requireUser]);
+
+  return {
+    userId,
+    status,
+    reencrypting,
+    setUpPassphrase,
+    unlockWithPassphrase,
+    unlockWithBiometrics,
+    changePassphrase,
+    recoverWithKey,
+    rotateKey,
+    lock,
+  };
+};
@@ -0,0 +1,33 @@
+import { RepositoryMode } from '@/services/repository';
+import { entryRepository, REPOSITORY_MODE_CHANGED_EVENT } from '@/services/repository/entryRepository';
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+
+/**
+ * Where entries are kept (see RepositoryMode), and a setter that switches
+ * backends. `setMode` rejects, leaving the mode as it was, when the switch
+ * cannot be made yet.
+ */
+export const useRepositoryMode = () => {
+  const [mode, setModeState] = useState<RepositoryMode | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    entryRepository.getMode().then(m => {
+      if (!cancelled) setModeState(m);
+    });
+    const sub = DeviceEventEmitter.addListener(REPOSITORY_MODE_CHANGED_EVENT, ({ mode: next }) => {
+      setModeState(next);
+    });
+
+    return () => {
+      cancelled = true;
+      sub.remove();
+    };
+  }, []);
+
+  const setMode = useCallback((next: RepositoryMode) => entryRepository.setMode(next), []);
+
+  return { mode, setMode };
+};
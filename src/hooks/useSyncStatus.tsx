@@ -0,0 +1,59 @@
+import { OutboxItem } from '@/services/outbox';
+import { SYNC_STATUS_EVENT, SyncPreferences, SyncStatus, syncEngine } from '@/services/syncEngine';
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+
+/**
+ * Live sync status and preferences from the background sync engine, and
+ * the writes the server rejected.
+ */
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [preferences, setPreferencesState] = useState<SyncPreferences | null>(null);
+  const [failedWrites, setFailedWrites] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([syncEngine.getStatus(), syncEngine.getPreferences()]).then(([s, p]) => {
+      if (cancelled) return;
+      setStatus(s);
+      setPreferencesState(p);
+    });
+    const sub = DeviceEventEmitter.addListener(SYNC_STATUS_EVENT, (next: SyncStatus) => {
+      setStatus(next);
+    });
+
+    return () => {
+      cancelled = true;
+      sub.remove();
+    };
+  }, []);
+
+  // Every pass may have added to or drained the failed list
+  useEffect(() => {
+    let cancelled = false;
+
+    syncEngine.getFailedWrites()
+      .then(items => {
+        if (!cancelled) setFailedWrites(items);
+      })
+      .catch(error => console.warn('Failed to load failed writes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status]);
+
+  const setPreferences = useCallback(async (updates: Partial<SyncPreferences>) => {
+    setPreferencesState(prev => (prev ? { ...prev, ...updates } : prev));
+    await syncEngine.setPreferences(updates);
+    setPreferencesState(await syncEngine.getPreferences());
+  }, []);
+
+  const syncNow = useCallback(() => syncEngine.sync({ manual: true }), []);
+  const retryFailedWrite = useCallback((itemId: string) => syncEngine.retryFailedWrite(itemId), []);
+  const discardFailedWrite = useCallback((itemId: string) => syncEngine.discardFailedWrite(itemId), []);
+
+  return { status, preferences, setPreferences, syncNow, failedWrites, retryFailedWrite, discardFailedWrite };
+};
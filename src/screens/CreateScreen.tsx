@@ -34,7 +34,7 @@ export interface EntryData {
 
 export default function CreateScreen() {
   const router = useRouter();
-  const { refreshEntries, updateEntry } = useJournal();
+  const { createEntry, updateEntry } = useJournal();
   const { user } = useAuth();
 
   // Recording
@@ -324,7 +324,7 @@ export default function CreateScreen() {
 
         console.log('Creating entry with dateStr:', dateStr, 'createdAt:', createdAtStr);
 
-        await (await import('@/services/entries')).entriesService.createEntry({
+        await createEntry({
           title: finalTitle,
           body: content,
           mood: entryData.mood,
@@ -339,7 +339,6 @@ export default function CreateScreen() {
         });
       }
 
-      refreshEntries().catch(() => { });
       editorSheetRef.current?.close();
 
       requestAnimationFrame(() => {
@@ -366,8 +365,8 @@ export default function CreateScreen() {
       setEditingEntry(null);
       
     } catch (e: any) {
+      // JournalContext has already rolled back and told the user
       console.error('Save error:', e);
-      Alert.alert('Save Error', e?.message ?? 'Could not save entry.');
     } finally {
       setIsSaving(false);
     }
@@ -1,18 +1,26 @@
 // app/day-detail.tsx - Based on your working version with fixes
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { FlatList, Image, StyleSheet, Text, TouchableOpacity, View, Modal, Dimensions, Alert, ActivityIndicator } from 'react-native';
+import { FlatList, StyleSheet, Text, TouchableOpacity, View, Modal, Dimensions, Alert, ActivityIndicator } from 'react-native';
 import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { Stack } from 'expo-router';
 
 import { theme } from '../constants/theme';
-import { Entry } from '../types/journal';
+import BulkActionBar from '../components/BulkActionBar';
+import { Entry, Journal } from '../types/journal';
+import { ConflictResolution } from '../services/conflicts';
+import { EntryRevision, RevisionService } from '../services/revisions';
 import { formatDisplayDate, formatTime } from '../utils/format';
+import CachedImage from '../components/CachedImage';
 import EntryDetailSheet, { EntryDetailSheetRef } from '../components/EntryDetailSheet';
 import EntryEditor, { EntryEditorRef } from '../components/EntryEditor';
+import JournalPicker from '../components/JournalPicker';
 import { useJournal } from '../context/JournalContext';
+import { useEntrySelection } from '../hooks/useEntrySelection';
+import { useJournals } from '../hooks/useJournals';
+import { journalOf } from '../services/repository';
 import { EntryData } from './CreateScreen';
 import { entriesService } from '../services/entries'; // ✅ Add this import
 import PeriodAnalyzer from '../services/periodAnalyzer'; // ✅ Add this import
@@ -27,7 +35,8 @@ const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 export default function DayDetailScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { updateEntry, deleteEntry } = useJournal(); // ✅ Add deleteEntry back
+  const { updateEntry, deleteEntry, resolveConflict, moveEntries } = useJournal(); // ✅ Add deleteEntry back
+  const { journals } = useJournals();
 
   // Replace the entries parsing with this:
   const entries: Entry[] = useMemo(() => {
@@ -45,6 +54,8 @@ export default function DayDetailScreen() {
   const [isDeleting, setIsDeleting] = useState(false); // ✅ Add deletion loading
   const [viewingPhoto, setViewingPhoto] = useState<string | null>(null); // ✅ Add photo viewer
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [movingEntry, setMovingEntry] = useState<Entry | null>(null);
+  const selection = useEntrySelection();
 
 
   const detailSheetRef = useRef<EntryDetailSheetRef>(null);
@@ -241,7 +252,6 @@ export default function DayDetailScreen() {
               }
             } catch (error) {
               console.error('Failed to delete entry:', error);
-              Alert.alert('Error', 'Failed to delete entry. Please try again.');
             } finally {
               setIsDeleting(false);
             }
@@ -251,6 +261,59 @@ export default function DayDetailScreen() {
     );
   }, [deleteEntry, entries.length, router, closeDetails]);
 
+  const handleResolveConflict = useCallback(async (entry: Entry, resolution: ConflictResolution) => {
+    try {
+      await resolveConflict(entry.id, resolution);
+      closeDetails();
+      router.back();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      Alert.alert('Error', 'Failed to resolve the conflict. Please try again.');
+    }
+  }, [resolveConflict, closeDetails, router]);
+
+  // Restoring is itself an edit, so the version it replaces stays in history
+  const handleRestoreRevision = useCallback(async (entry: Entry, revision: EntryRevision) => {
+    const updates = RevisionService.restoreUpdates(revision);
+    try {
+      await updateEntry(entry.id, updates);
+      setSelectedEntry({ ...entry, ...updates });
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+    }
+  }, [updateEntry]);
+
+  // A moved entry leaves this journal's view of the day
+  const handleMoveTo = useCallback(async (journal: Journal) => {
+    const entry = movingEntry;
+    setMovingEntry(null);
+    if (!entry) return;
+
+    try {
+      await moveEntries([entry.id], journal.id);
+      closeDetails();
+      router.back();
+    } catch (error) {
+      console.error('Failed to move entry:', error);
+    }
+  }, [movingEntry, moveEntries, closeDetails, router]);
+
+  const handleEntryPress = useCallback((entry: Entry) => {
+    if (selection.isSelecting) selection.toggle([entry.id]);
+    else presentDetails(entry);
+  }, [selection, presentDetails]);
+
+  const handleEntryLongPress = useCallback((entry: Entry) => {
+    if (selection.isSelecting) selection.toggle([entry.id]);
+    else selection.startSelecting([entry.id]);
+  }, [selection]);
+
+  // This screen shows a snapshot of the day, so go back to the refreshed timeline
+  const handleBulkDone = useCallback(() => {
+    selection.clear();
+    router.back();
+  }, [selection, router]);
+
   const handleSaveEdit = useCallback(async () => {
     if (!editingEntry || !entryData) return;
 
@@ -302,6 +365,7 @@ export default function DayDetailScreen() {
   const renderEntryItem = ({ item: entry, index }: { item: Entry; index: number }) => {
     const firstPhoto = entry.photoUris && entry.photoUris.length > 0 ? entry.photoUris[0] : null;
     const preview = entry.body?.substring(0, 140) + '...' || 'No content available';
+    const selected = selection.selectedIds.has(entry.id);
 
     return (
       <View style={styles.entryContainer}>
@@ -311,12 +375,20 @@ export default function DayDetailScreen() {
         </View>
 
         <TouchableOpacity
-          style={styles.entryCard}
-          onPress={() => presentDetails(entry)}
+          style={[styles.entryCard, selected && styles.entryCardSelected]}
+          onPress={() => handleEntryPress(entry)}
+          onLongPress={() => handleEntryLongPress(entry)}
           activeOpacity={0.7}
         >
           <View style={styles.entryHeader}>
             <View style={styles.timeContainer}>
+              {selection.isSelecting && (
+                <Ionicons
+                  name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={18}
+                  color={selected ? theme.colors.primary : theme.colors.textSecondary}
+                />
+              )}
               <Ionicons name="time-outline" size={14} color={theme.colors.textSecondary} />
               <Text style={styles.entryTime}>{formatTime(entry.createdAt)}</Text>
             </View>
@@ -334,7 +406,7 @@ export default function DayDetailScreen() {
                     }}
                     activeOpacity={0.8}
                   >
-                    <Image source={{ uri: firstPhoto }} style={styles.entryImage} />
+                    <CachedImage uri={firstPhoto} style={styles.entryImage} />
                   </TouchableOpacity>
                   {entry.photoUris && entry.photoUris.length > 1 && (
                     <View style={styles.photoCountBadge}>
@@ -389,7 +461,13 @@ export default function DayDetailScreen() {
             <Text style={styles.headerTitle}>{formatDateWithDayOfWeek(date)}</Text>
           </View>
 
-          <View style={styles.headerSpacer} />
+          <TouchableOpacity
+            onPress={() => (selection.isSelecting ? selection.clear() : selection.startSelecting())}
+            style={styles.selectButton}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Text style={styles.selectButtonText}>{selection.isSelecting ? 'Cancel' : 'Select'}</Text>
+          </TouchableOpacity>
         </View>
 
         {/* ✅ Add loading overlay for deletion */}
@@ -412,6 +490,13 @@ export default function DayDetailScreen() {
           />
         </View>
 
+        {selection.isSelecting && (
+          <BulkActionBar
+            selected={entries.filter(e => selection.selectedIds.has(e.id))}
+            onDone={handleBulkDone}
+          />
+        )}
+
         {/* ✅ Add delete prop */}
         <EntryDetailSheet
           ref={detailSheetRef}
@@ -420,6 +505,17 @@ export default function DayDetailScreen() {
           onEdit={handleEdit}
           onDelete={handleDelete}
           onPhotoPress={handlePhotoPress} // Add this line
+          onResolveConflict={handleResolveConflict}
+          onRestoreRevision={handleRestoreRevision}
+          onMove={journals.length > 1 ? setMovingEntry : undefined}
+        />
+
+        <JournalPicker
+          visible={!!movingEntry}
+          journals={journals}
+          selectedId={movingEntry ? journalOf(movingEntry) : undefined}
+          onSelect={handleMoveTo}
+          onClose={() => setMovingEntry(null)}
         />
 
         {entryData && (
@@ -464,8 +560,8 @@ export default function DayDetailScreen() {
                 onPress={closePhotoViewer}
                 activeOpacity={0.9}
               >
-                <Image
-                  source={{ uri: viewingPhoto }}
+                <CachedImage
+                  uri={viewingPhoto}
                   style={styles.photoViewerImage}
                   resizeMode="contain"
                 />
@@ -510,8 +606,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: 18,
   },
-  headerSpacer: {
-    width: 40,
+  selectButton: {
+    minWidth: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-end',
+  },
+  selectButtonText: {
+    ...theme.typography.body,
+    color: theme.colors.primary,
+    fontWeight: '500',
   },
   
   // ✅ Add loading overlay styles
@@ -586,6 +690,11 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 2,
   },
+  entryCardSelected: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '10',
+  },
   entryHeader: {
     flexDirection: 'row',
     alignItems: 'center',
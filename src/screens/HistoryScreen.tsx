@@ -2,22 +2,29 @@
 
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Alert, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View, Image, Modal } from 'react-native';
+import { ActivityIndicator, Alert, NativeScrollEvent, NativeSyntheticEvent, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View, Image, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import EmptyState from '../components/EmptyState';
 import { theme } from '../constants/theme';
 import { useJournal } from '../context/JournalContext';
+import { useEntrySelection } from '../hooks/useEntrySelection';
+import { useJournals } from '../hooks/useJournals';
 import { useJournalStats } from '../hooks/useJournalStats';
-import { entriesService } from '../services/entries';
-import { Entry, GroupedEntries } from '../types/journal';
+import { useCachedPhoto } from '../hooks/useCachedPhoto';
+import { groupByDay, journalOf } from '../services/repository';
+import { Entry, GroupedEntries, Journal } from '../types/journal';
+import { ConflictResolution } from '../services/conflicts';
+import { EntryRevision, RevisionService } from '../services/revisions';
 import { formatDisplayDate } from '../utils/format';
 import PeriodAnalyzer from '../services/periodAnalyzer';
 import { supabase } from '@/services/supabase';
 import analytics from '@/utils/analytics';
 
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
+import BulkActionBar from '../components/BulkActionBar';
 import EntryDetailSheet, { EntryDetailSheetRef } from '../components/EntryDetailSheet';
+import JournalPicker from '../components/JournalPicker';
 
 type TimelineFilter = 'week' | 'month' | 'all';
 type SortOrder = 'latest' | 'earliest';
@@ -27,6 +34,9 @@ const STORAGE_KEYS = {
   SORT_ORDER: 'sort_order',
 };
 
+// How close (in px) to the oldest end of the timeline before fetching more days
+const LOAD_MORE_THRESHOLD = 600;
+
 const SafeImage = ({ uri, style, fallbackEmoji = '📝' }: { 
   uri: string; 
   style: any; 
@@ -34,6 +44,7 @@ const SafeImage = ({ uri, style, fallbackEmoji = '📝' }: {
 }) => {
   const [imageError, setImageError] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const localUri = useCachedPhoto(uri);
 
   useEffect(() => {
     setImageError(false);
@@ -48,9 +59,13 @@ const SafeImage = ({ uri, style, fallbackEmoji = '📝' }: {
     );
   }
 
+  if (!localUri) {
+    return <View style={[style, { backgroundColor: theme.colors.primary + '15' }]} />;
+  }
+
   return (
     <Image
-      source={{ uri }}
+      source={{ uri: localUri }}
       style={style}
       onError={(error) => {
         console.log('Failed to load image:', uri);
@@ -68,8 +83,13 @@ const SafeImage = ({ uri, style, fallbackEmoji = '📝' }: {
 
 export default function HistoryScreen() {
   const router = useRouter();
-  const { entries, refreshEntries, deleteEntry } = useJournal();
+  const {
+    entries, dayTitles: liveTitles, hasMore, isLoadingMore,
+    refreshEntries, loadMore, updateEntry, deleteEntry, resolveConflict, moveEntries,
+  } = useJournal();
   const stats = useJournalStats(); // ✅ Added stats hook
+  const { journals, activeJournal } = useJournals();
+  const journalName = activeJournal?.name ?? 'Journal';
 
   const [groupedEntries, setGroupedEntries] = useState<GroupedEntries>({});
   const [refreshing, setRefreshing] = useState(false);
@@ -86,7 +106,9 @@ export default function HistoryScreen() {
   const [titlesLoaded, setTitlesLoaded] = useState(false);
 
   const [selectedEntry, setSelectedEntry] = useState<Entry | null>(null);
+  const [movingEntry, setMovingEntry] = useState<Entry | null>(null);
   const [processingTap, setProcessingTap] = useState(false); // ✅ Prevent double-tap on timeline items
+  const selection = useEntrySelection(); // multi-select works on whole days
   const sheetRef = useRef<EntryDetailSheetRef>(null);
 
   const presentDetails = useCallback((entry: Entry) => {
@@ -152,7 +174,7 @@ export default function HistoryScreen() {
   }, [timelineFilter, sortOrder]); // Track when these change
 
   const loadGroupedEntries = async () => {
-    const grouped = await entriesService.groupEntriesByDay();
+    const grouped = groupByDay(entries);
     setGroupedEntries(grouped);
     // ✅ Only reset titles if entries actually changed, not on every refresh
     const hasChanged = JSON.stringify(Object.keys(grouped)) !== JSON.stringify(Object.keys(groupedEntries));
@@ -169,6 +191,17 @@ export default function HistoryScreen() {
     }
   }, [groupedEntries, titlesLoaded]);
 
+  // Titles regenerated on another device arrive through the journal context
+  useEffect(() => {
+    setDayTitles(prev => {
+      const updates = Object.entries(liveTitles).filter(
+        ([date, title]) => (groupedEntries[date]?.length ?? 0) > 1 && prev[date] !== title
+      );
+      // Same object when nothing changed, so there is no re-render
+      return updates.length > 0 ? { ...prev, ...Object.fromEntries(updates) } : prev;
+    });
+  }, [liveTitles, groupedEntries]);
+
   const loadAllDayTitles = async () => {
     try {
       console.log('🔍 Loading all day titles from database...');
@@ -258,6 +291,20 @@ export default function HistoryScreen() {
     setRefreshing(false);
   }, [refreshEntries]);
 
+  // Older days live at the bottom for "latest first" and at the top for "earliest first"
+  const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!hasMore || isLoadingMore) return;
+
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    const distanceToOldest = sortOrder === 'latest'
+      ? contentSize.height - (contentOffset.y + layoutMeasurement.height)
+      : contentOffset.y;
+
+    if (distanceToOldest < LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  }, [hasMore, isLoadingMore, sortOrder, loadMore]);
+
   const handleEntryPress = (entry: Entry) => {
     analytics.logEntryOpened(entry.id, entry.date);
     presentDetails(entry);
@@ -270,7 +317,12 @@ export default function HistoryScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          await deleteEntry(entry.id);
+          try {
+            await deleteEntry(entry.id);
+          } catch (error) {
+            console.error('Failed to delete entry:', error);
+            return;
+          }
           if (selectedEntry?.id === entry.id) {
             closeDetails();
             setSelectedEntry(null);
@@ -280,6 +332,41 @@ export default function HistoryScreen() {
     ]);
   };
 
+  const handleResolveConflict = async (entry: Entry, resolution: ConflictResolution) => {
+    try {
+      await resolveConflict(entry.id, resolution);
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      Alert.alert('Error', 'Failed to resolve the conflict. Please try again.');
+    }
+  };
+
+  // Restoring is itself an edit, so the version it replaces stays in history
+  const handleRestoreRevision = async (entry: Entry, revision: EntryRevision) => {
+    const updates = RevisionService.restoreUpdates(revision);
+    try {
+      await updateEntry(entry.id, updates);
+      setSelectedEntry({ ...entry, ...updates });
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+    }
+  };
+
+  const handleMoveTo = async (journal: Journal) => {
+    const entry = movingEntry;
+    setMovingEntry(null);
+    if (!entry) return;
+
+    try {
+      await moveEntries([entry.id], journal.id);
+    } catch (error) {
+      console.error('Failed to move entry:', error);
+      return;
+    }
+    closeDetails();
+    setSelectedEntry(null);
+  };
+
   const getFilteredEntries = () => {
     const now = new Date();
     
@@ -422,6 +509,10 @@ export default function HistoryScreen() {
 
   // ✅ Fix double-tap issue for timeline items
   const handleTimelineDayPress = useCallback((date: string, dayEntries: Entry[]) => {
+    if (selection.isSelecting) {
+      selection.toggle(dayEntries.map(e => e.id));
+      return;
+    }
     if (processingTap) return;
     
     setProcessingTap(true);
@@ -431,7 +522,13 @@ export default function HistoryScreen() {
     });
     
     setTimeout(() => setProcessingTap(false), 1000);
-  }, [router, processingTap]);
+  }, [router, processingTap, selection]);
+
+  const handleTimelineDayLongPress = useCallback((dayEntries: Entry[]) => {
+    const ids = dayEntries.map(e => e.id);
+    if (selection.isSelecting) selection.toggle(ids);
+    else selection.startSelecting(ids);
+  }, [selection]);
 
   const handleTimelineFilterChange = (filter: TimelineFilter) => {
     analytics.logTrack('timeline_filter_changed', {
@@ -477,6 +574,8 @@ export default function HistoryScreen() {
   const days = Object.keys(filteredEntries).sort((a, b) => 
     sortOrder === 'latest' ? b.localeCompare(a) : a.localeCompare(b)
   );
+  const selectedEntries = entries.filter(e => selection.selectedIds.has(e.id));
+  const visibleIds = Object.values(filteredEntries).flat().map(e => e.id);
 
   console.log('🔍 HistoryScreen Debug:', {
     totalEntries: entries.length,
@@ -492,7 +591,16 @@ export default function HistoryScreen() {
       <View style={styles.container}>
         <View style={styles.header}>
           <View style={styles.headerTop}>
-            <Text style={styles.headerTitle}>Journal</Text>
+            <View style={styles.headerTitleRow}>
+              {activeJournal && (
+                <Ionicons
+                  name={activeJournal.icon as keyof typeof Ionicons.glyphMap}
+                  size={24}
+                  color={activeJournal.color}
+                />
+              )}
+              <Text style={styles.headerTitle} numberOfLines={1}>{journalName}</Text>
+            </View>
             {/* ✅ Added streak display */}
             <View style={styles.streakContainer}>
               <Text style={styles.streakEmoji}></Text>
@@ -504,7 +612,7 @@ export default function HistoryScreen() {
         <EmptyState
           icon="book-outline"
           title="No entries yet"
-          message="Start journaling to see your timeline"
+          message={journals.length > 1 ? `Nothing in ${journalName} yet` : 'Start journaling to see your timeline'}
           actionLabel="Create Entry"
           onAction={() => router.push('/')}
         />
@@ -517,7 +625,16 @@ export default function HistoryScreen() {
       <View style={styles.container}>
         <View style={styles.header}>
           <View style={styles.headerTop}>
-            <Text style={styles.headerTitle}>Journal</Text>
+            <View style={styles.headerTitleRow}>
+              {activeJournal && (
+                <Ionicons
+                  name={activeJournal.icon as keyof typeof Ionicons.glyphMap}
+                  size={24}
+                  color={activeJournal.color}
+                />
+              )}
+              <Text style={styles.headerTitle} numberOfLines={1}>{journalName}</Text>
+            </View>
             {/* ✅ Added streak display */}
             <View style={styles.streakContainer}>
               <Text style={styles.streakEmoji}>✍️🔥</Text>
@@ -528,41 +645,62 @@ export default function HistoryScreen() {
           <Text style={styles.headerSubtitle}>Your journal entries in chronological order</Text>
         </View>
 
-        <View style={styles.filtersContainer}>
-          <View style={styles.timeFilters}>
-            {(['week', 'month', 'all'] as TimelineFilter[]).map((filter) => (
-              <TouchableOpacity
-                key={filter}
-                style={[
-                  styles.filterButton,
-                  timelineFilter === filter && styles.filterButtonActive
-                ]}
-                onPress={() => handleTimelineFilterChange(filter)}
-              >
-                <Text style={[
-                  styles.filterButtonText,
-                  timelineFilter === filter && styles.filterButtonTextActive
-                ]}>
-                  {filter === 'all' ? 'All Time' : filter.charAt(0).toUpperCase() + filter.slice(1)}
-                </Text>
+        {selection.isSelecting ? (
+          <View style={styles.filtersContainer}>
+            <Text style={styles.selectionCount}>
+              {selectedEntries.length} {selectedEntries.length === 1 ? 'entry' : 'entries'} selected
+            </Text>
+            <View style={styles.selectionActions}>
+              <TouchableOpacity style={styles.sortButton} onPress={() => selection.startSelecting(visibleIds)}>
+                <Text style={styles.sortButtonText}>Select All</Text>
               </TouchableOpacity>
-            ))}
+              <TouchableOpacity style={styles.sortButton} onPress={selection.clear}>
+                <Text style={styles.sortButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
           </View>
+        ) : (
+          <View style={styles.filtersContainer}>
+            <View style={styles.timeFilters}>
+              {(['week', 'month', 'all'] as TimelineFilter[]).map((filter) => (
+                <TouchableOpacity
+                  key={filter}
+                  style={[
+                    styles.filterButton,
+                    timelineFilter === filter && styles.filterButtonActive
+                  ]}
+                  onPress={() => handleTimelineFilterChange(filter)}
+                >
+                  <Text style={[
+                    styles.filterButtonText,
+                    timelineFilter === filter && styles.filterButtonTextActive
+                  ]}>
+                    {filter === 'all' ? 'All Time' : filter.charAt(0).toUpperCase() + filter.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
 
-          <TouchableOpacity
-            style={styles.sortButton}
-            onPress={handleSortOrderChange}
-          >
-            <Ionicons 
-              name="hourglass-outline" 
-              size={16} 
-              color={theme.colors.primary} 
-            />
-            <Text style={styles.sortButtonText}>
-              {sortOrder === 'latest' ? 'Latest First' : 'Earliest First'}
-            </Text>
-          </TouchableOpacity>
-        </View>
+            <TouchableOpacity
+              style={styles.sortButton}
+              onPress={handleSortOrderChange}
+            >
+              <Ionicons 
+                name="hourglass-outline" 
+                size={16} 
+                color={theme.colors.primary} 
+              />
+              <Text style={styles.sortButtonText}>
+                {sortOrder === 'latest' ? 'Latest First' : 'Earliest First'}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.sortButton} onPress={() => selection.startSelecting()}>
+              <Ionicons name="checkmark-circle-outline" size={16} color={theme.colors.primary} />
+              <Text style={styles.sortButtonText}>Select</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         <ScrollView
           style={styles.scrollView}
@@ -574,8 +712,16 @@ export default function HistoryScreen() {
             />
           }
           contentContainerStyle={styles.timelineScrollContent}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
+          // Keep the visible day in place when older days are prepended
+          maintainVisibleContentPosition={sortOrder === 'earliest' ? { minIndexForVisible: 1 } : undefined}
         >
           <View style={styles.timelineLine} />
+
+          {sortOrder === 'earliest' && isLoadingMore && (
+            <ActivityIndicator style={styles.loadMoreIndicator} color={theme.colors.primary} />
+          )}
           
           {days.map((date, index) => {
             const dayEntries = filteredEntries[date];
@@ -585,20 +731,30 @@ export default function HistoryScreen() {
               : `${dayEntries.length} entries`);
             
             const firstPhoto = getDayFirstPhoto(dayEntries);
+            const daySelected = selection.isSelected(dayEntries.map(e => e.id));
 
             return (
               <View key={date} style={styles.timelineItem}>
                 <View style={styles.timelineDot} />
                 
                 <TouchableOpacity
-                  style={styles.timelineCard}
+                  style={[styles.timelineCard, daySelected && styles.timelineCardSelected]}
                   onPress={() => handleTimelineDayPress(date, dayEntries)}
+                  onLongPress={() => handleTimelineDayLongPress(dayEntries)}
                   activeOpacity={0.7}
                   disabled={processingTap} // ✅ Prevent double-tap
                 >
                   <View style={styles.timelineHeader}>
                     <View style={styles.dateContainer}>
-                      <Ionicons name="calendar-outline" size={16} color={theme.colors.textSecondary} />
+                      {selection.isSelecting ? (
+                        <Ionicons
+                          name={daySelected ? 'checkmark-circle' : 'ellipse-outline'}
+                          size={18}
+                          color={daySelected ? theme.colors.primary : theme.colors.textSecondary}
+                        />
+                      ) : (
+                        <Ionicons name="calendar-outline" size={16} color={theme.colors.textSecondary} />
+                      )}
                       <Text style={styles.timelineDate}>{formatDisplayDate(date)}</Text>
                     </View>
                     {dayEntries[0].locationData && (
@@ -657,9 +813,32 @@ export default function HistoryScreen() {
               </View>
             );
           })}
+
+          {sortOrder === 'latest' && isLoadingMore && (
+            <ActivityIndicator style={styles.loadMoreIndicator} color={theme.colors.primary} />
+          )}
         </ScrollView>
 
-        <EntryDetailSheet ref={sheetRef} entry={selectedEntry} onDismiss={() => setSelectedEntry(null)} />
+        {selection.isSelecting && (
+          <BulkActionBar selected={selectedEntries} onDone={selection.clear} />
+        )}
+
+        <EntryDetailSheet
+          ref={sheetRef}
+          entry={selectedEntry}
+          onDismiss={() => setSelectedEntry(null)}
+          onResolveConflict={handleResolveConflict}
+          onRestoreRevision={handleRestoreRevision}
+          onMove={journals.length > 1 ? setMovingEntry : undefined}
+        />
+
+        <JournalPicker
+          visible={!!movingEntry}
+          journals={journals}
+          selectedId={movingEntry ? journalOf(movingEntry) : undefined}
+          onSelect={handleMoveTo}
+          onClose={() => setMovingEntry(null)}
+        />
 
         <Modal
           visible={showWeekSelector}
@@ -765,6 +944,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: theme.spacing.xs,
   },
+  headerTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    flexShrink: 1,
+  },
   headerTitle: {
     ...theme.typography.h1,
     color: theme.colors.text,
@@ -842,7 +1027,18 @@ const styles = StyleSheet.create({
     color: theme.colors.primary,
     fontWeight: '500',
   },
+  selectionCount: {
+    ...theme.typography.h4,
+    color: theme.colors.text,
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
 
+  loadMoreIndicator: {
+    paddingVertical: theme.spacing.lg,
+  },
   timelineScrollContent: {
     paddingHorizontal: theme.spacing.lg,
     paddingBottom: theme.spacing.xl,
@@ -885,6 +1081,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: theme.colors.primary + '15',
   },
+  timelineCardSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '10',
+  },
   timelineHeader: {
     marginBottom: theme.spacing.md,
   },
@@ -0,0 +1,193 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme } from '../constants/theme';
+import { useKeyVault } from '../hooks/useKeyVault';
+import { MIN_PASSPHRASE_LENGTH } from '../services/keyVault';
+
+interface JournalRecoveryScreenProps {
+  // Both default to navigating, for when this is shown as a route
+  onDone?: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Sets a new journal passphrase using the recovery key from setup. The key
+ * unwraps the data key on this device; only the copy re-wrapped under the
+ * new passphrase is sent to the server.
+ */
+export default function JournalRecoveryScreen({ onDone, onCancel }: JournalRecoveryScreenProps) {
+  const router = useRouter();
+  const { userId, recoverWithKey } = useKeyVault();
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [recovering, setRecovering] = useState(false);
+
+  const done = onDone ?? (() => router.replace('/(tabs)'));
+  const cancel = onCancel ?? (() => (router.canGoBack() ? router.back() : router.replace('/(tabs)')));
+
+  const handleRecover = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters for your new passphrase.`);
+      return;
+    }
+    if (passphrase !== confirm) {
+      setError('The passphrases do not match.');
+      return;
+    }
+
+    setRecovering(true);
+    setError(null);
+    try {
+      await recoverWithKey(recoveryKey, passphrase);
+      done();
+    } catch (e: any) {
+      console.error('Journal recovery failed:', e);
+      setError(
+        e?.message === 'Incorrect recovery key' ? 'That recovery key is not right.'
+          : e?.message === 'This journal has no recovery key' ? 'No recovery key was created for this journal.'
+            : 'Could not recover your journal. Please try again when you are online.'
+      );
+    } finally {
+      setRecovering(false);
+    }
+  };
+
+  const canSubmit = !!userId && !!recoveryKey.trim() && !!passphrase && !!confirm && !recovering;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Ionicons name="document-lock-outline" size={48} color={theme.colors.primary} />
+          <Text style={styles.title}>Recover Your Journal</Text>
+          <Text style={styles.subtitle}>
+            {userId
+              ? 'Enter the recovery key you saved when you set your passphrase, then choose a new passphrase.'
+              : 'Sign in to the account whose journal you want to recover.'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, styles.keyInput]}
+            value={recoveryKey}
+            onChangeText={setRecoveryKey}
+            placeholder="XXXX-XXXX-XXXX-…"
+            placeholderTextColor={theme.colors.muted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={!!userId && !recovering}
+          />
+          <TextInput
+            style={styles.input}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            placeholderTextColor={theme.colors.muted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!!userId && !recovering}
+          />
+          <TextInput
+            style={styles.input}
+            value={confirm}
+            onChangeText={setConfirm}
+            placeholder="Confirm new passphrase"
+            placeholderTextColor={theme.colors.muted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="go"
+            onSubmitEditing={() => canSubmit && handleRecover()}
+            editable={!!userId && !recovering}
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.button, !canSubmit && styles.buttonDisabled]}
+            onPress={handleRecover}
+            disabled={!canSubmit}
+          >
+            {recovering ? <ActivityIndicator color="#FFF" /> : <Text style={styles.buttonText}>Recover Journal</Text>}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.link} onPress={cancel} disabled={recovering}>
+            <Text style={styles.secondaryText}>Cancel</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  title: {
+    ...theme.typography.h2,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  subtitle: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  input: {
+    ...theme.typography.body,
+    width: '100%',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surface,
+  },
+  keyInput: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    letterSpacing: 1,
+  },
+  error: {
+    ...theme.typography.caption,
+    color: theme.colors.danger,
+    textAlign: 'center',
+  },
+  button: {
+    width: '100%',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    ...theme.typography.button,
+    color: '#FFF',
+  },
+  link: {
+    paddingVertical: theme.spacing.sm,
+  },
+  secondaryText: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+  },
+});
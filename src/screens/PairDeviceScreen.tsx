@@ -0,0 +1,225 @@
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { theme } from '../constants/theme';
+import { useDevicePairing } from '../hooks/useDevicePairing';
+import { PAIRING_LINK_PREFIX } from '../services/devicePairing';
+
+interface PairDeviceScreenProps {
+  onCancel: () => void;
+}
+
+/**
+ * Receives the data key from another of the user's devices: scan the QR
+ * code it shows under Settings › Encryption, or type the code beneath it.
+ */
+export default function PairDeviceScreen({ onCancel }: PairDeviceScreenProps) {
+  const { waitingForKey, answerError, enterCode, cancelAnswer } = useDevicePairing();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [code, setCode] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (value: string) => {
+    setScanning(false);
+    setSubmitting(true);
+    try {
+      await enterCode(value);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startScanning = async () => {
+    const granted = permission?.granted || (await requestPermission()).granted;
+    if (granted) setScanning(true);
+  };
+
+  const busy = submitting || waitingForKey;
+
+  if (scanning) {
+    return (
+      <View style={styles.scanner}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={({ data }) => {
+            if (data.startsWith(PAIRING_LINK_PREFIX) && !submitting) submit(data);
+          }}
+        />
+        <SafeAreaView style={styles.scannerOverlay}>
+          <Text style={styles.scannerText}>Point the camera at the code on your other device</Text>
+          <TouchableOpacity style={styles.link} onPress={() => setScanning(false)}>
+            <Text style={styles.scannerText}>Cancel</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Ionicons name="phone-portrait-outline" size={48} color={theme.colors.primary} />
+          <Text style={styles.title}>Pair with Another Device</Text>
+          <Text style={styles.subtitle}>
+            On a device where your journal is unlocked, open Settings › Encryption and tap Pair a New Device.
+          </Text>
+
+          {waitingForKey ? (
+            <>
+              <ActivityIndicator color={theme.colors.primary} />
+              <Text style={styles.subtitle}>Waiting for your other device…</Text>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity style={styles.button} onPress={startScanning} disabled={busy}>
+                <Text style={styles.buttonText}>Scan QR Code</Text>
+              </TouchableOpacity>
+              {permission && !permission.granted && !permission.canAskAgain && (
+                <Text style={styles.error}>Allow camera access in Settings to scan, or type the code instead.</Text>
+              )}
+
+              <Text style={styles.divider}>or enter the code</Text>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                value={code}
+                onChangeText={setCode}
+                placeholder="XXXX-XXXX"
+                placeholderTextColor={theme.colors.muted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                returnKeyType="go"
+                onSubmitEditing={() => code.trim() && submit(code)}
+                editable={!busy}
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, (!code.trim() || busy) && styles.buttonDisabled]}
+                onPress={() => submit(code)}
+                disabled={!code.trim() || busy}
+              >
+                {submitting ? <ActivityIndicator color={theme.colors.primary} /> : <Text style={styles.secondaryButtonText}>Pair</Text>}
+              </TouchableOpacity>
+            </>
+          )}
+          {answerError && <Text style={styles.error}>{answerError}</Text>}
+
+          <TouchableOpacity
+            style={styles.link}
+            onPress={() => {
+              cancelAnswer();
+              onCancel();
+            }}
+          >
+            <Text style={styles.secondaryText}>Cancel</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  title: {
+    ...theme.typography.h2,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  subtitle: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  divider: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.md,
+  },
+  input: {
+    ...theme.typography.body,
+    width: '100%',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surface,
+  },
+  codeInput: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    letterSpacing: 2,
+    textAlign: 'center',
+  },
+  error: {
+    ...theme.typography.caption,
+    color: theme.colors.danger,
+    textAlign: 'center',
+  },
+  button: {
+    width: '100%',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    ...theme.typography.button,
+    color: '#FFF',
+  },
+  secondaryButton: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    borderRadius: theme.radius.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    ...theme.typography.button,
+    color: theme.colors.primary,
+  },
+  link: {
+    paddingVertical: theme.spacing.sm,
+  },
+  secondaryText: {
+    ...theme.typography.body,
+    color: theme.colors.textSecondary,
+  },
+  scanner: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  scannerOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    padding: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  scannerText: {
+    ...theme.typography.body,
+    color: '#FFF',
+    textAlign: 'center',
+  },
+});
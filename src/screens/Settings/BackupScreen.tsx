@@ -1,14 +1,99 @@
+import { useAllEntries } from '@/hooks/useAllEntries';
+import { useRepositoryMode } from '@/hooks/useRepositoryMode';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { OutboxItem } from '@/services/outbox';
+import { SyncState } from '@/services/syncEngine';
+import { formatRelativeTime } from '@/utils/format';
 import { Ionicons } from '@expo/vector-icons';
 import { default as React, useState } from 'react';
 import {
-    ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View
+    ActivityIndicator, Alert, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+const STATUS_DISPLAY: Record<SyncState, { icon: keyof typeof Ionicons.glyphMap; color: string; title: string }> = {
+  idle: { icon: 'cloud-done-outline', color: '#34C759', title: 'Up to Date' },
+  syncing: { icon: 'sync-outline', color: '#007AFF', title: 'Syncing…' },
+  offline: { icon: 'cloud-offline-outline', color: '#8E8E93', title: 'Offline' },
+  'waiting-wifi': { icon: 'wifi-outline', color: '#FF9500', title: 'Waiting for Wi-Fi' },
+  error: { icon: 'alert-circle-outline', color: '#FF3B30', title: 'Sync Problem' },
+  disabled: { icon: 'cloud-outline', color: '#8E8E93', title: 'Cloud Sync Disabled' },
+};
+
+function describeFailedWrite({ op }: OutboxItem): string {
+  switch (op.kind) {
+    case 'create':
+      return `New entry “${op.entry.title || 'Untitled'}”`;
+    case 'update':
+      return op.updates.title ? `Edit to “${op.updates.title}”` : 'Edit to an entry';
+    case 'delete':
+      return 'Moving an entry to the trash';
+    case 'restore':
+      return 'Restoring an entry from the trash';
+    case 'purge':
+      return 'Deleting an entry permanently';
+  }
+}
+
 export const BackupScreen: React.FC = () => {
-  const [cloudSync, setCloudSync] = useState(false);
-  const [autoBackup, setAutoBackup] = useState(true);
-  const [wifiOnly, setWifiOnly] = useState(true);
+  const {
+    status, preferences, setPreferences, syncNow, failedWrites, retryFailedWrite, discardFailedWrite,
+  } = useSyncStatus();
+  const entries = useAllEntries();
+  const { mode, setMode } = useRepositoryMode();
+  const [manualSyncing, setManualSyncing] = useState(false);
+  const [switchingMode, setSwitchingMode] = useState(false);
+
+  const photoCount = entries.reduce((sum, entry) => sum + (entry.photoUris?.length || 0), 0);
+  const display = STATUS_DISPLAY[status?.state ?? 'idle'];
+  const syncing = manualSyncing || status?.state === 'syncing';
+
+  const subtitle = (() => {
+    if (!status) return '';
+    switch (status.state) {
+      case 'disabled':
+        return preferences?.autoSync === false
+          ? 'Changes sync only when you tap Sync Now'
+          : 'Your data is stored locally only';
+      case 'offline':
+        return 'Changes are saved on this device and will sync when you reconnect';
+      case 'waiting-wifi':
+        return 'Sync will resume on Wi-Fi';
+      case 'error':
+        return status.lastError || 'Some changes could not be synced';
+      default:
+        return status.lastSuccessAt
+          ? `Last synced ${formatRelativeTime(status.lastSuccessAt).toLowerCase()}`
+          : 'Not synced yet';
+    }
+  })();
+
+  const handleSyncNow = async () => {
+    setManualSyncing(true);
+    try {
+      await syncNow();
+    } finally {
+      setManualSyncing(false);
+    }
+  };
+
+  const handleKeepOnDevice = async (keep: boolean) => {
+    setSwitchingMode(true);
+    try {
+      await setMode(keep ? 'hybrid' : 'remote');
+    } catch (error: any) {
+      Alert.alert('Could Not Switch', error?.message ?? 'Please try again.');
+    } finally {
+      setSwitchingMode(false);
+    }
+  };
+
+  const handleDiscard = (item: OutboxItem) => {
+    Alert.alert('Discard Change', 'This change will not be synced and cannot be retried later.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardFailedWrite(item.id) },
+    ]);
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -16,99 +101,120 @@ export const BackupScreen: React.FC = () => {
         {/* Sync Status */}
         <View style={styles.statusCard}>
           <View style={styles.statusHeader}>
-            <Ionicons name="cloud-outline" size={32} color="#8E8E93" />
-            <Text style={styles.statusTitle}>Cloud Sync Disabled</Text>
-            <Text style={styles.statusSubtitle}>Your data is stored locally only</Text>
+            <Ionicons name={display.icon} size={32} color={display.color} />
+            <Text style={styles.statusTitle}>{display.title}</Text>
+            <Text style={styles.statusSubtitle} numberOfLines={3}>{subtitle}</Text>
           </View>
-          <TouchableOpacity style={styles.enableButton}>
-            <Text style={styles.enableButtonText}>Enable Cloud Sync</Text>
+          <TouchableOpacity style={styles.enableButton} onPress={handleSyncNow} disabled={syncing}>
+            {syncing ? (
+              <ActivityIndicator color="#FFF" />
+            ) : (
+              <Text style={styles.enableButtonText}>Sync Now</Text>
+            )}
           </TouchableOpacity>
         </View>
 
+        {/* Failed Changes */}
+        {failedWrites.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>CHANGES THAT COULD NOT SYNC</Text>
+
+            {failedWrites.map(item => (
+              <View key={item.id} style={styles.errorRow}>
+                <Text style={styles.infoLabel}>{describeFailedWrite(item)}</Text>
+                {item.lastError && <Text style={styles.errorText}>{item.lastError}</Text>}
+                <View style={styles.failedActions}>
+                  <TouchableOpacity onPress={() => retryFailedWrite(item.id)} disabled={syncing}>
+                    <Text style={styles.actionButtonText}>Retry</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDiscard(item)}>
+                    <Text style={styles.discardText}>Discard</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Cloud Settings */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>CLOUD SETTINGS</Text>
           
           <View style={styles.row}>
             <View style={styles.rowLeft}>
-              <Text style={styles.rowTitle}>iCloud Sync</Text>
-              <Text style={styles.rowDescription}>Sync across all your devices</Text>
+              <Text style={styles.rowTitle}>Automatic Sync</Text>
+              <Text style={styles.rowDescription}>When the app opens and every 15 minutes</Text>
             </View>
             <Switch
-              value={cloudSync}
-              onValueChange={setCloudSync}
+              value={preferences?.autoSync ?? true}
+              onValueChange={autoSync => setPreferences({ autoSync })}
+              disabled={!preferences}
               trackColor={{ false: '#E5E5EA', true: '#34C759' }}
             />
           </View>
 
           <View style={styles.row}>
             <View style={styles.rowLeft}>
-              <Text style={styles.rowTitle}>Auto Backup</Text>
-              <Text style={styles.rowDescription}>Daily at 2:00 AM</Text>
+              <Text style={styles.rowTitle}>WiFi Only</Text>
+              <Text style={styles.rowDescription}>Don't use cellular data for automatic sync</Text>
             </View>
             <Switch
-              value={autoBackup}
-              onValueChange={setAutoBackup}
+              value={preferences?.wifiOnly ?? false}
+              onValueChange={wifiOnly => setPreferences({ wifiOnly })}
+              disabled={!preferences}
               trackColor={{ false: '#E5E5EA', true: '#34C759' }}
             />
           </View>
 
-          <View style={styles.row}>
-            <View style={styles.rowLeft}>
-              <Text style={styles.rowTitle}>WiFi Only</Text>
-              <Text style={styles.rowDescription}>Don't use cellular data</Text>
+          {/* Guests are always local-only, until they create an account */}
+          {mode && mode !== 'local' && (
+            <View style={styles.row}>
+              <View style={styles.rowLeft}>
+                <Text style={styles.rowTitle}>Keep a Copy on This Device</Text>
+                <Text style={styles.rowDescription}>Read and write entries offline. When off, entries are only on the server</Text>
+              </View>
+              <Switch
+                value={mode === 'hybrid'}
+                onValueChange={handleKeepOnDevice}
+                disabled={switchingMode}
+                trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+              />
             </View>
-            <Switch
-              value={wifiOnly}
-              onValueChange={setWifiOnly}
-              trackColor={{ false: '#E5E5EA', true: '#34C759' }}
-            />
-          </View>
+          )}
         </View>
 
-        {/* Backup Info */}
+        {/* Sync Info */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>BACKUP INFORMATION</Text>
+          <Text style={styles.sectionTitle}>SYNC INFORMATION</Text>
           
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Last Backup</Text>
-            <Text style={styles.infoValue}>Today, 2:00 AM</Text>
+            <Text style={styles.infoLabel}>Last Sync</Text>
+            <Text style={styles.infoValue}>
+              {status?.lastSuccessAt ? formatRelativeTime(status.lastSuccessAt) : 'Never'}
+            </Text>
           </View>
 
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Backup Size</Text>
-            <Text style={styles.infoValue}>124 MB</Text>
+            <Text style={styles.infoLabel}>Pending Changes</Text>
+            <Text style={styles.infoValue}>{status?.pendingOperations ?? 0}</Text>
           </View>
 
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Entries Backed Up</Text>
-            <Text style={styles.infoValue}>127</Text>
+            <Text style={styles.infoLabel}>Entries</Text>
+            <Text style={styles.infoValue}>{entries.length}</Text>
           </View>
 
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Photos Included</Text>
-            <Text style={styles.infoValue}>Yes (43 photos)</Text>
+            <Text style={styles.infoValue}>{photoCount > 0 ? `Yes (${photoCount} photos)` : 'None'}</Text>
           </View>
-        </View>
 
-        {/* Actions */}
-        <View style={styles.section}>
-          <TouchableOpacity style={styles.actionButton}>
-            <Ionicons name="cloud-upload-outline" size={20} color="#007AFF" />
-            <Text style={styles.actionButtonText}>Backup Now</Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity style={styles.actionButton}>
-            <Ionicons name="cloud-download-outline" size={20} color="#007AFF" />
-            <Text style={styles.actionButtonText}>Restore from Backup</Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity style={styles.actionButton}>
-            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
-            <Text style={[styles.actionButtonText, { color: '#FF3B30' }]}>
-              Delete All Backups
-            </Text>
-          </TouchableOpacity>
+          {status?.lastError && (
+            <View style={styles.errorRow}>
+              <Text style={styles.infoLabel}>Last Error</Text>
+              <Text style={styles.errorText}>{status.lastError}</Text>
+            </View>
+          )}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -203,6 +309,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#8E8E93',
   },
+  errorRow: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
   actionButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -216,4 +333,14 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     marginLeft: 8,
   },
+  failedActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  discardText: {
+    fontSize: 16,
+    color: '#FF3B30',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,309 @@
+import { useJournal } from '@/context/JournalContext';
+import { IntegrityIssue, IntegrityReport, integrityChecker, RecoverySource } from '@/services/integrity';
+import { RowProblem } from '@/services/repository/rows';
+import { formatDisplayDate, formatRelativeTime } from '@/utils/format';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const PROBLEM_LABELS: Record<RowProblem, string> = {
+  undecryptable: 'Cannot be decrypted',
+  'legacy-unencrypted': 'Stored without encryption',
+  malformed: 'Damaged or incomplete',
+};
+
+const SOURCE_LABELS: Record<RecoverySource, string> = {
+  row: 'Can be encrypted',
+  'alternate-key': 'Recoverable with an older key',
+  'device-copy': 'Recoverable from this device',
+  'legacy-copy': 'Recoverable from an older copy on this device',
+};
+
+export const DiagnosticsScreen: React.FC = () => {
+  const { deleteEntry } = useJournal();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scanned, setScanned] = useState(0);
+  const [repairing, setRepairing] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      integrityChecker.getLastReport().then(setReport);
+    }, [])
+  );
+
+  const openIssues = report?.issues.filter(i => !i.repaired) ?? [];
+  const recoverable = openIssues.filter(i => i.recoverableFrom);
+  const busy = scanning || repairing;
+
+  const handleScan = async () => {
+    setScanning(true);
+    setScanned(0);
+    try {
+      setReport(await integrityChecker.scan(setScanned));
+    } catch (error) {
+      console.error('Integrity scan failed:', error);
+      Alert.alert('Error', 'Could not check your journal. Please try again when you are online.');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    if (!report) return;
+    setRepairing(true);
+    try {
+      const updated = await integrityChecker.repair(report);
+      setReport(updated);
+      const fixed = updated.issues.filter(i => i.repaired).length - report.issues.filter(i => i.repaired).length;
+      Alert.alert('Repair Finished', `${fixed} of ${recoverable.length} entries were recovered.`);
+    } catch (error) {
+      console.error('Integrity repair failed:', error);
+      Alert.alert('Error', 'Could not repair your entries. Please try again.');
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const handleDiscard = (issue: IntegrityIssue) => {
+    Alert.alert(
+      'Move to Trash?',
+      'This entry cannot be recovered on this device. It will be moved to the trash.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Move to Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteEntry(issue.entryId);
+              setReport(prev => prev && {
+                ...prev,
+                issues: prev.issues.map(i => (i.entryId === issue.entryId ? { ...i, deleted: true } : i)),
+              });
+            } catch (error) {
+              // deleteEntry has already shown a toast
+              console.error('Failed to discard entry:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const healthy = report && openIssues.length === 0;
+  const statusIcon = !report ? 'pulse-outline' : healthy ? 'checkmark-circle-outline' : 'warning-outline';
+  const statusColor = !report ? '#8E8E93' : healthy ? '#34C759' : '#FF9500';
+  const statusTitle = !report ? 'Not Checked Yet' : healthy ? 'All Entries Readable' : `${openIssues.length} Problem${openIssues.length === 1 ? '' : 's'} Found`;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.statusCard}>
+          <View style={styles.statusHeader}>
+            <Ionicons name={statusIcon} size={32} color={statusColor} />
+            <Text style={styles.statusTitle}>{statusTitle}</Text>
+            <Text style={styles.statusSubtitle}>
+              {scanning
+                ? `Checked ${scanned} entries…`
+                : 'Looks for entries that cannot be read and recovers them where a copy exists'}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleScan} disabled={busy}>
+            {scanning ? (
+              <ActivityIndicator color="#FFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{report ? 'Check Again' : 'Check Journal'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {report && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>LAST CHECK</Text>
+
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Checked</Text>
+              <Text style={styles.infoValue}>{formatRelativeTime(report.checkedAt)}</Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Entries Checked</Text>
+              <Text style={styles.infoValue}>{report.scanned}</Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Problems</Text>
+              <Text style={styles.infoValue}>{openIssues.length}</Text>
+            </View>
+
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Recoverable</Text>
+              <Text style={styles.infoValue}>{recoverable.length}</Text>
+            </View>
+
+            {recoverable.length > 0 && (
+              <TouchableOpacity style={styles.actionButton} onPress={handleRepair} disabled={busy}>
+                {repairing ? (
+                  <ActivityIndicator color="#007AFF" />
+                ) : (
+                  <>
+                    <Ionicons name="construct-outline" size={20} color="#007AFF" />
+                    <Text style={styles.actionButtonText}>
+                      Repair {recoverable.length} {recoverable.length === 1 ? 'Entry' : 'Entries'}
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {report && report.issues.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>ENTRIES</Text>
+            {report.issues.map(issue => (
+              <View key={issue.entryId} style={styles.row}>
+                <View style={styles.rowLeft}>
+                  <Text style={styles.rowTitle}>{formatDisplayDate(issue.date)}</Text>
+                  <Text style={styles.rowDescription}>
+                    {PROBLEM_LABELS[issue.problem]}{issue.deleted ? ' · in trash' : ''}
+                  </Text>
+                  <Text style={[styles.rowDescription, issue.repaired ? styles.okText : !issue.recoverableFrom && styles.errorText]}>
+                    {issue.repaired
+                      ? 'Repaired'
+                      : issue.recoverableFrom ? SOURCE_LABELS[issue.recoverableFrom] : 'No copy found'}
+                  </Text>
+                </View>
+                {!issue.repaired && !issue.recoverableFrom && !issue.deleted && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => handleDiscard(issue)}
+                    disabled={busy}
+                    accessibilityLabel="Move entry to trash"
+                  >
+                    <Ionicons name="trash-outline" size={22} color="#FF3B30" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  statusCard: {
+    backgroundColor: '#FFF',
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  statusHeader: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  statusSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  primaryButtonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  section: {
+    backgroundColor: '#FFF',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginLeft: 20,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  rowLeft: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 4,
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  okText: {
+    color: '#34C759',
+  },
+  errorText: {
+    color: '#FF3B30',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  infoLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  infoValue: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,243 @@
+import { useDuplicates } from '@/hooks/useDuplicates';
+import { DuplicatePair, DuplicateReason } from '@/services/duplicates';
+import { Entry } from '@/types/journal';
+import { formatDisplayDate, formatTime } from '@/utils/format';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  'same-text': 'Same text',
+  'similar-text': 'Nearly the same text',
+  'same-transcription': 'Same voice note',
+  'same-photos': 'Same photos',
+};
+
+export const DuplicatesScreen: React.FC = () => {
+  const { pairs, isLoading, merge, dismiss } = useDuplicates();
+  // Which entry to keep, per pair; the earlier one unless the user picks
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const keeperOf = (pair: DuplicatePair): Entry =>
+    keepIds[pair.key] === pair.second.id ? pair.second : pair.first;
+
+  const handleMerge = (pair: DuplicatePair) => {
+    const keep = keeperOf(pair);
+    Alert.alert(
+      'Merge Entries?',
+      'Tags and photos from both are kept in the selected entry. The other one is moved to the trash.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            setBusyKey(pair.key);
+            try {
+              await merge(pair, keep);
+            } catch (error) {
+              // The journal context has already shown a toast
+              console.error('Failed to merge entries:', error);
+            } finally {
+              setBusyKey(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    try {
+      await dismiss(pair);
+    } catch (error) {
+      console.error('Failed to dismiss duplicate:', error);
+      Alert.alert('Error', 'Could not save your choice. Please try again.');
+    }
+  };
+
+  const renderCandidate = (pair: DuplicatePair, entry: Entry) => {
+    const selected = keeperOf(pair).id === entry.id;
+    const photoCount = entry.photoUris?.length ?? 0;
+    return (
+      <TouchableOpacity
+        key={entry.id}
+        style={styles.row}
+        onPress={() => setKeepIds(prev => ({ ...prev, [pair.key]: entry.id }))}
+        disabled={busyKey !== null}
+        accessibilityLabel={selected ? 'Entry to keep' : 'Keep this entry instead'}
+      >
+        <Ionicons
+          name={selected ? 'radio-button-on' : 'radio-button-off'}
+          size={22}
+          color={selected ? '#007AFF' : '#C7C7CC'}
+        />
+        <View style={styles.rowLeft}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {entry.title?.trim() || 'Untitled'} · {formatTime(entry.createdAt)}
+          </Text>
+          <Text style={styles.rowDescription} numberOfLines={3}>
+            {entry.body?.trim() || entry.transcription?.trim() || 'No text'}
+          </Text>
+          <Text style={styles.rowMeta}>
+            {[
+              entry.tags.length > 0 ? entry.tags.map(t => `#${t.name}`).join(' ') : null,
+              photoCount > 0 ? `${photoCount} photo${photoCount === 1 ? '' : 's'}` : null,
+            ].filter(Boolean).join(' · ') || 'No tags or photos'}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.statusCard}>
+          <Ionicons
+            name={pairs.length > 0 ? 'copy-outline' : 'checkmark-circle-outline'}
+            size={32}
+            color={isLoading ? '#8E8E93' : pairs.length > 0 ? '#FF9500' : '#34C759'}
+          />
+          <Text style={styles.statusTitle}>
+            {isLoading
+              ? 'Looking for Duplicates…'
+              : pairs.length > 0
+                ? `${pairs.length} Possible Duplicate${pairs.length === 1 ? '' : 's'}`
+                : 'No Duplicates Found'}
+          </Text>
+          <Text style={styles.statusSubtitle}>
+            Entries on the same day with the same text, voice note or photos
+          </Text>
+        </View>
+
+        {isLoading && <ActivityIndicator style={styles.loading} color="#007AFF" />}
+
+        {pairs.map(pair => (
+          <View key={pair.key} style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {formatDisplayDate(pair.date).toUpperCase()} · {pair.reasons.map(r => REASON_LABELS[r]).join(', ')}
+            </Text>
+
+            {renderCandidate(pair, pair.first)}
+            {renderCandidate(pair, pair.second)}
+
+            {busyKey === pair.key ? (
+              <ActivityIndicator style={styles.loading} color="#007AFF" />
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleDismiss(pair)}
+                  disabled={busyKey !== null}
+                >
+                  <Text style={styles.secondaryText}>Not Duplicates</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleMerge(pair)}
+                  disabled={busyKey !== null}
+                >
+                  <Ionicons name="git-merge-outline" size={20} color="#007AFF" />
+                  <Text style={styles.actionButtonText}>Merge</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  statusCard: {
+    backgroundColor: '#FFF',
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  statusSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  loading: {
+    paddingVertical: 14,
+  },
+  section: {
+    backgroundColor: '#FFF',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginLeft: 20,
+    marginRight: 20,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  rowLeft: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 4,
+  },
+  rowDescription: {
+    fontSize: 14,
+    color: '#3C3C43',
+    marginBottom: 4,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  secondaryText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -0,0 +1,674 @@
+import { useDevicePairing } from '@/hooks/useDevicePairing';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { keyVault, MIN_PASSPHRASE_LENGTH } from '@/services/keyVault';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator, Alert, Modal, Platform, ScrollView, Share, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type PassphraseForm = { current: string; next: string; confirm: string };
+
+const EMPTY_FORM: PassphraseForm = { current: '', next: '', confirm: '' };
+
+export const EncryptionScreen: React.FC = () => {
+  const { userId, status, reencrypting, setUpPassphrase, changePassphrase, rotateKey, lock } = useKeyVault();
+  const [form, setForm] = useState<PassphraseForm>(EMPTY_FORM);
+  const [changing, setChanging] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const { offer, offerStatus, showCode, cancelOffer } = useDevicePairing();
+  const [busy, setBusy] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [biometricUnlock, setBiometricUnlock] = useState(false);
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  // Shown once, right after it is made; never stored on the device
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    keyVault.canUseBiometrics().then(available => {
+      setBiometricsAvailable(available);
+      if (status === 'unprotected') setBiometricUnlock(available);
+    });
+    if (userId && status === 'unlocked') {
+      keyVault.isBiometricUnlockEnabled(userId).then(setBiometricUnlock);
+      keyVault.hasRecoveryKey(userId).then(setHasRecoveryKey).catch(() => setHasRecoveryKey(false));
+    }
+  }, [userId, status]);
+
+  const formError = (needsCurrent: boolean): string | null => {
+    if (needsCurrent && !form.current) return 'Enter your current passphrase.';
+    if (form.next.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    if (form.next !== form.confirm) return 'The passphrases do not match.';
+    return null;
+  };
+
+  const handleSetUp = () => {
+    const error = formError(false);
+    if (error) {
+      Alert.alert('Check Your Passphrase', error);
+      return;
+    }
+    Alert.alert(
+      'Turn On Passphrase?',
+      'Your entries will only be readable with this passphrase. Next you will get a recovery key: if you forget the passphrase, it is the only way back in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn On',
+          onPress: async () => {
+            setBusy(true);
+            try {
+              const key = await setUpPassphrase(form.next, biometricsAvailable && biometricUnlock);
+              setForm(EMPTY_FORM);
+              setHasRecoveryKey(true);
+              setRecoveryKey(key);
+            } catch (e: any) {
+              console.error('Failed to set up passphrase:', e);
+              Alert.alert('Error', e?.message ?? 'Could not turn on the passphrase. Please try again when you are online.');
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleChange = async () => {
+    const error = formError(true);
+    if (error) {
+      Alert.alert('Check Your Passphrase', error);
+      return;
+    }
+    setBusy(true);
+    try {
+      await changePassphrase(form.current, form.next);
+      setChanging(false);
+      setForm(EMPTY_FORM);
+      Alert.alert('Passphrase Changed', 'Use your new passphrase to unlock your journal from now on.');
+    } catch (e: any) {
+      console.error('Failed to change passphrase:', e);
+      Alert.alert('Error', e?.message === 'Incorrect passphrase'
+        ? 'Your current passphrase is not right.'
+        : 'Could not change the passphrase. Please try again when you are online.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!form.current) {
+      Alert.alert('Check Your Passphrase', 'Enter your current passphrase.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const key = await rotateKey(form.current);
+      setRotating(false);
+      setForm(EMPTY_FORM);
+      setHasRecoveryKey(true);
+      setRecoveryKey(key);
+    } catch (e: any) {
+      console.error('Failed to rotate key:', e);
+      Alert.alert('Error', e?.message === 'Incorrect passphrase'
+        ? 'Your passphrase is not right.'
+        : 'Could not rotate the key. Please try again when you are online.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleNewRecoveryKey = () => {
+    if (!userId) return;
+    const create = async () => {
+      setBusy(true);
+      try {
+        setRecoveryKey(await keyVault.createRecoveryKey(userId));
+        setHasRecoveryKey(true);
+      } catch (e: any) {
+        console.error('Failed to create recovery key:', e);
+        Alert.alert('Error', 'Could not create a recovery key. Please try again when you are online.');
+      } finally {
+        setBusy(false);
+      }
+    };
+
+    if (!hasRecoveryKey) {
+      create();
+      return;
+    }
+    Alert.alert(
+      'Replace Recovery Key?',
+      'Your current recovery key will stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: create },
+      ]
+    );
+  };
+
+  const handlePairDevice = async () => {
+    setBusy(true);
+    try {
+      await showCode();
+    } catch (e) {
+      console.error('Failed to start device pairing:', e);
+      Alert.alert('Error', 'Could not start pairing. Please try again when you are online.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShareRecoveryKey = () => {
+    if (!recoveryKey) return;
+    Share.share({ message: `Quill journal recovery key: ${recoveryKey}` }).catch(() => {});
+  };
+
+  const handleBiometricToggle = async (enabled: boolean) => {
+    if (!userId) return;
+    setBiometricUnlock(enabled);
+    try {
+      await keyVault.setBiometricUnlock(userId, enabled);
+    } catch (error) {
+      console.error('Failed to update biometric unlock:', error);
+      setBiometricUnlock(!enabled);
+      Alert.alert('Error', 'Could not update biometric unlock. Please try again.');
+    }
+  };
+
+  if (!userId) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.statusCard}>
+          <Ionicons name="key-outline" size={32} color="#8E8E93" />
+          <Text style={styles.statusTitle}>Sign In Required</Text>
+          <Text style={styles.statusSubtitle}>
+            A journal passphrase protects the copy of your journal kept in the cloud. Sign in to set one.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isProtected = status === 'unlocked' || status === 'locked';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.statusCard}>
+          <Ionicons
+            name={isProtected ? 'shield-checkmark-outline' : 'shield-outline'}
+            size={32}
+            color={isProtected ? '#34C759' : '#8E8E93'}
+          />
+          <Text style={styles.statusTitle}>{isProtected ? 'Passphrase On' : 'Passphrase Off'}</Text>
+          <Text style={styles.statusSubtitle}>
+            {isProtected
+              ? 'Your entries can only be read on devices where you have entered your passphrase.'
+              : 'Entries are encrypted, but with a key tied to your account. Add a passphrase so only you can read them.'}
+          </Text>
+        </View>
+
+        {status === null && <ActivityIndicator style={styles.loading} color="#007AFF" />}
+
+        {status === 'unprotected' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>SET A PASSPHRASE</Text>
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                value={form.next}
+                onChangeText={next => setForm({ ...form, next })}
+                placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                placeholderTextColor="#C7C7CC"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!busy}
+              />
+              <TextInput
+                style={styles.input}
+                value={form.confirm}
+                onChangeText={confirm => setForm({ ...form, confirm })}
+                placeholder="Confirm passphrase"
+                placeholderTextColor="#C7C7CC"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!busy}
+              />
+            </View>
+
+            {biometricsAvailable && (
+              <View style={styles.row}>
+                <View style={styles.rowLeft}>
+                  <Text style={styles.rowTitle}>Unlock with Biometrics</Text>
+                  <Text style={styles.rowDescription}>Keep the key on this device behind Face ID or fingerprint</Text>
+                </View>
+                <Switch
+                  value={biometricUnlock}
+                  onValueChange={setBiometricUnlock}
+                  disabled={busy}
+                  trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+                />
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.actionButton} onPress={handleSetUp} disabled={busy}>
+              {busy ? (
+                <ActivityIndicator color="#007AFF" />
+              ) : (
+                <>
+                  <Ionicons name="lock-closed-outline" size={20} color="#007AFF" />
+                  <Text style={styles.actionButtonText}>Turn On Passphrase</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {status === 'unlocked' && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>PROTECTION</Text>
+
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Existing Entries</Text>
+                <Text style={styles.infoValue}>{reencrypting ? 'Re-encrypting…' : 'Protected'}</Text>
+              </View>
+
+              {biometricsAvailable && (
+                <View style={styles.row}>
+                  <View style={styles.rowLeft}>
+                    <Text style={styles.rowTitle}>Unlock with Biometrics</Text>
+                    <Text style={styles.rowDescription}>Skip typing your passphrase on this device</Text>
+                  </View>
+                  <Switch
+                    value={biometricUnlock}
+                    onValueChange={handleBiometricToggle}
+                    trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+                  />
+                </View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>DEVICES</Text>
+              <Text style={styles.hint}>
+                Unlock your journal on a new phone or tablet without typing your passphrase. The key travels encrypted end to end.
+              </Text>
+              <TouchableOpacity style={styles.actionButton} onPress={handlePairDevice} disabled={busy}>
+                <Ionicons name="qr-code-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>Pair a New Device</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>RECOVERY</Text>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Recovery Key</Text>
+                <Text style={styles.infoValue}>{hasRecoveryKey ? 'Created' : 'None'}</Text>
+              </View>
+              <Text style={styles.hint}>
+                If you forget your passphrase, your recovery key lets you set a new one. Keep it somewhere safe, away from this device.
+              </Text>
+              <TouchableOpacity style={styles.actionButton} onPress={handleNewRecoveryKey} disabled={busy}>
+                <Ionicons name="document-lock-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>
+                  {hasRecoveryKey ? 'Create New Recovery Key' : 'Create Recovery Key'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.section}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => setChanging(true)}>
+                <Ionicons name="key-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>Change Passphrase</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => Alert.alert(
+                  'Rotate Encryption Key?',
+                  'Use this if you think your key or recovery key was exposed. A new key replaces it, every entry is re-encrypted in the background, and you get a new recovery key. Other devices will ask for your passphrase again.',
+                  [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Continue', onPress: () => setRotating(true) },
+                  ]
+                )}
+              >
+                <Ionicons name="refresh-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>Rotate Encryption Key</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={lock}>
+                <Ionicons name="lock-closed-outline" size={20} color="#007AFF" />
+                <Text style={styles.actionButtonText}>Lock Journal Now</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal visible={changing} transparent animationType="fade" onRequestClose={() => setChanging(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.editor}>
+            <Text style={styles.editorTitle}>Change Passphrase</Text>
+            <View style={styles.editorFields}>
+              <TextInput
+                style={styles.input}
+                value={form.current}
+                onChangeText={current => setForm({ ...form, current })}
+                placeholder="Current passphrase"
+                placeholderTextColor="#C7C7CC"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+              />
+              <TextInput
+                style={styles.input}
+                value={form.next}
+                onChangeText={next => setForm({ ...form, next })}
+                placeholder="New passphrase"
+                placeholderTextColor="#C7C7CC"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.input}
+                value={form.confirm}
+                onChangeText={confirm => setForm({ ...form, confirm })}
+                placeholder="Confirm new passphrase"
+                placeholderTextColor="#C7C7CC"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <View style={styles.editorActions}>
+              <TouchableOpacity
+                style={styles.editorButton}
+                onPress={() => {
+                  setChanging(false);
+                  setForm(EMPTY_FORM);
+                }}
+                disabled={busy}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editorButton} onPress={handleChange} disabled={busy}>
+                {busy ? <ActivityIndicator color="#007AFF" /> : <Text style={styles.saveText}>Change</Text>}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={rotating} transparent animationType="fade" onRequestClose={() => setRotating(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.editor}>
+            <Text style={styles.editorTitle}>Rotate Encryption Key</Text>
+            <TextInput
+              style={styles.input}
+              value={form.current}
+              onChangeText={current => setForm({ ...form, current })}
+              placeholder="Current passphrase"
+              placeholderTextColor="#C7C7CC"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+            />
+
+            <View style={styles.editorActions}>
+              <TouchableOpacity
+                style={styles.editorButton}
+                onPress={() => {
+                  setRotating(false);
+                  setForm(EMPTY_FORM);
+                }}
+                disabled={busy}
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editorButton} onPress={handleRotate} disabled={busy}>
+                {busy ? <ActivityIndicator color="#007AFF" /> : <Text style={styles.saveText}>Rotate</Text>}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={!!offer} transparent animationType="fade" onRequestClose={cancelOffer}>
+        <View style={styles.overlay}>
+          <View style={styles.editor}>
+            <Text style={styles.editorTitle}>Pair a New Device</Text>
+            {offerStatus === 'waiting' && offer && (
+              <>
+                <View style={styles.qrCode}>
+                  <QRCode value={offer.link} size={200} />
+                </View>
+                <Text style={styles.recoveryKey} selectable>{offer.code}</Text>
+                <Text style={styles.recoveryNote}>
+                  On the new device, sign in, tap Pair with Another Device, then scan this code or type it in. It expires in 5 minutes.
+                </Text>
+              </>
+            )}
+            {offerStatus === 'paired' && (
+              <Text style={styles.recoveryNote}>Your other device is now unlocked.</Text>
+            )}
+            {offerStatus === 'rejected' && (
+              <Text style={styles.recoveryNote}>The code entered on the other device did not match. Start again to get a new code.</Text>
+            )}
+            {offerStatus === 'expired' && (
+              <Text style={styles.recoveryNote}>This code has expired. Start again to get a new one.</Text>
+            )}
+
+            <View style={styles.editorActions}>
+              <TouchableOpacity style={styles.editorButton} onPress={cancelOffer}>
+                <Text style={offerStatus === 'waiting' ? styles.cancelText : styles.saveText}>
+                  {offerStatus === 'waiting' ? 'Cancel' : 'Done'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={!!recoveryKey} transparent animationType="fade" onRequestClose={() => {}}>
+        <View style={styles.overlay}>
+          <View style={styles.editor}>
+            <Text style={styles.editorTitle}>Your Recovery Key</Text>
+            <Text style={styles.recoveryKey} selectable>{recoveryKey}</Text>
+            <Text style={styles.recoveryNote}>
+              Write this down or save it in a password manager. It will not be shown again, and nobody else can recover your journal without it.
+            </Text>
+
+            <View style={styles.editorActions}>
+              <TouchableOpacity style={styles.editorButton} onPress={handleShareRecoveryKey}>
+                <Text style={styles.cancelText}>Save…</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editorButton} onPress={() => setRecoveryKey(null)}>
+                <Text style={styles.saveText}>{"I've Saved It"}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  statusCard: {
+    backgroundColor: '#FFF',
+    margin: 16,
+    padding: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  statusSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  loading: {
+    paddingVertical: 14,
+  },
+  section: {
+    backgroundColor: '#FFF',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginLeft: 20,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  form: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+    gap: 12,
+  },
+  input: {
+    fontSize: 16,
+    color: '#000',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#C7C7CC',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  rowLeft: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 4,
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  infoLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  infoValue: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  editor: {
+    backgroundColor: '#FFF',
+    borderRadius: 14,
+    padding: 20,
+  },
+  editorTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  recoveryKey: {
+    fontSize: 18,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#000',
+    textAlign: 'center',
+    letterSpacing: 1,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+  },
+  qrCode: {
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 12,
+  },
+  recoveryNote: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  editorFields: {
+    gap: 12,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  editorButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
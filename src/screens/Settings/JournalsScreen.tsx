@@ -0,0 +1,333 @@
+import { useJournals } from '@/hooks/useJournals';
+import { JOURNAL_COLORS, JOURNAL_ICONS } from '@/services/journals';
+import { DEFAULT_JOURNAL_ID, Journal } from '@/types/journal';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator, Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type Draft = {
+  id: string | null; // null while creating a new journal
+  name: string;
+  color: string;
+  icon: string;
+};
+
+const NEW_DRAFT: Draft = { id: null, name: '', color: JOURNAL_COLORS[1], icon: JOURNAL_ICONS[0] };
+
+export const JournalsScreen: React.FC = () => {
+  const { journals, activeJournal, switchJournal, createJournal, updateJournal, deleteJournal } = useJournals();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const openEditor = (journal?: Journal) => {
+    setDraft(journal
+      ? { id: journal.id, name: journal.name, color: journal.color, icon: journal.icon }
+      : NEW_DRAFT);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Please give the journal a name.');
+      return;
+    }
+
+    try {
+      const input = { name, color: draft.color, icon: draft.icon };
+      if (draft.id) await updateJournal(draft.id, input);
+      else await createJournal(input);
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save journal:', error);
+      Alert.alert('Error', 'Could not save the journal. Please try again.');
+    }
+  };
+
+  const handleDelete = (journal: Journal) => {
+    Alert.alert(
+      `Delete "${journal.name}"?`,
+      'Its entries will be moved to your main journal.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(journal.id);
+            try {
+              const moved = await deleteJournal(journal.id);
+              console.log(`📓 Deleted journal ${journal.id}, moved ${moved} entries`);
+            } catch (error) {
+              console.error('Failed to delete journal:', error);
+              Alert.alert('Error', 'Could not delete the journal. Please try again.');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView>
+        <Text style={styles.notice}>
+          Keep separate journals for different parts of your life. Switch between them from the menu.
+        </Text>
+
+        <View style={styles.section}>
+          {journals.map(journal => {
+            const active = journal.id === activeJournal?.id;
+            const busy = busyId === journal.id;
+            return (
+              <TouchableOpacity key={journal.id} style={styles.row} onPress={() => switchJournal(journal.id)}>
+                <View style={[styles.icon, { backgroundColor: journal.color + '20' }]}>
+                  <Ionicons name={journal.icon as keyof typeof Ionicons.glyphMap} size={18} color={journal.color} />
+                </View>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>{journal.name}</Text>
+                  {active && <Text style={styles.rowMeta}>Showing now</Text>}
+                </View>
+
+                {busy ? (
+                  <ActivityIndicator color="#8E8E93" />
+                ) : (
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => openEditor(journal)}
+                      disabled={!!busyId}
+                      accessibilityLabel="Edit journal"
+                    >
+                      <Ionicons name="create-outline" size={22} color="#007AFF" />
+                    </TouchableOpacity>
+                    {journal.id !== DEFAULT_JOURNAL_ID && (
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => handleDelete(journal)}
+                        disabled={!!busyId}
+                        accessibilityLabel="Delete journal"
+                      >
+                        <Ionicons name="trash-outline" size={22} color="#FF3B30" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+          <Ionicons name="add-circle-outline" size={22} color="#007AFF" />
+          <Text style={styles.addButtonText}>New Journal</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <Modal visible={!!draft} transparent animationType="fade" onRequestClose={() => setDraft(null)}>
+        <View style={styles.overlay}>
+          {draft && (
+            <View style={styles.editor}>
+              <Text style={styles.editorTitle}>{draft.id ? 'Edit Journal' : 'New Journal'}</Text>
+
+              <TextInput
+                style={styles.input}
+                value={draft.name}
+                onChangeText={name => setDraft({ ...draft, name })}
+                placeholder="Journal name"
+                placeholderTextColor="#C7C7CC"
+                autoFocus
+                maxLength={40}
+              />
+
+              <Text style={styles.label}>Color</Text>
+              <View style={styles.swatches}>
+                {JOURNAL_COLORS.map(color => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[styles.swatch, { backgroundColor: color }, draft.color === color && styles.swatchSelected]}
+                    onPress={() => setDraft({ ...draft, color })}
+                    accessibilityLabel={`Color ${color}`}
+                  />
+                ))}
+              </View>
+
+              <Text style={styles.label}>Icon</Text>
+              <View style={styles.swatches}>
+                {JOURNAL_ICONS.map(icon => {
+                  const selected = draft.icon === icon;
+                  return (
+                    <TouchableOpacity
+                      key={icon}
+                      style={[styles.iconOption, selected && { backgroundColor: draft.color + '20' }]}
+                      onPress={() => setDraft({ ...draft, icon })}
+                    >
+                      <Ionicons
+                        name={icon as keyof typeof Ionicons.glyphMap}
+                        size={20}
+                        color={selected ? draft.color : '#8E8E93'}
+                      />
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <View style={styles.editorActions}>
+                <TouchableOpacity style={styles.editorButton} onPress={() => setDraft(null)}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.editorButton} onPress={handleSave}>
+                  <Text style={styles.saveText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  notice: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  section: {
+    backgroundColor: '#FFF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#000',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFF',
+    marginTop: 20,
+    paddingVertical: 12,
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  editor: {
+    backgroundColor: '#FFF',
+    borderRadius: 14,
+    padding: 20,
+  },
+  editorTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 16,
+    color: '#000',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#C7C7CC',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  label: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: '#E5E5EA',
+  },
+  iconOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  editorButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
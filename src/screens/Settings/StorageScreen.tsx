@@ -1,11 +1,79 @@
+import { photoCache } from '@/services/photoCache';
 import { Ionicons } from '@expo/vector-icons';
-import React from 'react';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
 import {
-    ScrollView, StyleSheet, Text, TouchableOpacity, View
+    ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+const MB = 1024 * 1024;
+const CACHE_LIMITS_MB = [100, 250, 500, 1000];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${(bytes / (1024 * MB)).toFixed(1)} GB`;
+}
+
 export const StorageScreen: React.FC = () => {
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+  const [cacheLimit, setCacheLimit] = useState<number | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const loadCacheInfo = useCallback(async () => {
+    try {
+      const [size, limit] = await Promise.all([photoCache.getSize(), photoCache.getMaxBytes()]);
+      setCacheSize(size);
+      setCacheLimit(limit);
+    } catch (error) {
+      console.error('Failed to read photo cache size:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCacheInfo();
+    }, [loadCacheInfo])
+  );
+
+  const handleClearCache = () => {
+    Alert.alert(
+      'Clear Photo Cache?',
+      'Photos will be downloaded again the next time you view them, and won\'t show offline until then.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            setClearing(true);
+            try {
+              await photoCache.clear();
+            } catch (error) {
+              console.error('Failed to clear photo cache:', error);
+              Alert.alert('Error', 'Could not clear the cache. Please try again.');
+            } finally {
+              setClearing(false);
+              loadCacheInfo();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSetLimit = async (limitMb: number) => {
+    setCacheLimit(limitMb * MB);
+    try {
+      await photoCache.setMaxBytes(limitMb * MB);
+    } catch (error) {
+      console.error('Failed to set photo cache limit:', error);
+    }
+    loadCacheInfo();
+  };
+
   const storageData = [
     { label: 'Text Entries', size: '12.4 MB', color: '#007AFF' },
     { label: 'Photos', size: '89.2 MB', color: '#34C759' },
@@ -55,14 +123,43 @@ export const StorageScreen: React.FC = () => {
           
           <View style={styles.cacheRow}>
             <View>
-              <Text style={styles.cacheLabel}>Cache Size</Text>
-              <Text style={styles.cacheDescription}>Temporary files and thumbnails</Text>
+              <Text style={styles.cacheLabel}>Photo Cache</Text>
+              <Text style={styles.cacheDescription}>Photos saved for offline viewing</Text>
             </View>
-            <Text style={styles.cacheSize}>8.2 MB</Text>
+            <Text style={styles.cacheSize}>
+              {cacheSize === null ? '—' : formatBytes(cacheSize)}
+            </Text>
           </View>
 
-          <TouchableOpacity style={styles.clearButton}>
-            <Text style={styles.clearButtonText}>Clear Cache</Text>
+          <View style={styles.cacheRow}>
+            <View>
+              <Text style={styles.cacheLabel}>Cache Limit</Text>
+              <Text style={styles.cacheDescription}>Least recently viewed photos go first</Text>
+            </View>
+          </View>
+          <View style={styles.limitOptions}>
+            {CACHE_LIMITS_MB.map(limitMb => {
+              const selected = cacheLimit === limitMb * MB;
+              return (
+                <TouchableOpacity
+                  key={limitMb}
+                  style={[styles.limitOption, selected && styles.limitOptionSelected]}
+                  onPress={() => handleSetLimit(limitMb)}
+                >
+                  <Text style={[styles.limitOptionText, selected && styles.limitOptionTextSelected]}>
+                    {limitMb >= 1000 ? `${limitMb / 1000} GB` : `${limitMb} MB`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={styles.clearButton} onPress={handleClearCache} disabled={clearing}>
+            {clearing ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : (
+              <Text style={styles.clearButtonText}>Clear Cache</Text>
+            )}
           </TouchableOpacity>
         </View>
 
@@ -202,6 +299,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#8E8E93',
   },
+  limitOptions: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  limitOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  limitOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  limitOptionText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  limitOptionTextSelected: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
   clearButton: {
     alignItems: 'center',
     paddingVertical: 12,
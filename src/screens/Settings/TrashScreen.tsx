@@ -0,0 +1,246 @@
+import { useJournal } from '@/context/JournalContext';
+import { TRASH_RETENTION_DAYS, trashExpiresAt } from '@/services/repository';
+import { entryRepository } from '@/services/repository/entryRepository';
+import { Entry } from '@/types/journal';
+import { formatDisplayDate, formatRelativeTime } from '@/utils/format';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+    ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, Text, TouchableOpacity, View
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(entry: Entry): number {
+  return Math.max(0, Math.ceil((trashExpiresAt(entry).getTime() - Date.now()) / DAY_MS));
+}
+
+export const TrashScreen: React.FC = () => {
+  const { restoreEntry } = useJournal();
+  const [trash, setTrash] = useState<Entry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await entryRepository.listTrash());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      Alert.alert('Error', 'Could not load the trash. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const handleRestore = async (entry: Entry) => {
+    setBusyId(entry.id);
+    try {
+      await restoreEntry(entry.id);
+      setTrash(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      // restoreEntry has already shown a toast
+      console.error('Failed to restore entry:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purge = async (ids: string[]) => {
+    for (const id of ids) {
+      setBusyId(id);
+      try {
+        await entryRepository.purgeEntry(id);
+        setTrash(prev => prev.filter(e => e.id !== id));
+      } catch (error) {
+        console.error('Failed to purge entry:', id, error);
+        Alert.alert('Error', 'Could not delete the entry. Please try again.');
+        break;
+      }
+    }
+    setBusyId(null);
+  };
+
+  const handleDeleteForever = (entry: Entry) => {
+    Alert.alert(
+      'Delete Forever?',
+      'This entry and its photos will be permanently deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => purge([entry.id]) },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash?',
+      `All ${trash.length} entries in the trash will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Empty Trash', style: 'destructive', onPress: () => purge(trash.map(e => e.id)) },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: Entry }) => {
+    const busy = busyId === item.id;
+    const left = daysLeft(item);
+
+    return (
+      <View style={styles.row}>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {item.title || item.body || 'Untitled entry'}
+          </Text>
+          <Text style={styles.rowDate}>{formatDisplayDate(item.date)}</Text>
+          <Text style={styles.rowMeta}>
+            Deleted {formatRelativeTime(item.updatedAt).toLowerCase()} · {left === 0 ? 'deleting soon' : `${left} day${left !== 1 ? 's' : ''} left`}
+          </Text>
+        </View>
+
+        {busy ? (
+          <ActivityIndicator color="#8E8E93" />
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleRestore(item)}
+              disabled={!!busyId}
+              accessibilityLabel="Restore entry"
+            >
+              <Ionicons name="arrow-undo-outline" size={22} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDeleteForever(item)}
+              disabled={!!busyId}
+              accessibilityLabel="Delete entry forever"
+            >
+              <Ionicons name="trash-outline" size={22} color="#FF3B30" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator color="#8E8E93" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={trash}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadTrash(); }} />
+        }
+        ListHeaderComponent={
+          <Text style={styles.notice}>
+            Deleted entries are kept here for {TRASH_RETENTION_DAYS} days, then permanently deleted.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="trash-outline" size={48} color="#C7C7CC" />
+            <Text style={styles.emptyText}>Trash is empty</Text>
+          </View>
+        }
+        ListFooterComponent={
+          trash.length > 0 ? (
+            <TouchableOpacity style={styles.emptyButton} onPress={handleEmptyTrash} disabled={!!busyId}>
+              <Text style={styles.emptyButtonText}>Empty Trash</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notice: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginHorizontal: 20,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#000',
+    marginBottom: 2,
+  },
+  rowDate: {
+    fontSize: 13,
+    color: '#3C3C43',
+    marginBottom: 2,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 80,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    marginTop: 12,
+  },
+  emptyButton: {
+    alignItems: 'center',
+    backgroundColor: '#FFF',
+    marginTop: 20,
+    paddingVertical: 12,
+  },
+  emptyButtonText: {
+    fontSize: 16,
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,67 @@
+// src/services/conflicts.ts
+import { Entry, Tag } from '@/types/journal';
+
+export type ConflictResolution = 'keep-copy' | 'keep-original' | 'keep-both';
+
+export interface MergeResult {
+  merged: Partial<Entry>;
+  conflicts: (keyof Entry)[];
+}
+
+// Fields a user can edit; everything else (id, timestamps, flags) is server-owned
+const EDITABLE_FIELDS: (keyof Entry)[] = [
+  'title', 'body', 'mood', 'tags', 'photoUris', 'date', 'createdAt',
+  'locationData', 'audioUri', 'transcription', 'conflictOf', 'mergedInto', 'journalId',
+];
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Three-way merge of two lists: keep what either side added, drop what
+ * either side removed relative to the common base.
+ */
+function mergeLists<T>(base: T[], local: T[], remote: T[], key: (item: T) => string): T[] {
+  const baseKeys = new Set(base.map(key));
+  const localKeys = new Set(local.map(key));
+  const remoteKeys = new Set(remote.map(key));
+
+  const result = remote.filter(item => !(baseKeys.has(key(item)) && !localKeys.has(key(item))));
+  local.forEach(item => {
+    if (!baseKeys.has(key(item)) && !remoteKeys.has(key(item))) result.push(item);
+  });
+  return result;
+}
+
+/**
+ * Rebase `updates` (made against `base`) onto `remote`, the row as it is on
+ * the server now. Fields only one side changed merge cleanly, tag and photo
+ * lists merge as sets, and anything both sides rewrote is reported back in
+ * `conflicts` and left out of `merged` so the remote value stands.
+ */
+export function mergeEntryUpdates(base: Entry, remote: Entry, updates: Partial<Entry>): MergeResult {
+  const merged: Partial<Entry> = {};
+  const conflicts: (keyof Entry)[] = [];
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in updates)) continue;
+
+    const local = updates[field];
+    if (same(local, base[field])) continue;       // not really changed here
+    if (same(remote[field], base[field]) || same(local, remote[field])) {
+      (merged as any)[field] = local;              // only changed here
+      continue;
+    }
+
+    if (field === 'tags') {
+      merged.tags = mergeLists<Tag>(base.tags ?? [], (local as Tag[]) ?? [], remote.tags ?? [], t => t.name);
+    } else if (field === 'photoUris') {
+      merged.photoUris = mergeLists<string>(base.photoUris ?? [], (local as string[]) ?? [], remote.photoUris ?? [], u => u);
+    } else {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged, conflicts };
+}
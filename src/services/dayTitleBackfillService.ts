@@ -1,6 +1,6 @@
 // src/services/dayTitleBackfillService.ts
 import { supabase } from './supabase';
-import { entriesService } from './entries';
+import { entryRepository } from './repository/entryRepository';
 import PeriodAnalyzer from './periodAnalyzer';
 
 export interface BackfillProgress {
@@ -119,7 +119,7 @@ export class DayTitleBackfillService {
   private static async getDaysNeedingBackfill(): Promise<string[]> {
     try {
       // Get all entries grouped by day
-      const groupedEntries = await entriesService.groupEntriesByDay();
+      const groupedEntries = await entryRepository.groupEntriesByDay();
       
       // Filter to days with multiple entries
       const multipleDays = Object.entries(groupedEntries)
@@ -160,7 +160,7 @@ export class DayTitleBackfillService {
   private static async backfillSingleDay(date: string): Promise<void> {
     try {
       // Get entries for this day
-      const groupedEntries = await entriesService.groupEntriesByDay();
+      const groupedEntries = await entryRepository.groupEntriesByDay();
       const dayEntries = groupedEntries[date];
 
       if (!dayEntries || dayEntries.length <= 1) {
@@ -188,7 +188,7 @@ export class DayTitleBackfillService {
     daysNeedingBackfill: number;
   }> {
     try {
-      const groupedEntries = await entriesService.groupEntriesByDay();
+      const groupedEntries = await entryRepository.groupEntriesByDay();
       const multipleDays = Object.entries(groupedEntries)
         .filter(([date, entries]) => entries.length > 1)
         .map(([date]) => date);
@@ -0,0 +1,242 @@
+// src/services/devicePairing.ts
+import { gcm } from '@noble/ciphers/aes';
+import { equalBytes } from '@noble/ciphers/utils';
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha2';
+import { Buffer } from 'buffer';
+import * as Crypto from 'expo-crypto';
+import { EncryptionService } from './encryption';
+import { generateCode, keyVault, normalizeCode } from './keyVault';
+import { supabase } from './supabase';
+
+const TABLE = 'device_pairings';
+const CODE_BYTES = 5; // 40 bits, "XXXX-XXXX"
+const CODE_LENGTH = 8;
+const PRIVATE_KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+
+// Stretches the short code so a captured answer can't be used to guess it
+// before the pairing expires
+const CODE_KDF = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 };
+
+export const PAIRING_LINK_PREFIX = 'quill://pair?code=';
+
+// Exchanged through the server, which sees only public keys, a tag and
+// the sealed key. Rows expire after a few minutes.
+interface PairingRow {
+  id: string;
+  user_id: string;
+  offer_key: string; // base64 X25519 public key of the device sharing its key
+  answer_key: string | null; // and of the device receiving it
+  answer_tag: string | null; // base64 HMAC over both public keys, keyed by the code
+  sealed_key: string | null; // base64 nonce + ciphertext + tag of the data key
+  expires_at: string;
+}
+
+export interface PairingOffer {
+  id: string;
+  code: string;
+  link: string; // what the QR code holds
+  expiresAt: string;
+}
+
+export type OfferStatus =
+  | 'waiting' // no answer yet
+  | 'paired' // key sent
+  | 'rejected' // answered with the wrong code; the pairing is discarded
+  | 'expired';
+
+// Private keys live in memory only; a pairing does not survive a restart
+type Session = { privateKey: Uint8Array; codeKey: Uint8Array };
+
+/**
+ * Hands the unlocked data key to a new device on the same account. The
+ * unlocked device publishes an ephemeral X25519 key and shows a short code
+ * (or a QR code of it). The new device answers with its own key and an
+ * HMAC, keyed by the code, over both keys; only if that checks out does
+ * the first device send the data key, sealed with a key derived from the
+ * shared secret and the code. Neither the code nor the data key ever
+ * reaches the server.
+ */
+class DevicePairing {
+  private offers = new Map<string, Session>();
+  private answers = new Map<string, Uint8Array>(); // pairing id -> session key
+
+  /** Start sharing this device's unlocked key. Replaces any earlier pairing. */
+  async createOffer(userId: string): Promise<PairingOffer> {
+    if (!(await EncryptionService.getUnlockedDataKey(userId))) throw new Error('Unlock your journal first');
+
+    await supabase.from(TABLE).delete().eq('user_id', userId);
+    const privateKey = Crypto.getRandomBytes(PRIVATE_KEY_BYTES);
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({ user_id: userId, offer_key: toBase64(x25519.getPublicKey(privateKey)) })
+      .select('*')
+      .single<PairingRow>();
+    if (error) throw error;
+
+    const code = generateCode(CODE_BYTES);
+    this.offers.set(data.id, { privateKey, codeKey: await this.deriveCodeKey(code, data.id) });
+    console.log('📲 Device pairing started');
+    return { id: data.id, code, link: PAIRING_LINK_PREFIX + code, expiresAt: data.expires_at };
+  }
+
+  /**
+   * Check on an offer, sending the key once a matching answer arrives.
+   * Call until it returns something other than 'waiting'.
+   */
+  async checkOffer(userId: string, pairingId: string): Promise<OfferStatus> {
+    const session = this.offers.get(pairingId);
+    if (!session) return 'expired';
+
+    const row = await this.fetchRow(pairingId);
+    if (!row || isExpired(row)) {
+      this.offers.delete(pairingId);
+      return 'expired';
+    }
+    if (row.sealed_key) return 'paired';
+    if (!row.answer_key || !row.answer_tag) return 'waiting';
+
+    const offerKey = x25519.getPublicKey(session.privateKey);
+    const answerKey = fromBase64(row.answer_key);
+    if (!equalBytes(this.answerTag(session.codeKey, offerKey, answerKey), fromBase64(row.answer_tag))) {
+      console.warn('Device pairing answered with the wrong code');
+      await this.cancelOffer(pairingId);
+      return 'rejected';
+    }
+
+    const dataKey = await EncryptionService.getUnlockedDataKey(userId);
+    if (!dataKey) throw new Error('Unlock your journal first');
+    const sessionKey = this.sessionKey(userId, pairingId, session, answerKey);
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const sealed = gcm(sessionKey, nonce, this.pairingAad(pairingId)).encrypt(Buffer.from(dataKey, 'utf8'));
+
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ sealed_key: toBase64(Buffer.concat([nonce, sealed])) })
+      .eq('id', pairingId)
+      .is('sealed_key', null);
+    if (error) throw error;
+
+    this.offers.delete(pairingId);
+    console.log('📲 Data key sent to paired device');
+    return 'paired';
+  }
+
+  async cancelOffer(pairingId: string): Promise<void> {
+    this.offers.delete(pairingId);
+    const { error } = await supabase.from(TABLE).delete().eq('id', pairingId);
+    if (error) console.warn('Failed to remove device pairing:', error);
+  }
+
+  /**
+   * Answer the offer showing on the user's other device with its code.
+   * Returns the pairing id to pass to receiveKey.
+   */
+  async answerOffer(userId: string, input: string): Promise<string> {
+    const code = normalizeCode(input.startsWith(PAIRING_LINK_PREFIX) ? input.slice(PAIRING_LINK_PREFIX.length) : input);
+    if (code.length !== CODE_LENGTH) throw new Error(`Enter the ${CODE_LENGTH}-character code from your other device`);
+
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .is('answer_key', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle<PairingRow>();
+    if (error) throw error;
+    if (!row) throw new Error('No pairing code is showing on your other device');
+
+    const privateKey = Crypto.getRandomBytes(PRIVATE_KEY_BYTES);
+    const session = { privateKey, codeKey: await this.deriveCodeKey(code, row.id) };
+    const offerKey = fromBase64(row.offer_key);
+    const answerKey = x25519.getPublicKey(privateKey);
+
+    // Only the first answer counts, so a wrong guess burns the pairing
+    const { data: claimed, error: claimError } = await supabase
+      .from(TABLE)
+      .update({
+        answer_key: toBase64(answerKey),
+        answer_tag: toBase64(this.answerTag(session.codeKey, offerKey, answerKey)),
+      })
+      .eq('id', row.id)
+      .is('answer_key', null)
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed?.length) throw new Error('This code was already used. Show a new one on your other device');
+
+    this.answers.set(row.id, this.sessionKey(userId, row.id, session, offerKey));
+    return row.id;
+  }
+
+  /**
+   * Unlock with the key once the other device has sent it. False while it
+   * hasn't; throws if the pairing was rejected, cancelled or expired.
+   */
+  async receiveKey(userId: string, pairingId: string): Promise<boolean> {
+    const sessionKey = this.answers.get(pairingId);
+    if (!sessionKey) throw new Error('This pairing has expired');
+
+    const row = await this.fetchRow(pairingId);
+    if (!row) {
+      this.answers.delete(pairingId);
+      throw new Error('Pairing failed. Check the code and try again');
+    }
+    if (!row.sealed_key) {
+      if (!isExpired(row)) return false;
+      this.answers.delete(pairingId);
+      throw new Error('This pairing has expired');
+    }
+
+    const sealed = fromBase64(row.sealed_key);
+    const dataKey = gcm(sessionKey, sealed.subarray(0, NONCE_BYTES), this.pairingAad(pairingId))
+      .decrypt(sealed.subarray(NONCE_BYTES));
+    this.answers.delete(pairingId);
+    await keyVault.unlockWithTransferredKey(userId, Buffer.from(dataKey).toString('utf8'));
+
+    await supabase.from(TABLE).delete().eq('id', pairingId);
+    console.log('📲 Received data key from paired device');
+    return true;
+  }
+
+  // ---------- helpers ----------
+
+  private async fetchRow(pairingId: string): Promise<PairingRow | null> {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', pairingId)
+      .maybeSingle<PairingRow>();
+    if (error) throw error;
+    return data;
+  }
+
+  private deriveCodeKey(code: string, pairingId: string): Promise<Uint8Array> {
+    return scryptAsync(normalizeCode(code), `quill-pair-code:${pairingId}`, CODE_KDF);
+  }
+
+  private answerTag(codeKey: Uint8Array, offerKey: Uint8Array, answerKey: Uint8Array): Uint8Array {
+    return hmac(sha256, codeKey, Buffer.concat([Buffer.from('quill-pair-answer', 'utf8'), offerKey, answerKey]));
+  }
+
+  // Same on both sides: X25519 of one's private key with the other's public key
+  private sessionKey(userId: string, pairingId: string, session: Session, peerKey: Uint8Array): Uint8Array {
+    const shared = x25519.getSharedSecret(session.privateKey, peerKey);
+    return hkdf(sha256, shared, session.codeKey, `quill-pair-key:${userId}:${pairingId}`, 32);
+  }
+
+  private pairingAad(pairingId: string): Uint8Array {
+    return Buffer.from(`quill-pair:${pairingId}`, 'utf8');
+  }
+}
+
+const isExpired = (row: PairingRow): boolean => Date.parse(row.expires_at) <= Date.now();
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value: string): Uint8Array => Buffer.from(value, 'base64');
+
+export const devicePairing = new DevicePairing();
@@ -0,0 +1,173 @@
+// src/services/duplicates.ts
+import { Entry, Tag } from '@/types/journal';
+import { journalOf } from './repository';
+import { storageService } from './storage/sqliteStorage';
+
+const DISMISSED_KEY = 'duplicates_dismissed';
+const SIMILAR_TEXT_THRESHOLD = 0.85;
+const MIN_SIMILAR_WORDS = 5; // short notes are too easy to confuse
+
+// What two entries on the same day have in common
+export type DuplicateReason = 'same-text' | 'similar-text' | 'same-transcription' | 'same-photos';
+
+export interface DuplicatePair {
+  key: string;     // stable id for the pair, used to remember dismissals
+  date: string;
+  first: Entry;    // the one created first
+  second: Entry;
+  reasons: DuplicateReason[];
+  similarity: number; // 0..1, for ordering the most likely first
+}
+
+/** Lowercased words without punctuation, so re-saved or re-typed text compares equal. */
+export function normalizeText(text?: string): string {
+  return (text ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Share of distinct words the two texts have in common
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  if (wordsA.size < MIN_SIMILAR_WORDS || wordsB.size < MIN_SIMILAR_WORDS) return 0;
+  let shared = 0;
+  wordsA.forEach(w => { if (wordsB.has(w)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function pairKey(a: Entry, b: Entry): string {
+  return [a.id, b.id].sort().join(':');
+}
+
+/**
+ * Finds entries that look like the same moment saved twice (a double tap,
+ * an offline write replayed next to its original, an import run twice) and
+ * merges them. Works on decrypted entries already on the device.
+ */
+export class DuplicateService {
+  /** Candidate pairs among `entries`, most likely first. Pairs the user dismissed are left out. */
+  static async findDuplicates(entries: Entry[]): Promise<DuplicatePair[]> {
+    const dismissed = await DuplicateService.getDismissed();
+    return DuplicateService.detect(entries).filter(p => !dismissed.has(p.key));
+  }
+
+  /** Candidate pairs among `entries`. Only entries on the same date in the same journal are compared. */
+  static detect(entries: Entry[]): DuplicatePair[] {
+    const byDay = new Map<string, Entry[]>();
+    for (const entry of entries) {
+      if (entry.deleted) continue;
+      const key = `${journalOf(entry)}|${entry.date}`;
+      const day = byDay.get(key);
+      if (day) day.push(entry);
+      else byDay.set(key, [entry]);
+    }
+
+    const pairs: DuplicatePair[] = [];
+    byDay.forEach(day => {
+      for (let i = 0; i < day.length; i++) {
+        for (let j = i + 1; j < day.length; j++) {
+          const pair = DuplicateService.compare(day[i], day[j]);
+          if (pair) pairs.push(pair);
+        }
+      }
+    });
+
+    return pairs.sort((a, b) => b.similarity - a.similarity || b.date.localeCompare(a.date));
+  }
+
+  /**
+   * The updates that fold `other` into `keep`: tags and photos combined,
+   * the earliest creation time, and text, voice note or location taken
+   * from `other` where `keep` has none.
+   */
+  static mergeUpdates(keep: Entry, other: Entry): Partial<Entry> {
+    const tags: Tag[] = [...(keep.tags || [])];
+    for (const tag of other.tags || []) {
+      if (!tags.some(t => t.name === tag.name)) tags.push(tag);
+    }
+
+    const photoUris = [...(keep.photoUris || [])];
+    for (const uri of other.photoUris || []) {
+      if (!photoUris.includes(uri)) photoUris.push(uri);
+    }
+
+    const keepTitle = keep.title?.trim() && keep.title !== 'Untitled' ? keep.title : undefined;
+
+    return {
+      title: keepTitle ?? other.title ?? keep.title,
+      body: keep.body?.trim() ? keep.body : other.body,
+      transcription: keep.transcription?.trim() ? keep.transcription : other.transcription,
+      audioUri: keep.audioUri ?? other.audioUri,
+      locationData: keep.locationData ?? other.locationData,
+      tags,
+      photoUris,
+      hasPhotos: photoUris.length > 0,
+      createdAt: keep.createdAt <= other.createdAt ? keep.createdAt : other.createdAt,
+    };
+  }
+
+  /** Stop suggesting this pair. */
+  static async dismiss(pair: DuplicatePair): Promise<void> {
+    const dismissed = await DuplicateService.getDismissed();
+    dismissed.add(pair.key);
+    await storageService.setSetting(DISMISSED_KEY, JSON.stringify([...dismissed]));
+  }
+
+  private static compare(a: Entry, b: Entry): DuplicatePair | null {
+    // Conflicted copies are reviewed on their own screen
+    if (a.conflictOf === b.id || b.conflictOf === a.id) return null;
+
+    const reasons: DuplicateReason[] = [];
+    let similarity = 0;
+
+    const textA = normalizeText(a.body);
+    const textB = normalizeText(b.body);
+    if (textA && textA === textB) {
+      reasons.push('same-text');
+      similarity = 1;
+    } else if (textA && textB) {
+      const score = wordSimilarity(textA, textB);
+      if (score >= SIMILAR_TEXT_THRESHOLD) {
+        reasons.push('similar-text');
+        similarity = score;
+      }
+    }
+
+    const spokenA = normalizeText(a.transcription);
+    if (spokenA && spokenA === normalizeText(b.transcription)) {
+      reasons.push('same-transcription');
+      similarity = Math.max(similarity, 1);
+    }
+
+    const photosA = a.photoUris || [];
+    const photosB = b.photoUris || [];
+    if (photosA.length > 0 && photosA.length === photosB.length && photosA.every(uri => photosB.includes(uri))) {
+      reasons.push('same-photos');
+      similarity = Math.max(similarity, 0.9);
+    }
+
+    if (reasons.length === 0) return null;
+
+    // Text and photos that disagree make it two different moments
+    const photosDiffer = photosA.length > 0 && photosB.length > 0 && !reasons.includes('same-photos')
+      && !photosA.some(uri => photosB.includes(uri));
+    if (photosDiffer && !reasons.includes('same-text')) return null;
+
+    const [first, second] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+    return { key: pairKey(a, b), date: a.date, first, second, reasons, similarity };
+  }
+
+  private static async getDismissed(): Promise<Set<string>> {
+    const json = await storageService.getSetting(DISMISSED_KEY).catch(() => null);
+    if (!json) return new Set();
+    try {
+      const keys = JSON.parse(json);
+      return new Set(Array.isArray(keys) ? keys : []);
+    } catch {
+      return new Set();
+    }
+  }
+}
@@ -1,18 +1,55 @@
 // src/services/encryption.ts
+import { gcm } from '@noble/ciphers/aes';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Buffer } from 'buffer';
+import * as Crypto from 'expo-crypto';
 
 const STORAGE_KEY = 'journal_encryption_key';
+const PROTECTED_KEY = 'journal_key_protected'; // set once a passphrase guards the user's data key
+const CHECKED_KEY = 'journal_key_checked'; // set once the server has said whether it does
+const LOCKED_MESSAGE = 'JournalLockedError: Enter your passphrase to unlock your journal';
+const UNCHECKED_MESSAGE = 'JournalLockedError: Go online once so your journal key can be checked';
+
+// Envelope: "v2:<algorithm>:<key id>:<base64 of nonce + ciphertext + tag>".
+// The header is authenticated too, so it cannot be swapped on a blob.
+// Anything without the prefix is the legacy XOR format.
+const ENVELOPE_VERSION = 'v2';
+const ALGORITHM = 'aes256gcm';
+const NONCE_BYTES = 12;
+
+type DerivedKey = { keyId: string; aesKey: Uint8Array };
+
+/** True when an operation failed because the passphrase-protected key is locked. */
+export function isJournalLockedError(error: unknown): boolean {
+  return String((error as any)?.message ?? error ?? '').startsWith('JournalLockedError');
+}
 
 export class EncryptionService {
   private static encryptionKey: string | null = null;
+  private static keyUserId: string | null = null;
+  private static retiredKeys: string[] = []; // earlier data keys, still read until nothing uses them
+  private static derivedKeys = new Map<string, DerivedKey>();
 
   /**
-   * Generate or retrieve the user's encryption key
+   * The key new data is encrypted with: the passphrase-protected data key
+   * once unlocked, otherwise the legacy per-user key. Throws a
+   * JournalLockedError while a protected key is locked.
    */
   private static async getEncryptionKey(userId: string): Promise<string> {
-    if (this.encryptionKey) return this.encryptionKey;
+    if (this.encryptionKey && this.keyUserId === userId) return this.encryptionKey;
+    if (await this.isProtected(userId)) throw new Error(LOCKED_MESSAGE);
 
+    const key = await this.getLegacyKey(userId);
+    this.encryptionKey = key;
+    this.keyUserId = userId;
+    return key;
+  }
+
+  /**
+   * Generate or retrieve the user's legacy key, which everything was
+   * encrypted with before the user set a passphrase
+   */
+  private static async getLegacyKey(userId: string): Promise<string> {
     const storageKey = `${STORAGE_KEY}_${userId}`;
     let key = await AsyncStorage.getItem(storageKey);
 
@@ -23,10 +60,59 @@ export class EncryptionService {
       console.log('Generated new deterministic encryption key for user');
     }
 
-    this.encryptionKey = key;
     return key;
   }
 
+  /** True once the user's data key is protected by a passphrase, on this device or another. */
+  static async isProtected(userId: string): Promise<boolean> {
+    return (await AsyncStorage.getItem(`${PROTECTED_KEY}_${userId}`)) === 'true';
+  }
+
+  /**
+   * Record that the user's data key is passphrase-protected, locking it
+   * until the key vault unlocks it.
+   */
+  static async markProtected(userId: string): Promise<void> {
+    await AsyncStorage.setItem(`${PROTECTED_KEY}_${userId}`, 'true');
+    if (this.keyUserId === userId) this.clearKey();
+  }
+
+  /**
+   * Record that the key vault has asked the server whether the user has a
+   * passphrase. Until then nothing is encrypted with the legacy key: on a
+   * new device an account protected elsewhere looks unprotected.
+   */
+  static async markKeyChecked(userId: string): Promise<void> {
+    await AsyncStorage.setItem(`${CHECKED_KEY}_${userId}`, 'true');
+  }
+
+  /**
+   * Encrypt and decrypt with `dataKey`, unwrapped by the key vault, from
+   * now on. Blobs tagged with one of `retiredKeys` stay readable, so a key
+   * rotation can rewrite them in the background.
+   */
+  static async setDataKey(userId: string, dataKey: string, retiredKeys: string[] = []): Promise<void> {
+    await AsyncStorage.setItem(`${PROTECTED_KEY}_${userId}`, 'true');
+    this.encryptionKey = dataKey;
+    this.keyUserId = userId;
+    this.retiredKeys = retiredKeys;
+  }
+
+  /** The unlocked data key, for the key vault to re-wrap; null while locked or unprotected. */
+  static async getUnlockedDataKey(userId: string): Promise<string | null> {
+    if (this.keyUserId !== userId || !this.encryptionKey) return null;
+    return (await this.isProtected(userId)) ? this.encryptionKey : null;
+  }
+
+  /** Id of the key new data is encrypted with, as written in each envelope. */
+  static async currentKeyId(userId: string): Promise<string> {
+    return this.keyIdOf(await this.getEncryptionKey(userId));
+  }
+
+  static async keyIdOf(key: string): Promise<string> {
+    return (await this.deriveKey(key)).keyId;
+  }
+
   /**
    * Generate a deterministic key from userId (always the same for the same user)
    */
@@ -51,50 +137,159 @@ export class EncryptionService {
     return key;
   }
 
+  /**
+   * Encrypt `data` as JSON with AES-256-GCM under a fresh random nonce,
+   * in the versioned envelope.
+   */
   static async encrypt(data: any, userId: string): Promise<string> {
     try {
       const key = await this.getEncryptionKey(userId);
-      const jsonString = JSON.stringify(data);
-      
-      const encoder = new TextEncoder();
-      const jsonBytes = encoder.encode(jsonString);
-      
-      const encrypted = new Uint8Array(jsonBytes.length);
-      for (let i = 0; i < jsonBytes.length; i++) {
-        const keyChar = key.charCodeAt(i % key.length);
-        encrypted[i] = jsonBytes[i] ^ keyChar;
+      if (!(await this.isProtected(userId)) && (await AsyncStorage.getItem(`${CHECKED_KEY}_${userId}`)) !== 'true') {
+        throw new Error(UNCHECKED_MESSAGE);
       }
-      
-      return Buffer.from(encrypted).toString('base64');
+      const { keyId, aesKey } = await this.deriveKey(key);
+      const header = `${ENVELOPE_VERSION}:${ALGORITHM}:${keyId}`;
+
+      const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+      const plaintext = new TextEncoder().encode(JSON.stringify(data));
+      const sealed = gcm(aesKey, nonce, new TextEncoder().encode(header)).encrypt(plaintext);
+
+      return `${header}:${Buffer.concat([nonce, sealed]).toString('base64')}`;
     } catch (error) {
+      if (isJournalLockedError(error)) throw error;
       console.error('Encryption failed:', error);
       throw new Error('Failed to encrypt journal data');
     }
   }
 
+  /**
+   * True when `encryptedData` is in the legacy XOR format or under a key
+   * other than the current one, so the re-encryption pass rewrites it.
+   */
+  static async needsReencryption(encryptedData: string, userId: string): Promise<boolean> {
+    if (this.isLegacyFormat(encryptedData)) return true;
+    return encryptedData.split(':')[2] !== await this.currentKeyId(userId);
+  }
+
   static async decrypt(encryptedData: string, userId: string): Promise<any> {
     try {
       const key = await this.getEncryptionKey(userId);
-      
-      const encrypted = Buffer.from(encryptedData, 'base64');
-      
-      const decrypted = new Uint8Array(encrypted.length);
-      for (let i = 0; i < encrypted.length; i++) {
-        const keyChar = key.charCodeAt(i % key.length);
-        decrypted[i] = encrypted[i] ^ keyChar;
+      // Envelopes name their key, so blobs from before a rotation still open
+      if (!this.isLegacyFormat(encryptedData)) {
+        return await this.decryptWithKey(encryptedData, await this.keyForId(encryptedData.split(':')[2], key, userId));
+      }
+      try {
+        return await this.decryptWithKey(encryptedData, key);
+      } catch (error) {
+        // Written before the user protected their data key with a passphrase
+        const legacyKey = await this.getLegacyKey(userId);
+        if (legacyKey === key) throw error;
+        return await this.decryptWithKey(encryptedData, legacyKey);
       }
-      
-      const decoder = new TextDecoder();
-      const jsonString = decoder.decode(decrypted);
-      
-      return JSON.parse(jsonString);
     } catch (error) {
+      if (isJournalLockedError(error)) throw error;
       console.error('Decryption failed:', error);
       throw new Error('Failed to decrypt journal data');
     }
   }
 
+  /**
+   * Try every other key this device knows: the one derived from the user
+   * id and any stored for other accounts on this device (the in-memory key
+   * used to survive switching accounts). For recovering unreadable entries;
+   * throws if none of them works.
+   */
+  static async decryptWithAlternateKeys(encryptedData: string, userId: string): Promise<any> {
+    const current = await this.getEncryptionKey(userId);
+    const storedKeys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(`${STORAGE_KEY}_`));
+    const stored = storedKeys.length ? await AsyncStorage.multiGet(storedKeys) : [];
+
+    const candidates = new Set<string>([this.generateDeterministicKey(userId)]);
+    stored.forEach(([, key]) => key && candidates.add(key));
+    candidates.delete(current);
+
+    for (const key of candidates) {
+      try {
+        const data = await this.decryptWithKey(encryptedData, key);
+        if (data && typeof data === 'object' && !Array.isArray(data)) return data;
+      } catch {
+        // Wrong key; try the next one
+      }
+    }
+    throw new Error('No known key decrypts this data');
+  }
+
+  /**
+   * The known key with id `keyId`: the current one, a retired one or the
+   * legacy one. Falls back to the current key, which then fails to decrypt.
+   */
+  private static async keyForId(keyId: string, current: string, userId: string): Promise<string> {
+    const retired = this.keyUserId === userId ? this.retiredKeys : [];
+    for (const key of [current, ...retired, await this.getLegacyKey(userId)]) {
+      if ((await this.deriveKey(key)).keyId === keyId) return key;
+    }
+    return current;
+  }
+
+  private static async decryptWithKey(encryptedData: string, key: string): Promise<any> {
+    if (this.isLegacyFormat(encryptedData)) return this.decryptLegacy(encryptedData, key);
+
+    const [version, algorithm, keyId, payload] = encryptedData.split(':');
+    if (version !== ENVELOPE_VERSION || algorithm !== ALGORITHM || !payload) {
+      throw new Error(`Unsupported envelope: ${version}:${algorithm}`);
+    }
+    const derived = await this.deriveKey(key);
+    if (derived.keyId !== keyId) throw new Error('Encrypted with a different key');
+
+    const sealed = Buffer.from(payload, 'base64');
+    const header = new TextEncoder().encode(`${version}:${algorithm}:${keyId}`);
+    // Throws if the ciphertext or header was altered
+    const plaintext = gcm(derived.aesKey, sealed.subarray(0, NONCE_BYTES), header)
+      .decrypt(sealed.subarray(NONCE_BYTES));
+
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+
+  private static isLegacyFormat(encryptedData: string): boolean {
+    return !encryptedData.startsWith(`${ENVELOPE_VERSION}:`);
+  }
+
+  private static decryptLegacy(encryptedData: string, key: string): any {
+    const encrypted = Buffer.from(encryptedData, 'base64');
+
+    const decrypted = new Uint8Array(encrypted.length);
+    for (let i = 0; i < encrypted.length; i++) {
+      const keyChar = key.charCodeAt(i % key.length);
+      decrypted[i] = encrypted[i] ^ keyChar;
+    }
+
+    const decoder = new TextDecoder();
+    const jsonString = decoder.decode(decrypted);
+
+    return JSON.parse(jsonString);
+  }
+
+  /**
+   * The AES key and public key id for a stored key. Both are hashes of it
+   * under different labels, so the id says nothing about the key itself.
+   */
+  private static async deriveKey(key: string): Promise<DerivedKey> {
+    let derived = this.derivedKeys.get(key);
+    if (!derived) {
+      const [aesHex, idHex] = await Promise.all([
+        Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `quill-aes-key:${key}`),
+        Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `quill-key-id:${key}`),
+      ]);
+      derived = { aesKey: Buffer.from(aesHex, 'hex'), keyId: idHex.slice(0, 16) };
+      this.derivedKeys.set(key, derived);
+    }
+    return derived;
+  }
+
   static clearKey(): void {
     this.encryptionKey = null;
+    this.keyUserId = null;
+    this.retiredKeys = [];
+    this.derivedKeys.clear();
   }
 }
\ No newline at end of file
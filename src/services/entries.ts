@@ -1,198 +1,79 @@
 // src/services/entries.ts - Working encrypted version using crypto-js
 import { supabase } from '@/services/supabase';
-import { Entry, GroupedEntries, LocationData, Mood, Tag } from '@/types/journal';
+import { Entry, EntryPage, GroupedEntries } from '@/types/journal';
 import { generateId } from '@/utils/id';
 import { formatDate, startOfWeek } from './dates';
 import { ImageUploadService, isLocalUri } from './imageUpload';
-import { EncryptionService } from './encryption';
+import { ConflictResolution, mergeEntryUpdates } from './conflicts';
+import { EncryptionService, isJournalLockedError } from './encryption';
+import { entryCache } from './entryCache';
+import { entryOutbox, isNetworkError, OUTBOX_FLUSHED_EVENT, OutboxOperation } from './outbox';
+import {
+  BulkEdit, bulkEditUpdates, CreateEntryInput, draftEntry, ENTRY_PAGE_SIZE, EntryPageOptions, EntryRepository, groupByDay,
+  inJournal, isBeforeCursor, resolveConflictIn, sortTrash,
+} from './repository';
+import { listStoredPage } from './repository/localRepository';
+import { currentUserId as uid, EntryRow, fromRow, purgeEntryRow, toRow, uploadLocalPhotos } from './repository/rows';
+import { storageService } from './storage/sqliteStorage';
+import { SyncCursor } from './syncCursor';
 import analytics from '@/utils/analytics';
+import { DeviceEventEmitter } from 'react-native';
 
 const TABLE = 'entries';
+const SYNC_SCOPE = 'entries';
+const SYNC_OWNER_KEY = 'sync_owner';
+const SYNC_PAGE_SIZE = 500;
+const MAX_WRITE_ATTEMPTS = 3;
+// Ids per `.in()` filter, to keep bulk requests' URLs short
+const BULK_CHUNK_SIZE = 100;
+
+/**
+ * The hybrid backend: reads come from the on-device mirror kept fresh by a
+ * delta sync, writes go to Supabase and fall back to the outbox offline.
+ */
+export class EntriesService implements EntryRepository {
+  readonly mode = 'hybrid' as const;
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async createEntry(data: CreateEntryInput): Promise<Entry> {
+    const userId = await uid();
+    const entry = draftEntry(data);
 
-type EntryRow = {
-  id: string;
-  user_id: string;
-  entry_date: string;
-  mood_score: number | null;
-  has_photos: boolean | null;
-  location_data: any | null;
-  encrypted_blob: any; // Will be string when encrypted, object when legacy
-  created_at: string;
-  updated_at: string;
-  tombstoned: boolean | null;
-};
-
-// ---------- helpers ----------
-
-async function uid(): Promise<string> {
-  const { data, error } = await supabase.auth.getUser();
-  if (error) throw error;
-  const id = data.user?.id;
-  if (!id) throw new Error('AuthSessionMissingError: Not authenticated');
-  return id;
-}
-
-async function toRow(userId: string, e: Entry): Promise<EntryRow> {
-  // Create sensitive data object to encrypt
-  const sensitiveData = {
-    title: e.title,
-    body: e.body,
-    photoUris: e.photoUris,
-    tags: e.tags,
-    audioUri: e.audioUri,
-    transcription: e.transcription,
-    // themes: e.themes,
-    // sentiment: e.sentiment,
-  };
-
-  // Encrypt the sensitive data
-  const encryptedBlob = await EncryptionService.encrypt(sensitiveData, userId);
-
-  return {
-    id: e.id,
-    user_id: userId,
-    entry_date: e.date,
-    mood_score: e.mood ?? null,
-    has_photos: e.hasPhotos ?? ((e.photoUris?.length ?? 0) > 0),
-    location_data: e.locationData ?? null,
-    encrypted_blob: encryptedBlob,
-    created_at: e.createdAt,
-    updated_at: e.updatedAt,
-    tombstoned: !!e.deleted,
-  };
-}
-
-async function fromRow(r: EntryRow, userId: string): Promise<Entry> {
-  let decryptedData: any = {};
-  
-  // Check if this is legacy format (object) or encrypted format (string)
-  if (typeof r.encrypted_blob === 'string') {
-    // Encrypted format - try to decrypt but don't fail if it's corrupted
+    let saved: Entry;
     try {
-      decryptedData = await EncryptionService.decrypt(r.encrypted_blob, userId);
-    } catch (decryptError) {
-      // Corrupted encrypted entry - return a placeholder entry
-      console.warn(`⚠️ Corrupted encrypted entry ${r.id} - skipping`);
-      return {
-        id: r.id,
-        createdAt: r.created_at,
-        updatedAt: r.updated_at,
-        date: r.entry_date,
-        title: '⚠️ Corrupted Entry',
-        body: 'This entry was encrypted with a lost key and cannot be recovered.',
-        mood: (r.mood_score ?? 3) as any,
-        tags: [],
-        photoUris: [],
-        hasPhotos: false,
-        locationData: r.location_data as any,
-        deleted: !!r.tombstoned,
-      };
+      saved = await this.pushNewEntry(userId, entry);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      console.warn('createEntry -> offline, queued for replay:', entry.id);
+      await this.enqueue(userId, { kind: 'create', entry });
+      await storageService.addEntry(entry);
+      saved = entry;
     }
-  } else if (typeof r.encrypted_blob === 'object' && r.encrypted_blob !== null) {
-    // Legacy unencrypted format
-    console.log(`Reading legacy unencrypted entry: ${r.id}`);
-    decryptedData = r.encrypted_blob;
-  } else {
-    // Neither encrypted string nor object - corrupted data
-    console.warn(`⚠️ Invalid entry format ${r.id}`);
-    return {
-      id: r.id,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-      date: r.entry_date,
-      title: '⚠️ Invalid Entry',
-      body: 'This entry has an invalid format.',
-      mood: (r.mood_score ?? 3) as any,
-      tags: [],
-      photoUris: [],
-      hasPhotos: false,
-      locationData: r.location_data as any,
-      deleted: !!r.tombstoned,
-    };
-  }
 
-  return {
-    id: r.id,
-    createdAt: r.created_at,
-    updatedAt: r.updated_at,
-    date: r.entry_date,
-    title: decryptedData.title || 'Untitled',
-    body: decryptedData.body,
-    mood: (r.mood_score ?? decryptedData.mood ?? 3) as any,
-    tags: decryptedData.tags ?? [],
-    photoUris: decryptedData.photoUris ?? [],
-    hasPhotos: r.has_photos ?? ((decryptedData.photoUris?.length ?? 0) > 0),
-    locationData: (r.location_data as any) ?? decryptedData.locationData,
-    audioUri: decryptedData.audioUri,
-    transcription: decryptedData.transcription,
-    deleted: !!r.tombstoned,
-  };
-}
+    analytics.logEntryCreated(
+      saved.id,
+      (saved.title?.length || 0) + (saved.body?.length || 0),
+      saved.date,
+      saved.transcription ? 'voice' : 'manual',
+      saved.createdAt,
+      saved.hasPhotos || false,
+      !!saved.locationData,
+      saved.tags?.length || 0
+    );
 
-// ---------- service ----------
+    return saved;
+  }
 
-export class EntriesService {
   /**
-   * Upload local images and return remote URLs
+   * Upload photos and write a new entry row. Shared by createEntry and
+   * outbox replay, so the entry keeps the id it was given offline.
    */
-  private async processImages(photoUris: string[], entryId: string): Promise<string[]> {
-    if (!photoUris.length) return [];
-
-    const userId = await uid();
-    const processedUris: string[] = [];
-
-    for (const uri of photoUris) {
-      if (isLocalUri(uri)) {
-        try {
-          const remoteUrl = await ImageUploadService.uploadImage(uri, userId, entryId);
-          processedUris.push(remoteUrl);
-          console.log('Uploaded image:', uri, '->', remoteUrl);
-        } catch (error) {
-          console.error('Failed to upload image:', uri, error);
-        }
-      } else {
-        processedUris.push(uri);
-      }
-    }
-
-    return processedUris;
-  }
-
-  async createEntry(data: {
-    title?: string;
-    body?: string;
-    mood?: Mood;
-    tags?: Tag[];
-    photoUris?: string[];
-    hasPhotos?: boolean;
-    locationData?: LocationData;
-    audioUri?: string;
-    transcription?: string;
-    sentiment?: any;
-    themes?: string[];
-    date?: string;
-    createdAt?: string;
-  }): Promise<Entry> {
-    const userId = await uid();
-    const now = new Date();
-    const entryId = generateId();
-    const uploadedPhotoUris = await this.processImages(data.photoUris || [], entryId);
-
+  private async pushNewEntry(userId: string, draft: Entry): Promise<Entry> {
+    const uploadedPhotoUris = await uploadLocalPhotos(draft.photoUris || [], draft.id, userId);
     const entry: Entry = {
-      id: entryId,
-      createdAt: data.createdAt || now.toISOString(),
-      updatedAt: now.toISOString(),
-      date: data.date || formatDate(now),
-      title: data.title?.trim(),
-      body: data.body?.trim(),
-      mood: data.mood ?? 3,
-      tags: data.tags || [],
+      ...draft,
       photoUris: uploadedPhotoUris,
       hasPhotos: uploadedPhotoUris.length > 0,
-      locationData: data.locationData,
-      audioUri: data.audioUri,
-      transcription: data.transcription,
-      deleted: false,
     };
 
     console.log('Creating encrypted entry:', {
@@ -210,9 +91,6 @@ export class EntriesService {
       id: payload.id,
       user_id: payload.user_id,
       entry_date: payload.entry_date,
-      mood_score: payload.mood_score,
-      has_photos: payload.has_photos,
-      location_is_null: payload.location_data == null,
       blob_is_encrypted: typeof payload.encrypted_blob === 'string',
       blob_length: payload.encrypted_blob.length,
       tombstoned: payload.tombstoned,
@@ -238,67 +116,35 @@ export class EntriesService {
       detectedMethod: entry.transcription ? 'voice' : 'manual'
     });
 
-    analytics.logEntryCreated(
-      entry.id,
-      (entry.title?.length || 0) + (entry.body?.length || 0),
-      entry.date,
-      entry.transcription ? 'voice' : 'manual',
-      entry.createdAt,
-      entry.hasPhotos || false,
-      !!entry.locationData,
-      entry.tags?.length || 0
-    );
-
-    return fromRow(upserted, userId);
+    const saved = await fromRow(upserted, userId);
+    await this.mirror([saved]);
+    return saved;
   }
 
-  async updateEntry(id: string, updates: Partial<Entry>): Promise<Entry | null> {
+  /**
+   * Update an entry. `base` is the version the edit started from; when the
+   * server row has moved on since then the edit is merged field by field,
+   * and anything that cannot be merged is saved as a conflicted copy.
+   * Without `base` the local mirror's copy is used.
+   */
+  async updateEntry(id: string, updates: Partial<Entry>, base?: Entry): Promise<Entry | null> {
     const userId = await uid();
+    const baseVersion = base ?? (await storageService.getEntry(id)) ?? undefined;
 
-    const { data: row, error: getErr } = await supabase
-      .from(TABLE)
-      .select('*')
-      .eq('id', id)
-      .eq('user_id', userId)
-      .maybeSingle<EntryRow>();
-    if (getErr) throw getErr;
-    if (!row) return null;
-
-    const current = await fromRow(row, userId);
-    let finalPhotoUris = current.photoUris || [];
-  
-    if (updates.photoUris) {
-      const processedUris = await this.processImages(updates.photoUris, id);
-      
-      const removedImages = (current.photoUris || []).filter(uri => 
-        !processedUris.includes(uri) && !isLocalUri(uri)
-      );
-      
-      if (removedImages.length > 0) {
-        await ImageUploadService.deleteImages(removedImages);
-      }
-      
-      finalPhotoUris = processedUris;
+    // Queue behind earlier offline writes for this entry to keep them in order
+    if (await this.hasPending(userId, id)) {
+      return this.queueUpdate(userId, id, updates, baseVersion);
     }
 
-    const merged: Entry = {
-      ...current,
-      ...updates,
-      id: current.id,
-      createdAt: updates.createdAt || current.createdAt,
-      updatedAt: new Date().toISOString(),
-      photoUris: finalPhotoUris, 
-      hasPhotos: finalPhotoUris.length > 0,
-    };
-
-    const { data: updated, error } = await supabase
-      .from(TABLE)
-      .upsert(await toRow(userId, merged), { onConflict: 'id' })
-      .select('*')
-      .single<EntryRow>();
-    if (error) throw error;
+    let updatedEntry: Entry | null;
+    try {
+      updatedEntry = await this.pushUpdate(userId, id, updates, baseVersion);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      return this.queueUpdate(userId, id, updates, baseVersion);
+    }
+    if (!updatedEntry) return null;
 
-    const updatedEntry = await fromRow(updated, userId);
     analytics.logTrack('entry_updated', {
       entry_id: updatedEntry.id,
       entry_date: updatedEntry.date,
@@ -310,16 +156,160 @@ export class EntriesService {
     return updatedEntry
   }
 
+  private async queueUpdate(
+    userId: string,
+    id: string,
+    updates: Partial<Entry>,
+    base?: Entry
+  ): Promise<Entry | null> {
+    console.warn('updateEntry -> offline, queued for replay:', id);
+    await this.enqueue(userId, { kind: 'update', entryId: id, updates, base });
+
+    const local = await storageService.getEntry(id);
+    if (!local) return null;
+    const optimistic: Entry = { ...local, ...updates, id, updatedAt: new Date().toISOString() };
+    await storageService.updateEntry(optimistic);
+    return optimistic;
+  }
+
+  private async pushUpdate(
+    userId: string,
+    id: string,
+    updates: Partial<Entry>,
+    base?: Entry
+  ): Promise<Entry | null> {
+    // Upload new photos once, up front, so write retries don't re-upload them
+    const localUpdates: Partial<Entry> = updates.photoUris
+      ? { ...updates, photoUris: await uploadLocalPhotos(updates.photoUris, id, userId) }
+      : updates;
+
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const { data: row, error: getErr } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle<EntryRow>();
+      if (getErr) throw getErr;
+      if (!row) return null;
+
+      const current = await fromRow(row, userId);
+
+      let effective = localUpdates;
+      let conflicts: (keyof Entry)[] = [];
+      if (base && row.updated_at !== base.updatedAt) {
+        ({ merged: effective, conflicts } = mergeEntryUpdates(base, current, localUpdates));
+        console.log(`🔀 updateEntry -> ${id} changed elsewhere, merged`, {
+          mergedFields: Object.keys(effective),
+          conflicts,
+        });
+      }
+
+      const finalPhotoUris = effective.photoUris ?? current.photoUris ?? [];
+      const merged: Entry = {
+        ...current,
+        ...effective,
+        id: current.id,
+        createdAt: effective.createdAt || current.createdAt,
+        updatedAt: new Date().toISOString(),
+        photoUris: finalPhotoUris,
+        hasPhotos: finalPhotoUris.length > 0,
+      };
+
+      // Compare-and-swap on updated_at: only write if nobody else has since
+      const { data: updated, error } = await supabase
+        .from(TABLE)
+        .update(await toRow(userId, merged))
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('updated_at', row.updated_at)
+        .select('*')
+        .maybeSingle<EntryRow>();
+      if (error) throw error;
+      if (!updated) {
+        console.log(`🔁 updateEntry -> ${id} changed during write, retrying`);
+        continue;
+      }
+
+      // Only files in this entry's folder are its own to delete
+      const removedImages = (current.photoUris || []).filter(uri =>
+        !finalPhotoUris.includes(uri) && !isLocalUri(uri) && uri.includes(`/${userId}/${id}/`)
+      );
+      if (removedImages.length > 0) {
+        await ImageUploadService.deleteImages(removedImages);
+      }
+
+      const updatedEntry = await fromRow(updated, userId);
+      await this.mirror([updatedEntry]);
+
+      if (conflicts.length > 0) {
+        await this.saveConflictedCopy(userId, { ...current, ...localUpdates }, id, conflicts);
+      }
+      return updatedEntry;
+    }
+
+    throw new Error('Entry kept changing on another device; please try saving again');
+  }
+
+  /**
+   * Keep this device's version of an edit that could not be merged as a
+   * separate entry pointing back at the original.
+   */
+  private async saveConflictedCopy(
+    userId: string,
+    localVersion: Entry,
+    originalId: string,
+    conflicts: (keyof Entry)[]
+  ): Promise<Entry> {
+    const now = new Date().toISOString();
+    const copy = await this.pushNewEntry(userId, {
+      ...localVersion,
+      id: generateId(),
+      updatedAt: now,
+      conflictOf: originalId,
+      deleted: false,
+    });
+
+    console.warn(`⚠️ updateEntry -> conflict on ${originalId}, saved copy ${copy.id}`);
+    analytics.logTrack('entry_conflict', {
+      entry_id: originalId,
+      copy_id: copy.id,
+      conflicting_fields: conflicts.join(','),
+    });
+    return copy;
+  }
+
+  /**
+   * Settle a conflicted copy: adopt its content into the original, discard
+   * it, or keep both as independent entries.
+   */
+  async resolveConflict(copyId: string, resolution: ConflictResolution): Promise<Entry | null> {
+    return resolveConflictIn(this, copyId, resolution);
+  }
+
   async deleteEntry(id: string): Promise<void> {
     const userId = await uid();
     // Get entry details before deleting for analytics
-    const entryToDelete = await this.getEntry(id);
+    const entryToDelete = await storageService.getEntry(id);
 
-    const { error } = await supabase
-      .from(TABLE)
-      .update({ tombstoned: true, updated_at: new Date().toISOString() })
-      .eq('id', id)
-      .eq('user_id', userId);
+    let error: unknown = null;
+    let queued = await this.hasPending(userId, id);
+    if (!queued) {
+      try {
+        await this.pushDelete(userId, id);
+      } catch (deleteError) {
+        if (isNetworkError(deleteError)) queued = true;
+        else error = deleteError;
+      }
+    }
+    if (queued) {
+      console.warn('deleteEntry -> offline, queued for replay:', id);
+      await this.enqueue(userId, { kind: 'delete', entryId: id });
+    }
+    if (!error) {
+      await storageService.deleteEntry(id);
+      await entryCache.remove(userId, [id]);
+    }
     
     analytics.logTrack('entry_deleted', {
       entry_id: id,
@@ -332,6 +322,344 @@ export class EntriesService {
     if (error) throw error;
   }
 
+  private async pushDelete(userId: string, id: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ tombstoned: true, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId);
+    if (error) throw error;
+  }
+
+  /**
+   * Apply one edit to many entries. Each entry is written only if it is
+   * unchanged since it was read, and one edited elsewhere in the meantime
+   * goes through pushUpdate's merge like a single update. Entries with
+   * offline writes still queued, or all of them when offline, go through
+   * the outbox one by one so they replay in order.
+   */
+  async bulkUpdateEntries(ids: string[], edit: BulkEdit): Promise<Entry[]> {
+    const userId = await uid();
+    const pending = await this.pendingIds(userId);
+    const direct = ids.filter(id => !pending.has(id));
+    let queued = ids.filter(id => pending.has(id));
+
+    const changed: Entry[] = [];
+    if (direct.length > 0) {
+      try {
+        changed.push(...await this.pushBulkUpdate(userId, direct, edit));
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        queued = ids;
+      }
+    }
+
+    for (const id of queued) {
+      const local = await storageService.getEntry(id);
+      const updates = local ? bulkEditUpdates(local, edit) : null;
+      if (!local || !updates) continue;
+      const optimistic = await this.queueUpdate(userId, id, updates, local);
+      if (optimistic) changed.push(optimistic);
+    }
+
+    analytics.logTrack('entries_bulk_updated', {
+      edit_kind: edit.kind,
+      selected_count: ids.length,
+      changed_count: changed.length,
+      queued_count: queued.length,
+    });
+    return changed;
+  }
+
+  private async pushBulkUpdate(userId: string, ids: string[], edit: BulkEdit): Promise<Entry[]> {
+    const saved: Entry[] = [];
+    for (let i = 0; i < ids.length; i += BULK_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('tombstoned', false)
+        .in('id', ids.slice(i, i + BULK_CHUNK_SIZE));
+      if (error) throw error;
+
+      for (const row of (data as EntryRow[]) || []) {
+        let current: Entry;
+        try {
+          current = await fromRow(row, userId);
+        } catch (decryptError) {
+          if (isJournalLockedError(decryptError)) throw decryptError;
+          console.error('Failed to process entry:', row.id, decryptError);
+          continue;
+        }
+
+        const updates = bulkEditUpdates(current, edit);
+        if (!updates) continue;
+
+        // Compare-and-swap on updated_at, as in pushUpdate
+        const edited: Entry = { ...current, ...updates, updatedAt: new Date().toISOString() };
+        const { data: updated, error: updateError } = await supabase
+          .from(TABLE)
+          .update(await toRow(userId, edited))
+          .eq('id', row.id)
+          .eq('user_id', userId)
+          .eq('updated_at', row.updated_at)
+          .select('*')
+          .maybeSingle<EntryRow>();
+        if (updateError) throw updateError;
+
+        if (updated) {
+          const entry = await fromRow(updated, userId);
+          await this.mirror([entry]);
+          saved.push(entry);
+          continue;
+        }
+
+        console.log(`🔁 Bulk ${edit.kind} -> ${row.id} changed during write, merging`);
+        const merged = await this.pushUpdate(userId, row.id, updates, current);
+        if (merged) saved.push(merged);
+      }
+    }
+
+    console.log(`📦 Bulk ${edit.kind}: ${saved.length} of ${ids.length} entries changed`);
+    return saved;
+  }
+
+  /**
+   * Move many entries to the trash a chunk of ids per request, falling back
+   * to the outbox like deleteEntry.
+   */
+  async bulkDeleteEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const userId = await uid();
+    const pending = await this.pendingIds(userId);
+    let queued = ids.filter(id => pending.has(id));
+    const direct = ids.filter(id => !pending.has(id));
+
+    if (direct.length > 0) {
+      try {
+        for (let i = 0; i < direct.length; i += BULK_CHUNK_SIZE) {
+          const { error } = await supabase
+            .from(TABLE)
+            .update({ tombstoned: true, updated_at: new Date().toISOString() })
+            .in('id', direct.slice(i, i + BULK_CHUNK_SIZE))
+            .eq('user_id', userId);
+          if (error) throw error;
+        }
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        queued = ids;
+      }
+    }
+
+    for (const id of queued) {
+      await this.enqueue(userId, { kind: 'delete', entryId: id });
+    }
+    for (const id of ids) {
+      await storageService.deleteEntry(id);
+    }
+    await entryCache.remove(userId, ids);
+
+    if (queued.length > 0) console.warn(`bulkDeleteEntries -> ${queued.length} queued for replay`);
+    analytics.logTrack('entries_bulk_deleted', {
+      selected_count: ids.length,
+      queued_count: queued.length,
+    });
+  }
+
+  /**
+   * Deleted entries, most recently deleted first. Read from the server when
+   * it can be reached, otherwise from the tombstones in the local mirror.
+   */
+  async listTrash(): Promise<Entry[]> {
+    const userId = await uid();
+
+    let rows: EntryRow[];
+    try {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('tombstoned', true)
+        .order('deleted_at', { ascending: false, nullsFirst: false })
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+      rows = (data as EntryRow[]) || [];
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      return storageService.listDeletedEntries();
+    }
+
+    const trash: Entry[] = [];
+    for (const row of rows) {
+      try {
+        trash.push(await fromRow(row, userId));
+      } catch (error) {
+        if (isJournalLockedError(error)) throw error;
+        console.error('Failed to process entry:', row.id, error);
+      }
+    }
+
+    // Local tombstones the server no longer has were purged elsewhere,
+    // unless the delete is still waiting in the outbox
+    const onServer = new Set(rows.map(r => r.id));
+    for (const entry of await storageService.listDeletedEntries()) {
+      if (onServer.has(entry.id)) continue;
+      if (await this.hasPending(userId, entry.id)) {
+        trash.push(entry);
+      } else {
+        await storageService.purgeEntry(entry.id);
+      }
+    }
+
+    return sortTrash(trash);
+  }
+
+  async restoreEntry(id: string): Promise<Entry | null> {
+    const userId = await uid();
+
+    let restored: Entry | null = null;
+    let queued = await this.hasPending(userId, id);
+    if (!queued) {
+      try {
+        restored = await this.pushRestore(userId, id);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        queued = true;
+      }
+    }
+    if (queued) {
+      console.warn('restoreEntry -> offline, queued for replay:', id);
+      await this.enqueue(userId, { kind: 'restore', entryId: id });
+      restored = await storageService.restoreEntry(id);
+    }
+
+    analytics.logTrack('entry_restored', { entry_id: id, entry_date: restored?.date });
+    return restored;
+  }
+
+  private async pushRestore(userId: string, id: string): Promise<Entry | null> {
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .update({ tombstoned: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('*')
+      .maybeSingle<EntryRow>();
+    if (error) throw error;
+    if (!row) return null;
+
+    const entry = await fromRow(row, userId);
+    await this.mirror([entry]);
+    return entry;
+  }
+
+  /**
+   * Delete an entry forever: the row, its photos, and the local tombstone.
+   */
+  async purgeEntry(id: string): Promise<void> {
+    const userId = await uid();
+
+    let queued = await this.hasPending(userId, id);
+    if (!queued) {
+      try {
+        await purgeEntryRow(userId, id);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        queued = true;
+      }
+    }
+    if (queued) {
+      console.warn('purgeEntry -> offline, queued for replay:', id);
+      await this.enqueue(userId, { kind: 'purge', entryId: id });
+    }
+    await storageService.purgeEntry(id);
+
+    analytics.logTrack('entry_purged', { entry_id: id });
+  }
+
+  /**
+   * Replay queued offline writes. Safe to call often: it is a no-op when
+   * nothing is due, and reschedules itself while items remain.
+   */
+  async replayOutbox(force = false): Promise<number> {
+    const userId = await uid();
+    const flushed = await entryOutbox.replay(userId, op => this.applyOperation(userId, op), force);
+    if (flushed > 0) {
+      console.log(`Outbox replayed ${flushed} pending write(s)`);
+      DeviceEventEmitter.emit(OUTBOX_FLUSHED_EVENT, { userId, flushed });
+    }
+    await this.scheduleReplay(userId);
+    return flushed;
+  }
+
+  private async applyOperation(userId: string, op: OutboxOperation): Promise<void> {
+    switch (op.kind) {
+      case 'create':
+        await this.pushNewEntry(userId, op.entry);
+        break;
+      case 'update':
+        await this.pushUpdate(userId, op.entryId, op.updates, op.base);
+        break;
+      case 'delete':
+        await this.pushDelete(userId, op.entryId);
+        break;
+      case 'restore':
+        await this.pushRestore(userId, op.entryId);
+        break;
+      case 'purge':
+        await purgeEntryRow(userId, op.entryId);
+        break;
+    }
+  }
+
+  private async enqueue(userId: string, op: OutboxOperation): Promise<void> {
+    await entryOutbox.enqueue(userId, op);
+    await this.scheduleReplay(userId);
+  }
+
+  private async hasPending(userId: string, entryId: string): Promise<boolean> {
+    return (await this.pendingIds(userId)).has(entryId);
+  }
+
+  // Entries with a write set aside count too: later writes must wait behind it
+  private async pendingIds(userId: string): Promise<Set<string>> {
+    const items = [...await entryOutbox.forUser(userId), ...await entryOutbox.failedForUser(userId)];
+    return new Set(items.map(({ op }) => (op.kind === 'create' ? op.entry.id : op.entryId)));
+  }
+
+  private async scheduleReplay(userId: string): Promise<void> {
+    const delay = await entryOutbox.nextDelay(userId);
+    if (this.replayTimer) clearTimeout(this.replayTimer);
+    this.replayTimer = null;
+    if (delay === null) return;
+
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = null;
+      this.replayOutbox().catch(error => console.warn('Outbox replay error:', error));
+    }, delay);
+  }
+
+  /**
+   * Decrypt a row pushed by Supabase Realtime and fold it into the local
+   * mirror. Returns the entry so callers can patch in-memory state.
+   */
+  async applyRemoteRow(row: EntryRow): Promise<Entry> {
+    const entry = await fromRow(row, row.user_id);
+    await this.mirror([entry]);
+    return entry;
+  }
+
+  /**
+   * Keep the on-device copy in step with the server so reads work offline.
+   */
+  private async mirror(entries: Entry[]): Promise<void> {
+    try {
+      await storageService.putEntries(entries);
+    } catch (error) {
+      console.warn('Failed to mirror entries locally:', error);
+    }
+  }
+
   async getEntry(id: string): Promise<Entry | null> {
     const userId = await uid();
     const { data, error } = await supabase
@@ -349,30 +677,13 @@ export class EntriesService {
     return entry;
   }
 
+  /**
+   * Entries come from the local mirror, refreshed by a delta sync that only
+   * downloads and decrypts rows changed since the last successful pull.
+   */
   async listEntries(): Promise<Entry[]> {
     const userId = await uid();
-    const { data, error } = await supabase
-      .from(TABLE)
-      .select('*')
-      .eq('user_id', userId)
-      .eq('tombstoned', false)
-      .order('entry_date', { ascending: false })
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    
-    const entries: Entry[] = [];
-    for (const row of (data as EntryRow[]) || []) {
-      try {
-        const entry = await fromRow(row, userId);
-        if (!entry.deleted) {
-          entries.push(entry);
-        }
-      } catch (error) {
-        console.error('Failed to process entry:', row.id, error);
-        // Continue processing other entries rather than failing completely
-      }
-    }
+    await this.syncOrServeLocal(userId);
 
     // // 🚀 ADD ANALYTICS HERE - Only track when it's likely a full list view
     // if (entries.length > 0) {
@@ -382,8 +693,162 @@ export class EntriesService {
     //     avg_entry_length: this.calculateAvgLength(entries)
     //   });
     // }
-    
-    return entries;
+
+    const entries = await storageService.listEntries();
+    return entryOutbox.applyPending(userId, entries);
+  }
+
+  /**
+   * Everything in the local mirror plus queued writes, without syncing first.
+   * For whole-journal views (stats, reviews) that follow a paged load.
+   */
+  async listLocalEntries(): Promise<Entry[]> {
+    const userId = await uid();
+    return entryOutbox.applyPending(userId, await storageService.listEntries());
+  }
+
+  /**
+   * One page of the timeline, newest first, strictly older than `before`.
+   * The first page runs a delta sync. Pages always end on a whole day so
+   * the timeline never shows half of one.
+   */
+  async listEntriesPage({ before = null, limit = ENTRY_PAGE_SIZE, journalId }: EntryPageOptions = {}): Promise<EntryPage> {
+    const userId = await uid();
+    if (!before) await this.syncOrServeLocal(userId);
+
+    const page = await listStoredPage(before, limit, journalId);
+
+    // Queued writes only belong on the page whose range (and journal) they fall in
+    const entries = (await entryOutbox.applyPending(userId, page.entries)).filter(
+      e => (!before || isBeforeCursor(e, before))
+        && (!page.nextCursor || !isBeforeCursor(e, page.nextCursor))
+        && inJournal(e, journalId)
+    );
+
+    return { entries, nextCursor: page.nextCursor };
+  }
+
+  private async syncOrServeLocal(userId: string): Promise<void> {
+    try {
+      await this.syncChanges(userId);
+    } catch (error) {
+      if (!isNetworkError(error) && !isJournalLockedError(error)) throw error;
+      // Offline or locked: serve the local mirror, which already includes queued writes
+      console.warn('Entries sync -> unavailable, serving local copy');
+    }
+  }
+
+  /**
+   * Pull rows with updated_at past the stored cursor (tombstones included)
+   * into the local mirror. The first sync for a user is a full download.
+   */
+  async syncChanges(userId?: string): Promise<number> {
+    userId = userId ?? await uid();
+
+    if (await this.claimLocalStore(userId)) {
+      await SyncCursor.reset(SYNC_SCOPE, userId);
+    }
+
+    const cursor = await SyncCursor.get(SYNC_SCOPE, userId);
+    let nextCursor = cursor;
+    let changed = 0;
+    // Pages continue after the last (updated_at, id) seen: a row edited
+    // mid-pass moves to the end instead of shifting later pages over one
+    let last: EntryRow | null = null;
+
+    for (;;) {
+      let query = supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId);
+      query = cursor ? query.gt('updated_at', cursor) : query.eq('tombstoned', false);
+      if (last) {
+        query = query.or(
+          `updated_at.gt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.gt."${last.id}")`
+        );
+      }
+
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(SYNC_PAGE_SIZE);
+      if (error) throw error;
+
+      const rows = (data as EntryRow[]) || [];
+      const entries: Entry[] = [];
+      for (const row of rows) {
+        try {
+          entries.push(await fromRow(row, userId));
+        } catch (error) {
+          // Locked: stop before the cursor moves past rows that were never mirrored
+          if (isJournalLockedError(error)) throw error;
+          console.error('Failed to process entry:', row.id, error);
+          // Continue processing other entries rather than failing completely
+        }
+      }
+
+      await storageService.putEntries(entries);
+      nextCursor = SyncCursor.advance(nextCursor, rows);
+      changed += rows.length;
+
+      if (rows.length < SYNC_PAGE_SIZE) break;
+      last = rows[rows.length - 1];
+    }
+
+    if (nextCursor && nextCursor !== cursor) {
+      await SyncCursor.set(SYNC_SCOPE, userId, nextCursor);
+    }
+    console.log(`🔄 Delta sync: ${changed} changed row(s) since ${cursor ?? 'beginning'}`);
+    return changed;
+  }
+
+  /**
+   * The on-device store holds one owner's entries at a time (an account or
+   * a guest); start over when it changes hands. Returns true if it was wiped.
+   */
+  async claimLocalStore(ownerId: string): Promise<boolean> {
+    const owner = await storageService.getSetting(SYNC_OWNER_KEY);
+    if (owner === ownerId) return false;
+
+    await storageService.clearEntries();
+    await storageService.setSetting(SYNC_OWNER_KEY, ownerId);
+    return true;
+  }
+
+  /**
+   * Push what was written on this device in local mode: entries (trashed
+   * ones included) the server lacks or holds an older version of, with
+   * their photos. Returns how many were written.
+   */
+  async uploadLocalEntries(): Promise<number> {
+    const userId = await uid();
+    const local = [...await storageService.listEntries(), ...await storageService.listDeletedEntries()];
+
+    let uploaded = 0;
+    for (let i = 0; i < local.length; i += BULK_CHUNK_SIZE) {
+      const chunk = local.slice(i, i + BULK_CHUNK_SIZE);
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('id, updated_at')
+        .eq('user_id', userId)
+        .in('id', chunk.map(e => e.id));
+      if (error) throw error;
+
+      const serverUpdatedAt = new Map(((data as Pick<EntryRow, 'id' | 'updated_at'>[]) || []).map(r => [r.id, r.updated_at]));
+      for (const entry of chunk) {
+        const remote = serverUpdatedAt.get(entry.id);
+        if (remote && new Date(remote) >= new Date(entry.updatedAt)) continue;
+
+        const photoUris = await uploadLocalPhotos(entry.photoUris ?? [], entry.id, userId);
+        const row = await toRow(userId, { ...entry, photoUris, hasPhotos: photoUris.length > 0 });
+        const { error: upsertError } = await supabase.from(TABLE).upsert(row, { onConflict: 'id' });
+        if (upsertError) throw upsertError;
+        uploaded++;
+      }
+    }
+
+    console.log(`⬆️ Uploaded ${uploaded} of ${local.length} local entries`);
+    return uploaded;
   }
 
   async listByDateRange(startDate: Date, endDate: Date): Promise<Entry[]> {
@@ -410,6 +875,7 @@ export class EntriesService {
           entries.push(entry);
         }
       } catch (error) {
+        if (isJournalLockedError(error)) throw error;
         console.error('Failed to process entry:', row.id, error);
       }
     }
@@ -436,14 +902,7 @@ export class EntriesService {
   }
 
   async groupEntriesByDay(): Promise<GroupedEntries> {
-    const entries = await this.listEntries();
-    const grouped: GroupedEntries = {};
-    entries.forEach(e => {
-      if (!grouped[e.date]) grouped[e.date] = [];
-      grouped[e.date].push(e);
-    });
-
-    return grouped;
+    return groupByDay(await this.listEntries());
   }
 
   async groupEntriesByWeek(): Promise<GroupedEntries> {
@@ -503,10 +962,11 @@ export class EntriesService {
   }
 
   /**
-   * Clear encryption key on logout
+   * Clear encryption key and decrypted-entry cache on logout
    */
   static clearEncryption(): void {
     EncryptionService.clearKey();
+    entryCache.clear();
   }
 
   // Helper methods to add to the class
@@ -0,0 +1,111 @@
+// src/services/entryCache.ts
+import { Entry } from '@/types/journal';
+import { EncryptionService, isJournalLockedError } from './encryption';
+import { storageService } from './storage/sqliteStorage';
+
+const CACHE_KEY_PREFIX = 'entry_cache_';
+const PERSIST_DELAY_MS = 2000;
+
+type CachedEntry = {
+  updatedAt: string;
+  entry: Entry;
+};
+
+/**
+ * Decrypted entries keyed by id, each valid only for the row version
+ * (`updated_at`) it was decrypted from. Kept in memory and persisted
+ * encrypted with the user's key, so a cold start skips the decrypt pass too.
+ * Deleted and purged entries are dropped rather than kept around.
+ */
+class DecryptedEntryCache {
+  private userId: string | null = null;
+  private entries = new Map<string, CachedEntry>();
+  private loading: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async get(userId: string, id: string, updatedAt: string): Promise<Entry | null> {
+    await this.load(userId);
+    const hit = this.entries.get(id);
+    return hit && hit.updatedAt === updatedAt ? hit.entry : null;
+  }
+
+  async set(userId: string, entry: Entry): Promise<void> {
+    await this.load(userId);
+    this.entries.set(entry.id, { updatedAt: entry.updatedAt, entry });
+    this.schedulePersist();
+  }
+
+  async remove(userId: string, ids: string[]): Promise<void> {
+    await this.load(userId);
+    let removed = false;
+    for (const id of ids) removed = this.entries.delete(id) || removed;
+    if (removed) this.schedulePersist();
+  }
+
+  /**
+   * Forget the in-memory copy (e.g. on sign out). The persisted copy stays
+   * encrypted on disk and is reloaded when the same user signs back in.
+   */
+  clear(): void {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.userId = null;
+    this.entries = new Map();
+    this.loading = null;
+  }
+
+  private load(userId: string): Promise<void> {
+    if (this.userId !== userId || !this.loading) {
+      this.clear();
+      this.userId = userId;
+      this.loading = this.readPersisted(userId);
+    }
+    return this.loading;
+  }
+
+  private async readPersisted(userId: string): Promise<void> {
+    try {
+      const blob = await storageService.getSetting(CACHE_KEY_PREFIX + userId);
+      if (!blob) return;
+
+      const records: [string, CachedEntry][] = await EncryptionService.decrypt(blob, userId);
+      if (this.userId === userId) this.entries = new Map(records);
+      console.log(`🗄️ Loaded ${records.length} cached entries`);
+    } catch (error) {
+      // Read it again once unlocked, rather than persisting over it
+      if (isJournalLockedError(error)) {
+        if (this.userId === userId) this.loading = null;
+        return;
+      }
+      console.warn('Entry cache unreadable, starting empty:', error);
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch(error => {
+        console.warn('Failed to persist entry cache (non-critical):', error);
+      });
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    let blob: string;
+    try {
+      blob = await EncryptionService.encrypt(Array.from(this.entries.entries()), userId);
+    } catch (error) {
+      // Nothing goes to disk while the journal is locked
+      if (isJournalLockedError(error)) return;
+      throw error;
+    }
+    if (this.userId !== userId) return; // signed out while encrypting
+    await storageService.setSetting(CACHE_KEY_PREFIX + userId, blob);
+  }
+}
+
+export const entryCache = new DecryptedEntryCache();
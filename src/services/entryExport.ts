@@ -0,0 +1,47 @@
+// src/services/entryExport.ts
+import { Entry } from '@/types/journal';
+import { formatDisplayDate, formatTime } from '@/utils/format';
+import { Share } from 'react-native';
+import { sortEntries } from './repository';
+
+const MOOD_EMOJIS = ['😔', '😕', '😐', '🙂', '😊'];
+
+/**
+ * Entries as plain text the user can take elsewhere. Works on decrypted
+ * entries already in memory, so nothing is fetched.
+ */
+export class EntryExportService {
+  /** Oldest first, one section per day. */
+  static toMarkdown(entries: Entry[]): string {
+    const sorted = sortEntries([...entries]).reverse();
+    const lines: string[] = [];
+    let currentDate: string | null = null;
+
+    for (const entry of sorted) {
+      if (entry.date !== currentDate) {
+        currentDate = entry.date;
+        lines.push(`# ${formatDisplayDate(entry.date)}`, '');
+      }
+
+      const heading = entry.title?.trim() || formatTime(entry.createdAt);
+      lines.push(`## ${heading} ${MOOD_EMOJIS[(entry.mood ?? 3) - 1] ?? ''}`.trim(), '');
+      if (entry.body?.trim()) lines.push(entry.body.trim(), '');
+      if (entry.transcription?.trim() && entry.transcription.trim() !== entry.body?.trim()) {
+        lines.push(`> ${entry.transcription.trim()}`, '');
+      }
+      if (entry.tags?.length) lines.push(entry.tags.map(t => `#${t.name}`).join(' '), '');
+    }
+
+    return lines.join('\n').trim() + '\n';
+  }
+
+  /** Hand the entries to the system share sheet as Markdown. */
+  static async shareEntries(entries: Entry[]): Promise<boolean> {
+    if (entries.length === 0) return false;
+    const result = await Share.share({
+      title: entries.length === 1 ? 'Journal entry' : `${entries.length} journal entries`,
+      message: EntryExportService.toMarkdown(entries),
+    });
+    return result.action === Share.sharedAction;
+  }
+}
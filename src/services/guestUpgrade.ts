@@ -0,0 +1,63 @@
+// src/services/guestUpgrade.ts
+import { supabase } from '@/services/supabase';
+import { Entry } from '@/types/journal';
+import { ImageUploadService, isLocalUri } from './imageUpload';
+import { keyVault } from './keyVault';
+import { entryRepository } from './repository/entryRepository';
+import { toRow } from './repository/rows';
+import { storageService } from './storage/sqliteStorage';
+
+export interface GuestUpgradeProgress {
+  done: number;
+  total: number;
+}
+
+export class GuestUpgradeService {
+  /**
+   * Move everything written in guest mode into the signed-in account:
+   * photos are uploaded, entries encrypted with the account's key and
+   * written under their existing ids. Safe to re-run after a failure, since
+   * rows are upserted by id. Switches the app to the synced mode at the end.
+   * An account whose journal is locked by a passphrase is left alone until
+   * it is unlocked, so nothing goes up under the wrong key.
+   */
+  static async upgradeToAccount(
+    userId: string,
+    onProgress?: (progress: GuestUpgradeProgress) => void
+  ): Promise<number> {
+    if ((await keyVault.getStatus(userId)) === 'locked') {
+      throw new Error('This account\'s journal is locked. Your guest entries are still on this device; unlock the journal, then sign in again to move them.');
+    }
+
+    const entries = await storageService.listEntries();
+    console.log(`⬆️ Moving ${entries.length} guest entries into account ${userId}`);
+
+    for (let i = 0; i < entries.length; i++) {
+      onProgress?.({ done: i, total: entries.length });
+      await this.uploadEntry(userId, entries[i]);
+    }
+    onProgress?.({ done: entries.length, total: entries.length });
+
+    // The hybrid mirror sees a new owner, drops the guest copies and pulls
+    // the uploaded entries back down on its next sync
+    await entryRepository.setMode('hybrid');
+    return entries.length;
+  }
+
+  private static async uploadEntry(userId: string, entry: Entry): Promise<void> {
+    // Unlike normal saves, a photo that fails to upload fails the upgrade:
+    // the guest copy is about to be discarded
+    const photoUris: string[] = [];
+    for (const uri of entry.photoUris ?? []) {
+      photoUris.push(isLocalUri(uri) ? await ImageUploadService.uploadImage(uri, userId, entry.id) : uri);
+    }
+
+    const uploaded: Entry = { ...entry, photoUris, hasPhotos: photoUris.length > 0 };
+    const row = await toRow(userId, { ...uploaded, updatedAt: new Date().toISOString() });
+    const { error } = await supabase.from('entries').upsert(row, { onConflict: 'id' });
+    if (error) throw error;
+
+    // Remember the remote photo URLs so a retry does not upload them again
+    await storageService.updateEntry(uploaded);
+  }
+}
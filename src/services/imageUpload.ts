@@ -46,9 +46,10 @@ export class ImageUploadService {
 
       return publicUrl;
 
-    } catch (error) {
+    } catch (error: any) {
       console.error('Image upload failed:', error);
-      throw new Error('Failed to upload image');
+      // Keep the underlying reason so callers can tell offline from rejected
+      throw new Error(`Failed to upload image: ${error?.message ?? 'unknown error'}`);
     }
   }
 
@@ -69,6 +70,38 @@ export class ImageUploadService {
     }
   }
 
+  /**
+   * Copy photos that live in another entry's folder into `entryId`'s, so
+   * purging that entry later can't take them with it. Local URIs and
+   * photos already in the folder come back unchanged.
+   */
+  static async copyIntoEntry(imageUrls: string[], entryId: string): Promise<string[]> {
+    return Promise.all(imageUrls.map(async imageUrl => {
+      if (isLocalUri(imageUrl)) return imageUrl;
+
+      const pathParts = new URL(imageUrl).pathname.split('/');
+      const [userId, fromEntryId, file] = pathParts.slice(-3);
+      if (fromEntryId === entryId) return imageUrl;
+
+      // A fresh name, so retrying after a partial failure can't collide
+      const fileName = `${userId}/${entryId}/${new Date().getTime()}-${file}`;
+      const { error } = await supabase.storage
+        .from(this.BUCKET_NAME)
+        .copy(`${userId}/${fromEntryId}/${file}`, fileName);
+
+      if (error) {
+        console.error('Copy error:', error);
+        throw new Error(`Failed to copy image: ${error.message}`);
+      }
+
+      const { data: { publicUrl } } = supabase.storage
+        .from(this.BUCKET_NAME)
+        .getPublicUrl(fileName);
+
+      return publicUrl;
+    }));
+  }
+
   static async deleteImage(imageUrl: string): Promise<void> {
     try {
       const url = new URL(imageUrl);
@@ -0,0 +1,295 @@
+// src/services/integrity.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/services/supabase';
+import { Entry } from '@/types/journal';
+import { DeviceEventEmitter } from 'react-native';
+import { EncryptionService } from './encryption';
+import { RepositoryMode } from './repository';
+import { entryRepository } from './repository/entryRepository';
+import {
+  currentUserId, entryFromPayload, EntryRow, inspectRow, isEntryPayload, isPlaceholderEntry, RowProblem, toRow,
+} from './repository/rows';
+import { ENTRIES_KEY } from './storage/asyncStorage';
+import { storageService } from './storage/sqliteStorage';
+import { SYNC_CHANGES_EVENT } from './syncEngine';
+
+const TABLE = 'entries';
+const REPORT_KEY = 'integrity_report';
+const SCAN_PAGE_SIZE = 500;
+
+// Where a problem entry's content can be recovered from: the row itself
+// (stored before encryption), another key this device knows, the on-device
+// copy, or the AsyncStorage store that predates SQLite
+export type RecoverySource = 'row' | 'alternate-key' | 'device-copy' | 'legacy-copy';
+
+export interface IntegrityIssue {
+  entryId: string;
+  date: string;
+  problem: RowProblem;
+  recoverableFrom: RecoverySource | null;
+  deleted: boolean; // the entry is in the trash
+  repaired?: boolean;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  mode: RepositoryMode;
+  scanned: number;
+  issues: IntegrityIssue[];
+}
+
+type Recovery = { source: RecoverySource; data: any };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Finds entries the app cannot read properly (rows no key decrypts,
+ * content never encrypted, malformed rows) and repairs the ones whose
+ * content can be found elsewhere, writing them back in the current format.
+ * Reports hold ids and dates only, never entry content.
+ */
+class IntegrityChecker {
+  private legacyCopies: Map<string, Entry> | null = null;
+
+  async getLastReport(): Promise<IntegrityReport | null> {
+    const json = await storageService.getSetting(REPORT_KEY).catch(() => null);
+    if (!json) return null;
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Check every entry, trash included. */
+  async scan(onProgress?: (scanned: number) => void): Promise<IntegrityReport> {
+    const mode = await entryRepository.getMode();
+    this.legacyCopies = null;
+
+    const report = mode === 'local'
+      ? await this.scanLocal(onProgress)
+      : await this.scanServer(onProgress);
+
+    console.log(`🩺 Integrity scan: ${report.scanned} checked, ${report.issues.length} problem(s)`);
+    await this.saveReport(report);
+    return report;
+  }
+
+  /**
+   * Repair every recoverable issue in `report`. Entries are re-read first,
+   * so anything edited since the scan is rechecked rather than overwritten.
+   */
+  async repair(report: IntegrityReport): Promise<IntegrityReport> {
+    const mode = await entryRepository.getMode();
+    this.legacyCopies = null;
+    let repaired = 0;
+
+    const issues: IntegrityIssue[] = [];
+    for (const issue of report.issues) {
+      if (issue.repaired || !issue.recoverableFrom) {
+        issues.push(issue);
+        continue;
+      }
+      try {
+        const ok = mode === 'local' ? await this.repairLocal(issue) : await this.repairServer(issue);
+        if (ok) repaired++;
+        issues.push({ ...issue, repaired: ok });
+      } catch (error) {
+        console.warn('Failed to repair entry:', issue.entryId, error);
+        issues.push(issue);
+      }
+    }
+
+    const updated = { ...report, issues };
+    await this.saveReport(updated);
+    console.log(`🩺 Integrity repair: ${repaired} entr${repaired === 1 ? 'y' : 'ies'} recovered`);
+    if (repaired > 0) DeviceEventEmitter.emit(SYNC_CHANGES_EVENT, { changed: repaired });
+    return updated;
+  }
+
+  // ---------- server-backed modes ----------
+
+  private async scanServer(onProgress?: (scanned: number) => void): Promise<IntegrityReport> {
+    const userId = await currentUserId();
+    const issues: IntegrityIssue[] = [];
+    let scanned = 0;
+
+    for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .order('id', { ascending: true })
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data as EntryRow[]) || [];
+      for (const row of rows) {
+        const { problem } = await inspectRow(row, userId);
+        if (problem) {
+          const recovery = await this.recoverRow(row, problem, userId);
+          issues.push({
+            entryId: row.id,
+            date: row.entry_date,
+            problem,
+            recoverableFrom: recovery?.source ?? null,
+            deleted: !!row.tombstoned,
+          });
+        }
+      }
+
+      scanned += rows.length;
+      onProgress?.(scanned);
+      if (rows.length < SCAN_PAGE_SIZE) break;
+    }
+
+    return { checkedAt: new Date().toISOString(), mode: await entryRepository.getMode(), scanned, issues };
+  }
+
+  private async repairServer(issue: IntegrityIssue): Promise<boolean> {
+    const userId = await currentUserId();
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', issue.entryId)
+      .eq('user_id', userId)
+      .maybeSingle<EntryRow>();
+    if (error) throw error;
+    if (!row) return false;
+
+    const { problem } = await inspectRow(row, userId);
+    if (!problem) return true; // fixed elsewhere since the scan
+    const recovery = await this.recoverRow(row, problem, userId);
+    if (!recovery) return false;
+
+    const entry = this.rebuild(row, recovery);
+    // Only overwrite the version that was checked
+    const { data: saved, error: saveError } = await supabase
+      .from(TABLE)
+      .update(await toRow(userId, entry))
+      .eq('id', row.id)
+      .eq('user_id', userId)
+      .eq('updated_at', row.updated_at)
+      .select('id')
+      .maybeSingle();
+    if (saveError) throw saveError;
+    if (!saved) return false;
+
+    await storageService.putEntries([entry]);
+    console.log(`🩹 Recovered entry ${row.id} from ${recovery.source}`);
+    return true;
+  }
+
+  /**
+   * The row's content from the first source that has it. A device copy
+   * only counts if it was not itself stored as a placeholder.
+   */
+  private async recoverRow(row: EntryRow, problem: RowProblem, userId: string): Promise<Recovery | null> {
+    if (problem === 'legacy-unencrypted') return { source: 'row', data: row.encrypted_blob };
+
+    if (problem === 'undecryptable' && typeof row.encrypted_blob === 'string') {
+      try {
+        return { source: 'alternate-key', data: await EncryptionService.decryptWithAlternateKeys(row.encrypted_blob, userId) };
+      } catch {
+        // Fall through to the device copies
+      }
+    }
+
+    const local = await storageService.getEntry(row.id).catch(() => null);
+    if (local && !isPlaceholderEntry(local) && isEntryPayload(local)) return { source: 'device-copy', data: local };
+
+    const legacy = (await this.getLegacyCopies()).get(row.id);
+    if (legacy && !isPlaceholderEntry(legacy) && isEntryPayload(legacy)) return { source: 'legacy-copy', data: legacy };
+
+    return null;
+  }
+
+  /**
+   * A whole entry from the row's clear columns and recovered content, with
+   * broken columns filled in from a device copy where there is one.
+   */
+  private rebuild(row: EntryRow, recovery: Recovery): Entry {
+    const copy: Partial<Entry> = recovery.source === 'device-copy' || recovery.source === 'legacy-copy'
+      ? recovery.data
+      : {};
+    const entry = entryFromPayload(row, recovery.data);
+    return {
+      ...entry,
+      date: DATE_PATTERN.test(entry.date ?? '') ? entry.date : copy.date ?? entry.createdAt.slice(0, 10),
+      createdAt: !isNaN(Date.parse(entry.createdAt)) ? entry.createdAt : copy.createdAt ?? new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  // ---------- device-only mode ----------
+
+  private async scanLocal(onProgress?: (scanned: number) => void): Promise<IntegrityReport> {
+    const entries = [...await storageService.listEntries(), ...await storageService.listDeletedEntries()];
+    const issues: IntegrityIssue[] = [];
+
+    for (const entry of entries) {
+      const problem = this.localProblem(entry);
+      if (!problem) continue;
+      const legacy = (await this.getLegacyCopies()).get(entry.id);
+      issues.push({
+        entryId: entry.id,
+        date: entry.date,
+        problem,
+        recoverableFrom: legacy && !isPlaceholderEntry(legacy) && !this.localProblem(legacy) ? 'legacy-copy' : null,
+        deleted: !!entry.deleted,
+      });
+    }
+
+    onProgress?.(entries.length);
+    return { checkedAt: new Date().toISOString(), mode: 'local', scanned: entries.length, issues };
+  }
+
+  private async repairLocal(issue: IntegrityIssue): Promise<boolean> {
+    const legacy = (await this.getLegacyCopies()).get(issue.entryId);
+    if (!legacy || isPlaceholderEntry(legacy) || this.localProblem(legacy)) return false;
+
+    const current = await storageService.getEntry(issue.entryId);
+    await storageService.putEntries([{
+      ...legacy,
+      tags: legacy.tags ?? [],
+      journalId: current?.journalId ?? legacy.journalId ?? null,
+      deleted: current?.deleted ?? legacy.deleted,
+      updatedAt: new Date().toISOString(),
+    }]);
+    console.log(`🩹 Recovered entry ${issue.entryId} from legacy-copy`);
+    return true;
+  }
+
+  // Placeholders are stored copies of rows that were unreadable when synced
+  private localProblem(entry: Entry): RowProblem | null {
+    if (isPlaceholderEntry(entry)) return 'undecryptable';
+    const validColumns = DATE_PATTERN.test(entry.date ?? '') && !isNaN(Date.parse(entry.createdAt));
+    return validColumns && isEntryPayload(entry) ? null : 'malformed';
+  }
+
+  // ---------- helpers ----------
+
+  private async getLegacyCopies(): Promise<Map<string, Entry>> {
+    if (!this.legacyCopies) {
+      let entries: Entry[] = [];
+      try {
+        const json = await AsyncStorage.getItem(ENTRIES_KEY);
+        entries = json ? JSON.parse(json) : [];
+      } catch (error) {
+        console.warn('Legacy entries unreadable:', error);
+      }
+      this.legacyCopies = new Map((Array.isArray(entries) ? entries : []).map(e => [e.id, e]));
+    }
+    return this.legacyCopies;
+  }
+
+  private async saveReport(report: IntegrityReport): Promise<void> {
+    try {
+      await storageService.setSetting(REPORT_KEY, JSON.stringify(report));
+    } catch (error) {
+      console.warn('Failed to save integrity report (non-critical):', error);
+    }
+  }
+}
+
+export const integrityChecker = new IntegrityChecker();
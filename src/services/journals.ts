@@ -0,0 +1,298 @@
+// src/services/journals.ts
+import { DEFAULT_JOURNAL_ID, Journal } from '@/types/journal';
+import { generateId } from '@/utils/id';
+import { DeviceEventEmitter } from 'react-native';
+import { EncryptionService, isJournalLockedError } from './encryption';
+import { isNetworkError } from './outbox';
+import { entryRepository } from './repository/entryRepository';
+import { currentUserId } from './repository/rows';
+import { storageService } from './storage/sqliteStorage';
+import { supabase } from './supabase';
+
+const TABLE = 'journals';
+const STORE_KEY = 'journals';
+const ACTIVE_KEY = 'active_journal_id';
+
+export const JOURNALS_CHANGED_EVENT = 'journals:changed';
+export const ACTIVE_JOURNAL_CHANGED_EVENT = 'journals:activeChanged';
+
+export const JOURNAL_COLORS = [
+  '#5b21b6', '#2563EB', '#0D9488', '#16A34A', '#D97706', '#DC2626', '#DB2777', '#475569',
+];
+
+export const JOURNAL_ICONS = [
+  'book-outline', 'briefcase-outline', 'heart-outline', 'moon-outline',
+  'airplane-outline', 'barbell-outline', 'leaf-outline', 'bulb-outline',
+];
+
+export type JournalInput = Pick<Journal, 'name' | 'color' | 'icon'>;
+
+type JournalRow = {
+  id: string;
+  user_id: string;
+  encrypted_blob: string;
+  created_at: string;
+  updated_at: string;
+  tombstoned: boolean;
+};
+
+type StoredJournal = Journal & {
+  deleted?: boolean;
+  dirty?: boolean; // changed on this device and not yet on the server
+};
+
+type JournalStore = {
+  owner: string | null; // the account these journals belong to; null for a guest
+  journals: StoredJournal[];
+};
+
+// Dated at the epoch so any saved customisation of it wins a merge
+const DEFAULT_JOURNAL: StoredJournal = {
+  id: DEFAULT_JOURNAL_ID,
+  name: 'Journal',
+  color: JOURNAL_COLORS[0],
+  icon: 'book-outline',
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+};
+
+function toJournal({ deleted, dirty, ...journal }: StoredJournal): Journal {
+  return journal;
+}
+
+/**
+ * The journals (notebooks) an account keeps entries in. The list lives in
+ * local settings so it works offline and in guest mode, and is synced with
+ * the `journals` table with names encrypted like entry content. There is
+ * always a default journal, which holds every entry without a journalId.
+ */
+class JournalsService {
+  private store: JournalStore = { owner: null, journals: [] };
+  private loading: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  async listJournals(): Promise<Journal[]> {
+    const { journals } = await this.getStore();
+    const live = journals.filter(j => !j.deleted);
+    const defaultJournal = live.find(j => j.id === DEFAULT_JOURNAL_ID) ?? DEFAULT_JOURNAL;
+    const others = live
+      .filter(j => j.id !== DEFAULT_JOURNAL_ID)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return [defaultJournal, ...others].map(toJournal);
+  }
+
+  async getJournal(id: string): Promise<Journal | null> {
+    return (await this.listJournals()).find(j => j.id === id) ?? null;
+  }
+
+  async createJournal(input: JournalInput): Promise<Journal> {
+    const now = new Date().toISOString();
+    const journal: StoredJournal = {
+      id: generateId(),
+      name: input.name.trim() || 'Untitled',
+      color: input.color,
+      icon: input.icon,
+      createdAt: now,
+      updatedAt: now,
+      dirty: true,
+    };
+
+    const store = await this.getStore();
+    await this.save({ ...store, journals: [...store.journals, journal] });
+    this.syncInBackground();
+    return toJournal(journal);
+  }
+
+  async updateJournal(id: string, updates: Partial<JournalInput>): Promise<Journal | null> {
+    const current = await this.getJournal(id);
+    if (!current) return null;
+
+    const updated: StoredJournal = {
+      ...current,
+      ...updates,
+      name: (updates.name ?? current.name).trim() || current.name,
+      updatedAt: new Date().toISOString(),
+      dirty: true,
+    };
+
+    const store = await this.getStore();
+    await this.save({ ...store, journals: [...store.journals.filter(j => j.id !== id), updated] });
+    this.syncInBackground();
+    return toJournal(updated);
+  }
+
+  /**
+   * Remove a journal. Its entries must already have been moved out; the
+   * default journal cannot be deleted.
+   */
+  async deleteJournal(id: string): Promise<void> {
+    if (id === DEFAULT_JOURNAL_ID) throw new Error('The default journal cannot be deleted');
+
+    const store = await this.getStore();
+    const journals = store.journals.map(j =>
+      j.id === id ? { ...j, deleted: true, dirty: true, updatedAt: new Date().toISOString() } : j
+    );
+    await this.save({ ...store, journals });
+
+    if ((await this.getActiveJournalId()) === id) {
+      await this.setActiveJournalId(DEFAULT_JOURNAL_ID);
+    }
+    this.syncInBackground();
+  }
+
+  async getActiveJournalId(): Promise<string> {
+    const stored = await storageService.getSetting(ACTIVE_KEY).catch(() => null);
+    if (!stored) return DEFAULT_JOURNAL_ID;
+    return (await this.getJournal(stored)) ? stored : DEFAULT_JOURNAL_ID;
+  }
+
+  async setActiveJournalId(id: string): Promise<void> {
+    await storageService.setSetting(ACTIVE_KEY, id);
+    console.log('📓 Active journal:', id);
+    DeviceEventEmitter.emit(ACTIVE_JOURNAL_CHANGED_EVENT, { journalId: id });
+  }
+
+  /** Start over with only the default journal, e.g. for a new guest. */
+  async reset(): Promise<void> {
+    await this.load();
+    await this.save({ owner: null, journals: [] });
+    await storageService.setSetting(ACTIVE_KEY, DEFAULT_JOURNAL_ID);
+  }
+
+  /**
+   * Push journals changed on this device, then pull the account's list.
+   * A no-op for device-only entries. Concurrent callers share one pass.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private syncInBackground(): void {
+    this.sync().catch(error => {
+      if (!isNetworkError(error)) console.warn('Journal sync failed:', error);
+    });
+  }
+
+  private async runSync(): Promise<void> {
+    if ((await entryRepository.getMode()) === 'local') return;
+    const userId = await currentUserId();
+    let store = await this.getStore();
+
+    const dirty = store.journals.filter(j => j.dirty);
+    if (dirty.length > 0) {
+      const rows = await Promise.all(dirty.map(j => this.toRow(userId, j)));
+      const { error } = await supabase.from(TABLE).upsert(rows, { onConflict: 'user_id,id' });
+      if (error) throw error;
+
+      // Anything edited while the upsert was in flight stays dirty
+      const pushed = new Map(dirty.map(j => [j.id, j.updatedAt]));
+      store = await this.getStore();
+      const journals = store.journals
+        .filter(j => !(j.deleted && pushed.get(j.id) === j.updatedAt))
+        .map(j => (pushed.get(j.id) === j.updatedAt ? { ...j, dirty: false } : j));
+      await this.save({ ...store, journals });
+    }
+
+    const { data, error } = await supabase.from(TABLE).select('*').eq('user_id', userId);
+    if (error) throw error;
+
+    const remote: StoredJournal[] = [];
+    for (const row of (data as JournalRow[]) || []) {
+      try {
+        remote.push(await this.fromRow(row, userId));
+      } catch (decryptError) {
+        // Missing journals would look deleted on the server; never merge a partial list
+        if (isJournalLockedError(decryptError)) throw decryptError;
+        console.warn('Skipping unreadable journal:', row.id, decryptError);
+      }
+    }
+
+    // Local edits newer than the server's copy survive; journals that only
+    // exist here survive if they have not been pushed yet
+    store = await this.getStore();
+    const local = new Map(store.journals.map(j => [j.id, j]));
+    const merged: StoredJournal[] = [];
+    for (const journal of remote) {
+      const mine = local.get(journal.id);
+      local.delete(journal.id);
+      if (mine?.dirty && mine.updatedAt > journal.updatedAt) merged.push(mine);
+      else if (!journal.deleted) merged.push(journal);
+    }
+    local.forEach(mine => {
+      if (mine.dirty) merged.push(mine);
+    });
+
+    await this.save({ ...store, journals: merged });
+  }
+
+  private async toRow(userId: string, journal: StoredJournal): Promise<JournalRow> {
+    const { name, color, icon } = journal;
+    return {
+      id: journal.id,
+      user_id: userId,
+      encrypted_blob: await EncryptionService.encrypt({ name, color, icon }, userId),
+      created_at: journal.createdAt,
+      updated_at: journal.updatedAt,
+      tombstoned: !!journal.deleted,
+    };
+  }
+
+  private async fromRow(row: JournalRow, userId: string): Promise<StoredJournal> {
+    const { name, color, icon } = await EncryptionService.decrypt(row.encrypted_blob, userId);
+    return {
+      id: row.id,
+      name: name || 'Untitled',
+      color: color || JOURNAL_COLORS[0],
+      icon: icon || 'book-outline',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deleted: row.tombstoned,
+    };
+  }
+
+  /**
+   * The stored list, checked against who is signed in. A guest's journals
+   * follow them into the account they sign up for; another account's are
+   * dropped.
+   */
+  private async getStore(): Promise<JournalStore> {
+    await this.load();
+    if ((await entryRepository.getMode()) === 'local') return this.store;
+
+    const { data } = await supabase.auth.getSession();
+    const owner = data.session?.user.id;
+    if (owner && this.store.owner !== owner) {
+      const journals = this.store.owner === null
+        ? this.store.journals.map(j => ({ ...j, dirty: true }))
+        : [];
+      await this.save({ owner, journals });
+    }
+    return this.store;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = storageService.getSetting(STORE_KEY)
+        .then(json => {
+          if (json) this.store = JSON.parse(json);
+        })
+        .catch(error => {
+          console.warn('Journal list unreadable, starting fresh:', error);
+        });
+    }
+    return this.loading;
+  }
+
+  private async save(store: JournalStore): Promise<void> {
+    this.store = store;
+    await storageService.setSetting(STORE_KEY, JSON.stringify(store));
+    DeviceEventEmitter.emit(JOURNALS_CHANGED_EVENT);
+  }
+}
+
+export const journalsService = new JournalsService();
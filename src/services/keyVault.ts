@@ -0,0 +1,512 @@
+// src/services/keyVault.ts
+import { gcm } from '@noble/ciphers/aes';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Buffer } from 'buffer';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { DeviceEventEmitter } from 'react-native';
+import { EncryptionService } from './encryption';
+import { entryCache } from './entryCache';
+import { reencryption } from './reencryption';
+import { supabase } from './supabase';
+
+const TABLE = 'key_bundles';
+const BUNDLE_CACHE_PREFIX = 'journal_key_bundle_';
+const BIOMETRIC_FLAG_PREFIX = 'journal_key_biometric_';
+const SECURE_KEY_PREFIX = 'journal_data_key_'; // expo-secure-store, behind biometrics
+const DATA_KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12;
+const RECOVERY_KEY_BYTES = 20; // 160 bits, 32 characters of base32
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford: no I, L, O or U
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// scrypt at 32 MB: a few seconds on a phone, far too slow to guess at
+// scale. Stored with each bundle so later bundles can use stronger settings.
+const DEFAULT_KDF: KdfParams = { name: 'scrypt', N: 2 ** 15, r: 8, p: 1 };
+
+export const KEY_STATUS_EVENT = 'keys:status';
+
+export type KeyStatus =
+  | 'unprotected' // no passphrase; data is under the legacy per-user key
+  | 'locked'
+  | 'unlocked';
+
+export interface KdfParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+}
+
+type SaltedKdf = KdfParams & { salt: string }; // base64 salt
+
+// The server's copy of the data key, encrypted once with a key derived from
+// the passphrase and once with one derived from the recovery key. Without
+// either it is useless, to the server included.
+interface KeyBundle {
+  user_id: string;
+  key_id: string; // id of the data key, as written in each envelope
+  kdf: SaltedKdf;
+  wrapped_key: string; // base64 nonce + ciphertext + tag
+  recovery_kdf?: SaltedKdf | null; // null on bundles made before recovery keys
+  recovery_wrapped_key?: string | null;
+  retired_keys?: RetiredKey[] | null; // data keys replaced by rotation
+  updated_at?: string;
+}
+
+// An earlier data key, encrypted with the current one. Kept so blobs still
+// tagged with it stay readable, including ones written by a device that
+// had not yet noticed the rotation.
+interface RetiredKey {
+  key_id: string;
+  wrapped_key: string; // base64 nonce + ciphertext + tag
+}
+
+interface WrappedKey {
+  kdf: SaltedKdf;
+  wrapped_key: string;
+}
+
+/**
+ * Opt-in passphrase protection for the user's journal. A random data key
+ * encrypts everything; the passphrase, stretched with scrypt and a
+ * per-user salt, only wraps that key, so changing the passphrase never
+ * re-encrypts entries. A recovery key, shown once at setup, wraps the same
+ * data key so a forgotten passphrase can be replaced. Unlocking can be
+ * cached in the secure store behind biometrics.
+ */
+class KeyVault {
+  /** Whether the user's journal needs unlocking, as far as this device knows. */
+  async getLocalStatus(userId: string): Promise<KeyStatus> {
+    if (!(await EncryptionService.isProtected(userId))) return 'unprotected';
+    return (await EncryptionService.getUnlockedDataKey(userId)) ? 'unlocked' : 'locked';
+  }
+
+  /**
+   * Like getLocalStatus, but checked against the server: a passphrase may
+   * have been set, or the key rotated, on another device. Offline, the
+   * device's answer stands.
+   */
+  async getStatus(userId: string): Promise<KeyStatus> {
+    const status = await this.getLocalStatus(userId);
+    const bundle = await this.fetchBundle(userId).catch(error => {
+      console.warn('Could not check the journal key:', error);
+      return undefined;
+    });
+    if (!bundle) return status;
+
+    if (status === 'unprotected') {
+      this.emitStatus(userId, 'locked');
+      return 'locked';
+    }
+    if (status === 'unlocked' && bundle.key_id !== await EncryptionService.currentKeyId(userId)) {
+      // Only the passphrase (or recovery key) unwraps the new key
+      console.log('🔑 Journal key was rotated on another device');
+      this.lock(userId);
+      return 'locked';
+    }
+    return status;
+  }
+
+  /**
+   * Protect the journal with `passphrase`: create a data key, store it
+   * wrapped on the server, and re-encrypt existing data in the background.
+   * Returns the recovery key, which is not stored anywhere and must be
+   * shown to the user now.
+   */
+  async setUpPassphrase(userId: string, passphrase: string, useBiometrics: boolean): Promise<string> {
+    this.checkPassphrase(passphrase);
+    if (await this.getStatus(userId) !== 'unprotected') {
+      throw new Error('This journal already has a passphrase');
+    }
+
+    const dataKey = Buffer.from(Crypto.getRandomBytes(DATA_KEY_BYTES)).toString('base64');
+    const recoveryKey = generateCode(RECOVERY_KEY_BYTES);
+    const wrapped = await this.wrap(userId, dataKey, passphrase);
+    const recovery = await this.wrap(userId, dataKey, normalizeCode(recoveryKey));
+    const bundle: KeyBundle = {
+      user_id: userId,
+      key_id: await EncryptionService.keyIdOf(dataKey),
+      ...wrapped,
+      recovery_kdf: recovery.kdf,
+      recovery_wrapped_key: recovery.wrapped_key,
+    };
+
+    // Insert, never upsert: a bundle made on another device must not be replaced
+    const { error } = await supabase.from(TABLE).insert(bundle);
+    if (error) throw error;
+    await this.cacheBundle(bundle);
+
+    await EncryptionService.setDataKey(userId, dataKey);
+    if (useBiometrics) await this.setBiometricUnlock(userId, true);
+
+    console.log('🔑 Journal passphrase set');
+    this.emitStatus(userId, 'unlocked');
+    await reencryption.schedule(userId);
+    return recoveryKey;
+  }
+
+  /** Unlock with the passphrase. Throws if it is wrong. */
+  async unlockWithPassphrase(userId: string, passphrase: string): Promise<void> {
+    const bundle = await this.getBundle(userId);
+    const dataKey = await this.unwrap(userId, bundle, passphrase);
+    await this.unlocked(userId, dataKey, bundle);
+
+    // The secure store copy follows the current key
+    if (await this.isBiometricUnlockEnabled(userId)) await this.storeForBiometrics(userId, dataKey);
+  }
+
+  /** Unlock from the secure store copy. False if the user cancelled or there is none. */
+  async unlockWithBiometrics(userId: string): Promise<boolean> {
+    let dataKey: string | null = null;
+    try {
+      dataKey = await SecureStore.getItemAsync(SECURE_KEY_PREFIX + userId, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Unlock your journal',
+      });
+    } catch (error) {
+      console.warn('Biometric unlock failed:', error);
+    }
+    if (!dataKey) return false;
+
+    // A copy from before a key rotation; the passphrase replaces it
+    const bundle = await this.getBundle(userId);
+    if (await EncryptionService.keyIdOf(dataKey) !== bundle.key_id) return false;
+
+    await this.unlocked(userId, dataKey, bundle);
+    return true;
+  }
+
+  /** Re-wrap the data key under a new passphrase. Entries are untouched. */
+  async changePassphrase(userId: string, current: string, next: string): Promise<void> {
+    this.checkPassphrase(next);
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    const dataKey = await this.unwrap(userId, bundle, current);
+    await this.saveWrapped(bundle, await this.wrap(userId, dataKey, next));
+    console.log('🔑 Journal passphrase changed');
+  }
+
+  /** Whether the bundle has a recovery key; older ones were made without. */
+  async hasRecoveryKey(userId: string): Promise<boolean> {
+    const bundle = await this.getBundle(userId);
+    return !!bundle.recovery_wrapped_key;
+  }
+
+  /**
+   * Replace the recovery key with a new one, invalidating the old. Needs
+   * the journal unlocked. Returns the new key to show to the user.
+   */
+  async createRecoveryKey(userId: string): Promise<string> {
+    const dataKey = await EncryptionService.getUnlockedDataKey(userId);
+    if (!dataKey) throw new Error('Unlock your journal first');
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    if (bundle.key_id !== await EncryptionService.keyIdOf(dataKey)) {
+      throw new Error('The journal key was just changed on another device');
+    }
+
+    const recoveryKey = generateCode(RECOVERY_KEY_BYTES);
+    const recovery = await this.wrap(userId, dataKey, normalizeCode(recoveryKey));
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update({ recovery_kdf: recovery.kdf, recovery_wrapped_key: recovery.wrapped_key })
+      .eq('user_id', userId)
+      .eq('key_id', bundle.key_id)
+      .select('user_id');
+    if (error) throw error;
+    if (!data?.length) throw new Error('The journal key was just changed on another device');
+    await this.cacheBundle({ ...bundle, recovery_kdf: recovery.kdf, recovery_wrapped_key: recovery.wrapped_key });
+    console.log('🔑 New recovery key created');
+    return recoveryKey;
+  }
+
+  /**
+   * Unlock with the recovery key and set a new passphrase in the same step.
+   * Only the re-wrapped key goes to the server. The recovery key stays
+   * valid. Throws 'Incorrect recovery key' if it does not match.
+   */
+  async recoverWithKey(userId: string, recoveryKey: string, newPassphrase: string): Promise<void> {
+    this.checkPassphrase(newPassphrase);
+    // Always the server's bundle: a cached one may predate a newer recovery key
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    if (!bundle.recovery_kdf || !bundle.recovery_wrapped_key) {
+      throw new Error('This journal has no recovery key');
+    }
+
+    const dataKey = await this.unwrap(
+      userId,
+      { kdf: bundle.recovery_kdf, wrapped_key: bundle.recovery_wrapped_key },
+      normalizeCode(recoveryKey),
+      'Incorrect recovery key'
+    );
+    await this.saveWrapped(bundle, await this.wrap(userId, dataKey, newPassphrase));
+    console.log('🔑 Journal recovered with recovery key');
+
+    await this.unlocked(userId, dataKey, bundle);
+    if (await this.isBiometricUnlockEnabled(userId)) await this.storeForBiometrics(userId, dataKey);
+  }
+
+  /**
+   * Unlock with a data key sent by another of the user's devices (see
+   * devicePairing). Throws unless it is the bundle's current key.
+   */
+  async unlockWithTransferredKey(userId: string, dataKey: string): Promise<void> {
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    if (await EncryptionService.keyIdOf(dataKey) !== bundle.key_id) {
+      throw new Error('The other device sent an out-of-date key');
+    }
+    await this.unlocked(userId, dataKey, bundle);
+    if (await this.isBiometricUnlockEnabled(userId)) await this.storeForBiometrics(userId, dataKey);
+  }
+
+  /**
+   * Replace the data key after a suspected compromise. The bundle is
+   * swapped in one update: a new key wrapped under the same passphrase, a
+   * new recovery key (returned, to show the user), and the old keys kept
+   * wrapped under the new one so reads keep working. Then every blob is
+   * re-encrypted in a resumable background pass. Other devices lock until
+   * the passphrase is entered again.
+   */
+  async rotateKey(userId: string, passphrase: string): Promise<string> {
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    const current = await this.unwrap(userId, bundle, passphrase);
+    const retired = [current, ...(await this.openRetiredKeys(userId, current, bundle))];
+
+    const dataKey = Buffer.from(Crypto.getRandomBytes(DATA_KEY_BYTES)).toString('base64');
+    const recoveryKey = generateCode(RECOVERY_KEY_BYTES);
+    const recovery = await this.wrap(userId, dataKey, normalizeCode(recoveryKey));
+    const rotated: KeyBundle = {
+      user_id: userId,
+      key_id: await EncryptionService.keyIdOf(dataKey),
+      ...(await this.wrap(userId, dataKey, passphrase)),
+      recovery_kdf: recovery.kdf,
+      recovery_wrapped_key: recovery.wrapped_key,
+      retired_keys: await Promise.all(retired.map(key => this.sealRetiredKey(userId, dataKey, key))),
+    };
+
+    // Only over the key we unwrapped, so two devices rotating at once can't lose one
+    const { user_id, ...changes } = rotated;
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update(changes)
+      .eq('user_id', user_id)
+      .eq('key_id', bundle.key_id)
+      .select('user_id');
+    if (error) throw error;
+    if (!data?.length) throw new Error('The journal key was just changed on another device');
+    await this.cacheBundle(rotated);
+
+    await EncryptionService.setDataKey(userId, dataKey, retired);
+    if (await this.isBiometricUnlockEnabled(userId)) await this.storeForBiometrics(userId, dataKey);
+    console.log('🔑 Journal key rotated');
+    this.emitStatus(userId, 'unlocked');
+    await reencryption.schedule(userId);
+    return recoveryKey;
+  }
+
+  /** Forget the data key in memory; the journal needs unlocking again. */
+  lock(userId: string): void {
+    EncryptionService.clearKey();
+    entryCache.clear();
+    this.emitStatus(userId, 'locked');
+  }
+
+  async canUseBiometrics(): Promise<boolean> {
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch {
+      return false;
+    }
+  }
+
+  async isBiometricUnlockEnabled(userId: string): Promise<boolean> {
+    return (await AsyncStorage.getItem(BIOMETRIC_FLAG_PREFIX + userId)) === 'true';
+  }
+
+  /** Keep a copy of the unlocked data key in the secure store, or remove it. */
+  async setBiometricUnlock(userId: string, enabled: boolean): Promise<void> {
+    if (enabled) {
+      const dataKey = await EncryptionService.getUnlockedDataKey(userId);
+      if (!dataKey) throw new Error('Unlock your journal first');
+      await this.storeForBiometrics(userId, dataKey);
+    } else {
+      await SecureStore.deleteItemAsync(SECURE_KEY_PREFIX + userId);
+    }
+    await AsyncStorage.setItem(BIOMETRIC_FLAG_PREFIX + userId, String(enabled));
+  }
+
+  // ---------- helpers ----------
+
+  private async unlocked(userId: string, dataKey: string, bundle: KeyBundle): Promise<void> {
+    const retired = await this.openRetiredKeys(userId, dataKey, bundle);
+    await EncryptionService.setDataKey(userId, dataKey, retired);
+    console.log('🔓 Journal unlocked');
+    this.emitStatus(userId, 'unlocked');
+    reencryption.resume(userId);
+  }
+
+  private async storeForBiometrics(userId: string, dataKey: string): Promise<void> {
+    await SecureStore.setItemAsync(SECURE_KEY_PREFIX + userId, dataKey, {
+      requireAuthentication: true,
+      keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    });
+  }
+
+  private checkPassphrase(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  /**
+   * Store a passphrase re-wrap of the data key, keeping the recovery copy.
+   * Only over the key it wraps, so a rotation on another device can't be
+   * undone by writing the old key back.
+   */
+  private async saveWrapped(bundle: KeyBundle, wrapped: WrappedKey): Promise<void> {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update({ kdf: wrapped.kdf, wrapped_key: wrapped.wrapped_key })
+      .eq('user_id', bundle.user_id)
+      .eq('key_id', bundle.key_id)
+      .select('user_id');
+    if (error) throw error;
+    if (!data?.length) throw new Error('The journal key was just changed on another device');
+    await this.cacheBundle({ ...bundle, ...wrapped });
+  }
+
+  private async wrap(userId: string, dataKey: string, secret: string): Promise<WrappedKey> {
+    const salt = Crypto.getRandomBytes(SALT_BYTES);
+    const kek = await this.deriveWrappingKey(secret, salt, DEFAULT_KDF);
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const sealed = gcm(kek, nonce, this.bundleAad(userId)).encrypt(Buffer.from(dataKey, 'utf8'));
+
+    return {
+      kdf: { ...DEFAULT_KDF, salt: Buffer.from(salt).toString('base64') },
+      wrapped_key: Buffer.concat([nonce, sealed]).toString('base64'),
+    };
+  }
+
+  private async unwrap(
+    userId: string,
+    wrapped: WrappedKey,
+    secret: string,
+    wrongSecretMessage = 'Incorrect passphrase'
+  ): Promise<string> {
+    const { salt, ...params } = wrapped.kdf;
+    const kek = await this.deriveWrappingKey(secret, Buffer.from(salt, 'base64'), params);
+    const sealed = Buffer.from(wrapped.wrapped_key, 'base64');
+    try {
+      const dataKey = gcm(kek, sealed.subarray(0, NONCE_BYTES), this.bundleAad(userId))
+        .decrypt(sealed.subarray(NONCE_BYTES));
+      return Buffer.from(dataKey).toString('utf8');
+    } catch {
+      throw new Error(wrongSecretMessage);
+    }
+  }
+
+  private async sealRetiredKey(userId: string, dataKey: string, retired: string): Promise<RetiredKey> {
+    const keyId = await EncryptionService.keyIdOf(retired);
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const sealed = gcm(Buffer.from(dataKey, 'base64'), nonce, this.retiredKeyAad(userId, keyId))
+      .encrypt(Buffer.from(retired, 'utf8'));
+    return { key_id: keyId, wrapped_key: Buffer.concat([nonce, sealed]).toString('base64') };
+  }
+
+  private async openRetiredKeys(userId: string, dataKey: string, bundle: KeyBundle): Promise<string[]> {
+    return (bundle.retired_keys ?? []).map(({ key_id, wrapped_key }) => {
+      const sealed = Buffer.from(wrapped_key, 'base64');
+      const retired = gcm(Buffer.from(dataKey, 'base64'), sealed.subarray(0, NONCE_BYTES), this.retiredKeyAad(userId, key_id))
+        .decrypt(sealed.subarray(NONCE_BYTES));
+      return Buffer.from(retired).toString('utf8');
+    });
+  }
+
+  private deriveWrappingKey(passphrase: string, salt: Uint8Array, params: KdfParams): Promise<Uint8Array> {
+    if (params.name !== 'scrypt') throw new Error(`Unsupported key derivation: ${params.name}`);
+    return scryptAsync(passphrase.normalize('NFKC'), salt, { N: params.N, r: params.r, p: params.p, dkLen: 32 });
+  }
+
+  // Binds a bundle to its account, so it cannot be swapped onto another
+  private bundleAad(userId: string): Uint8Array {
+    return Buffer.from(`quill-key-bundle:${userId}`, 'utf8');
+  }
+
+  private retiredKeyAad(userId: string, keyId: string): Uint8Array {
+    return Buffer.from(`quill-retired-key:${userId}:${keyId}`, 'utf8');
+  }
+
+  /** The cached bundle, or the server's when this device has none. */
+  private async getBundle(userId: string): Promise<KeyBundle> {
+    const json = await AsyncStorage.getItem(BUNDLE_CACHE_PREFIX + userId);
+    if (json) return JSON.parse(json);
+    const bundle = await this.fetchBundle(userId);
+    if (!bundle) throw new Error('No passphrase is set for this journal');
+    return bundle;
+  }
+
+  private async fetchBundle(userId: string): Promise<KeyBundle | null> {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle<KeyBundle>();
+    if (error) throw error;
+    if (data) {
+      const known = await EncryptionService.isProtected(userId);
+      await this.cacheBundle(data);
+      if (!known) await EncryptionService.markProtected(userId);
+    }
+    await EncryptionService.markKeyChecked(userId);
+    return data;
+  }
+
+  private async cacheBundle(bundle: KeyBundle): Promise<void> {
+    await AsyncStorage.setItem(BUNDLE_CACHE_PREFIX + bundle.user_id, JSON.stringify(bundle));
+  }
+
+  private emitStatus(userId: string, status: KeyStatus): void {
+    DeviceEventEmitter.emit(KEY_STATUS_EVENT, { userId, status });
+  }
+}
+
+/**
+ * `bytes` of randomness as base32 in groups of four, e.g. "7KQ2-M9XD-…",
+ * easy to read aloud and write down. Used for recovery keys and pairing codes.
+ */
+export const generateCode = (bytes: number): string => {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of Crypto.getRandomBytes(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += CODE_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  return out.match(/.{1,4}/g)!.join('-');
+};
+
+/**
+ * A code as typed: case, spaces and dashes do not matter, and the letters
+ * O, I and L are read as the digits they look like.
+ */
+export const normalizeCode = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+    .replace(/[^0-9A-Z]/g, '');
+
+export const keyVault = new KeyVault();
@@ -1,9 +1,22 @@
 // src/services/migrationService.ts
 import { supabase } from '@/services/supabase';
-import { EncryptionService } from './encryption';
+import { EncryptionService, isJournalLockedError } from './encryption';
+import { MigrationProgress, MigrationRunner, MigrationStepContext } from './migrations';
+import { reencryption, rewriteEntryBlob } from './reencryption';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-const MIGRATION_KEY = 'encryption_migration_completed';
+// Pre-runner completion flag, still honoured so finished users skip step 1
+const LEGACY_MIGRATION_KEY = 'encryption_migration_completed';
+const CHECKPOINT_EVERY = 20;
+const METADATA_PAGE_SIZE = 200;
+
+// Tables whose rows carried mood, photo flag and location in the clear,
+// with the column that orders them. Entries go first: moving an entry's
+// metadata records a revision holding the old plaintext columns.
+const METADATA_TABLES = [
+  { table: 'entries', key: 'id' },
+  { table: 'entry_revisions', key: 'revision_id' },
+] as const;
 
 interface LegacyEntryRow {
   id: string;
@@ -20,36 +33,58 @@ interface LegacyEntryRow {
 
 export class MigrationService {
   /**
-   * Check if migration is needed and run it
+   * Per-user data migrations, in order. Append new steps with the next
+   * version number; never renumber or remove a shipped step.
    */
-  static async runMigrationIfNeeded(userId: string): Promise<void> {
-    const migrationKey = `${MIGRATION_KEY}_${userId}`;
-    const completed = await AsyncStorage.getItem(migrationKey);
-    
-    if (completed === 'true') {
-      console.log('Migration already completed for user:', userId);
-      return;
+  static readonly userMigrations = new MigrationRunner('user', [
+    { version: 1, name: 'encrypt-legacy-entries', run: ctx => MigrationService.migrateUserEntries(ctx) },
+    { version: 2, name: 'upgrade-encryption', run: ctx => MigrationService.upgradeEncryption(ctx) },
+    { version: 3, name: 'encrypt-entry-metadata', run: ctx => MigrationService.encryptEntryMetadata(ctx) },
+  ]);
+
+  /**
+   * Bring the user's data up to the latest version. Returns true if any
+   * step ran (callers may want to reload).
+   */
+  static async runMigrationIfNeeded(
+    userId: string,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<boolean> {
+    const runner = this.userMigrations;
+    const before = await runner.getVersion(userId);
+    if (before >= runner.latestVersion) {
+      console.log('Migrations already up to date for user:', userId);
+      return false;
     }
 
-    console.log('Starting encryption migration for user:', userId);
-    await this.migrateUserEntries(userId);
-    
-    // Mark migration as completed
-    await AsyncStorage.setItem(migrationKey, 'true');
-    console.log('Migration completed for user:', userId);
+    const after = await runner.run(userId, onProgress);
+    console.log(`Migrations for user ${userId}: v${before} -> v${after}`);
+    return after > before;
   }
 
   /**
-   * Migrate all entries for a user from unencrypted to encrypted format
+   * Migrate all entries for a user from unencrypted to encrypted format.
+   * Walks rows in id order and checkpoints the last id, so an interrupted
+   * run picks up after it.
    */
-  private static async migrateUserEntries(userId: string): Promise<void> {
+  private static async migrateUserEntries(ctx: MigrationStepContext): Promise<void> {
+    const userId = ctx.ownerId;
+    if (await AsyncStorage.getItem(`${LEGACY_MIGRATION_KEY}_${userId}`) === 'true') {
+      console.log('Encryption migration already completed for user:', userId);
+      return;
+    }
+
     try {
-      // Get all entries for this user
-      const { data: entries, error } = await supabase
+      // Get all entries for this user not handled by an earlier run
+      let query = supabase
         .from('entries')
         .select('*')
         .eq('user_id', userId)
-        .eq('tombstoned', false);
+        .eq('tombstoned', false)
+        .order('id', { ascending: true });
+      if (ctx.checkpoint) query = query.gt('id', ctx.checkpoint);
+
+      const { data: entries, error } = await query;
 
       if (error) throw error;
       if (!entries || entries.length === 0) {
@@ -60,8 +95,13 @@ export class MigrationService {
       console.log(`Migrating ${entries.length} entries...`);
       let migratedCount = 0;
       let errorCount = 0;
+      const rows = entries as LegacyEntryRow[];
+
+      for (let i = 0; i < rows.length; i++) {
+        const entry = rows[i];
+        ctx.reportProgress(i, rows.length);
+        if (i > 0 && i % CHECKPOINT_EVERY === 0) await ctx.saveCheckpoint(rows[i - 1].id);
 
-      for (const entry of entries as LegacyEntryRow[]) {
         try {
           // Check if this entry is already encrypted
           if (this.isAlreadyEncrypted(entry.encrypted_blob)) {
@@ -85,21 +125,11 @@ export class MigrationService {
           // Encrypt the sensitive data
           const encryptedBlob = await EncryptionService.encrypt(sensitiveData, userId);
 
-          // Update the entry with encrypted blob
-          const { error: updateError } = await supabase
-            .from('entries')
-            .update({
-              encrypted_blob: encryptedBlob,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', entry.id)
-            .eq('user_id', userId);
-
-          if (updateError) {
-            console.error(`Failed to migrate entry ${entry.id}:`, updateError);
-            errorCount++;
-          } else {
+          // Update the entry with encrypted blob; the same content, so no revision
+          if (await rewriteEntryBlob(entry.id, encryptedBlob, entry.updated_at)) {
             migratedCount++;
+          } else {
+            console.log(`Entry ${entry.id} changed during migration, skipping`);
           }
 
         } catch (entryError) {
@@ -107,6 +137,7 @@ export class MigrationService {
           errorCount++;
         }
       }
+      ctx.reportProgress(rows.length, rows.length);
 
       console.log(`Migration summary: ${migratedCount} successful, ${errorCount} failed`);
 
@@ -120,6 +151,90 @@ export class MigrationService {
     }
   }
 
+  /**
+   * Re-encrypt every blob still in the legacy XOR format into the current
+   * envelope, resuming from the step's checkpoint.
+   */
+  private static async upgradeEncryption(ctx: MigrationStepContext): Promise<void> {
+    await reencryption.run(ctx.ownerId, ctx);
+  }
+
+  /**
+   * Move mood, the photo flag and location from plaintext columns into the
+   * encrypted payload, for entries and then their revisions, and clear the
+   * columns. Checkpoints as "<table>:<last key>". A value already in the
+   * payload wins; entries edited since they were read are left for their
+   * new version, which is written without the columns.
+   */
+  private static async encryptEntryMetadata(ctx: MigrationStepContext): Promise<void> {
+    const userId = ctx.ownerId;
+    const [resumeTable, resumeKey] = ctx.checkpoint ? ctx.checkpoint.split(/:(.*)/s) : [null, null];
+    const startAt = Math.max(0, METADATA_TABLES.findIndex(t => t.table === resumeTable));
+    let movedCount = 0;
+    let errorCount = 0;
+
+    for (let index = startAt; index < METADATA_TABLES.length; index++) {
+      const { table, key } = METADATA_TABLES[index];
+      let after = index === startAt ? resumeKey : null;
+      ctx.reportProgress(index, METADATA_TABLES.length);
+
+      for (;;) {
+        let query = supabase
+          .from(table)
+          .select(`${key}, encrypted_blob, mood_score, has_photos, location_data, updated_at`)
+          .eq('user_id', userId)
+          .or('mood_score.not.is.null,has_photos.not.is.null,location_data.not.is.null')
+          .order(key, { ascending: true })
+          .limit(METADATA_PAGE_SIZE);
+        if (after) query = query.gt(key, after);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        const rows = (data as Record<string, any>[]) || [];
+
+        for (const row of rows) {
+          try {
+            const content = typeof row.encrypted_blob === 'string'
+              ? await EncryptionService.decrypt(row.encrypted_blob, userId)
+              : row.encrypted_blob ?? {};
+            const payload = {
+              ...content,
+              mood: content.mood ?? row.mood_score ?? undefined,
+              hasPhotos: content.hasPhotos ?? row.has_photos ?? undefined,
+              locationData: content.locationData ?? row.location_data ?? undefined,
+            };
+
+            const encryptedBlob = await EncryptionService.encrypt(payload, userId);
+            if (table === 'entries') {
+              // Not an edit, so it records no revision
+              if (await rewriteEntryBlob(row[key], encryptedBlob, row.updated_at, true)) movedCount++;
+              continue;
+            }
+
+            const { error: updateError } = await supabase
+              .from(table)
+              .update({ encrypted_blob: encryptedBlob, mood_score: null, has_photos: null, location_data: null })
+              .eq(key, row[key])
+              .eq('user_id', userId);
+            if (updateError) throw updateError;
+            movedCount++;
+          } catch (rowError) {
+            if (isJournalLockedError(rowError)) throw rowError;
+            console.error(`Failed to encrypt metadata of ${table} ${row[key]}:`, rowError);
+            errorCount++;
+          }
+        }
+
+        if (rows.length < METADATA_PAGE_SIZE) break;
+        after = rows[rows.length - 1][key];
+        await ctx.saveCheckpoint(`${table}:${after}`);
+      }
+    }
+    ctx.reportProgress(METADATA_TABLES.length, METADATA_TABLES.length);
+
+    console.log(`Metadata migration summary: ${movedCount} rows encrypted, ${errorCount} failed`);
+  }
+
   /**
    * Check if an encrypted_blob is already in encrypted format
    */
@@ -142,8 +257,7 @@ export class MigrationService {
    * Force re-run migration (for testing or fixing issues)
    */
   static async resetMigration(userId: string): Promise<void> {
-    const migrationKey = `${MIGRATION_KEY}_${userId}`;
-    await AsyncStorage.removeItem(migrationKey);
-    console.log('Migration reset for user:', userId);
+    await AsyncStorage.removeItem(`${LEGACY_MIGRATION_KEY}_${userId}`);
+    await this.userMigrations.reset(userId);
   }
 }
\ No newline at end of file
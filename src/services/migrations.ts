@@ -0,0 +1,152 @@
+// src/services/migrations.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+
+const STATE_PREFIX = '@journal/migrations/';
+
+export const MIGRATION_PROGRESS_EVENT = 'migrations:progress';
+
+export interface MigrationStepContext {
+  ownerId: string;
+  checkpoint: string | null; // left by an interrupted earlier run of this step
+  saveCheckpoint: (checkpoint: string) => Promise<void>;
+  reportProgress: (done: number, total: number) => void;
+}
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  run: (ctx: MigrationStepContext) => Promise<void>;
+}
+
+export interface MigrationProgress {
+  runner: string;
+  version: number;
+  name: string;
+  step: number;      // 1-based index among the steps this run applies
+  stepCount: number;
+  done: number;
+  total: number;
+}
+
+type MigrationState = {
+  version: number;
+  pending?: { version: number; checkpoint: string | null };
+};
+
+/**
+ * Applies ordered, versioned steps to one owner's local data (a user id, or
+ * 'device' for data that is not per-user). The version is stored after each
+ * step, and steps can save a checkpoint, so a run that crashes or is killed
+ * resumes where it stopped instead of starting over.
+ */
+export class MigrationRunner {
+  private running = new Map<string, Promise<number>>();
+
+  constructor(private readonly name: string, private readonly steps: MigrationStep[]) {
+    const versions = steps.map(s => s.version);
+    if (versions.some((v, i) => v < 1 || (i > 0 && v <= versions[i - 1]))) {
+      throw new Error(`Migration steps for "${name}" must have ascending versions starting at 1`);
+    }
+  }
+
+  get latestVersion(): number {
+    return this.steps.length ? this.steps[this.steps.length - 1].version : 0;
+  }
+
+  async getVersion(ownerId: string): Promise<number> {
+    return (await this.loadState(ownerId)).version;
+  }
+
+  /**
+   * Run every step newer than the stored version, in order. Returns the
+   * resulting version. Concurrent calls for the same owner share one run.
+   */
+  run(ownerId: string, onProgress?: (progress: MigrationProgress) => void): Promise<number> {
+    let pending = this.running.get(ownerId);
+    if (!pending) {
+      pending = this.runSteps(ownerId, onProgress).finally(() => {
+        this.running.delete(ownerId);
+      });
+      this.running.set(ownerId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Forget all progress so every step runs again (for testing or repairs).
+   */
+  async reset(ownerId: string): Promise<void> {
+    await AsyncStorage.removeItem(this.stateKey(ownerId));
+    console.log(`Migrations "${this.name}" reset for:`, ownerId);
+  }
+
+  private async runSteps(
+    ownerId: string,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<number> {
+    const state = await this.loadState(ownerId);
+    const due = this.steps.filter(s => s.version > state.version);
+    if (due.length === 0) return state.version;
+
+    console.log(`🧳 Running ${due.length} "${this.name}" migration(s) from v${state.version}`);
+
+    for (let index = 0; index < due.length; index++) {
+      const step = due[index];
+      const resumeFrom = state.pending?.version === step.version ? state.pending.checkpoint : null;
+      if (resumeFrom) console.log(`Resuming migration ${step.name} from checkpoint`);
+
+      const report = (done: number, total: number) => {
+        const progress: MigrationProgress = {
+          runner: this.name,
+          version: step.version,
+          name: step.name,
+          step: index + 1,
+          stepCount: due.length,
+          done,
+          total,
+        };
+        onProgress?.(progress);
+        DeviceEventEmitter.emit(MIGRATION_PROGRESS_EVENT, progress);
+      };
+
+      state.pending = { version: step.version, checkpoint: resumeFrom };
+      await this.saveState(ownerId, state);
+
+      await step.run({
+        ownerId,
+        checkpoint: resumeFrom,
+        saveCheckpoint: async (checkpoint) => {
+          state.pending = { version: step.version, checkpoint };
+          await this.saveState(ownerId, state);
+        },
+        reportProgress: report,
+      });
+
+      state.version = step.version;
+      delete state.pending;
+      await this.saveState(ownerId, state);
+      console.log(`✅ Migration ${step.name} complete (v${step.version})`);
+    }
+
+    return state.version;
+  }
+
+  private stateKey(ownerId: string): string {
+    return `${STATE_PREFIX}${this.name}/${ownerId}`;
+  }
+
+  private async loadState(ownerId: string): Promise<MigrationState> {
+    try {
+      const json = await AsyncStorage.getItem(this.stateKey(ownerId));
+      return json ? JSON.parse(json) : { version: 0 };
+    } catch (error) {
+      console.error('Failed to read migration state:', error);
+      return { version: 0 };
+    }
+  }
+
+  private async saveState(ownerId: string, state: MigrationState): Promise<void> {
+    await AsyncStorage.setItem(this.stateKey(ownerId), JSON.stringify(state));
+  }
+}
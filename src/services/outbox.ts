@@ -0,0 +1,281 @@
+// src/services/outbox.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Entry } from '@/types/journal';
+import { generateId } from '@/utils/id';
+import { isJournalLockedError } from './encryption';
+
+const OUTBOX_KEY = '@journal/outbox';
+const FAILED_KEY = '@journal/outbox-failed';
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+
+export const OUTBOX_FLUSHED_EVENT = 'entries:outboxFlushed';
+
+const WAITING_MESSAGE = 'Waiting on an earlier change to this entry';
+
+export type OutboxOperation =
+  | { kind: 'create'; entry: Entry }
+  | { kind: 'update'; entryId: string; updates: Partial<Entry>; base?: Entry }
+  | { kind: 'delete'; entryId: string }
+  | { kind: 'restore'; entryId: string }
+  | { kind: 'purge'; entryId: string };
+
+export interface OutboxItem {
+  id: string;
+  userId: string;
+  op: OutboxOperation;
+  enqueuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+/**
+ * True when an error means "the server could not be reached" rather than
+ * "the server rejected the request". Only the former is worth queueing.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = String((error as any)?.message ?? error ?? '').toLowerCase();
+  return (
+    message.includes('network request failed') ||
+    message.includes('failed to fetch') ||
+    message.includes('fetch failed') ||
+    message.includes('network error') ||
+    message.includes('timed out') ||
+    message.includes('timeout')
+  );
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS);
+}
+
+function entryIdOf(op: OutboxOperation): string {
+  return op.kind === 'create' ? op.entry.id : op.entryId;
+}
+
+/**
+ * Persistent queue of entry mutations that could not reach Supabase.
+ * Items are replayed in order. When the server can't be reached, or the
+ * journal is locked, the pass stops and the whole queue backs off
+ * exponentially. A write the server rejects is moved to the failed list,
+ * with any later writes to the same entry, for the user to retry or
+ * discard, and the rest of the queue carries on.
+ */
+class EntryOutbox {
+  private items: OutboxItem[] | null = null;
+  private failed: OutboxItem[] | null = null;
+  private replaying: Promise<number> | null = null;
+
+  async list(): Promise<OutboxItem[]> {
+    if (this.items) return this.items;
+    try {
+      const json = await AsyncStorage.getItem(OUTBOX_KEY);
+      this.items = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+      this.items = [];
+    }
+    return this.items!;
+  }
+
+  async forUser(userId: string): Promise<OutboxItem[]> {
+    return (await this.list()).filter(i => i.userId === userId);
+  }
+
+  /** Writes the server rejected, oldest first, each with its last error. */
+  async failedForUser(userId: string): Promise<OutboxItem[]> {
+    return (await this.listFailed()).filter(i => i.userId === userId);
+  }
+
+  /**
+   * Put a failed write back in the queue, due now, together with the
+   * writes to the same entry that were set aside behind it, in their
+   * original order. Nothing for that entry is queued meanwhile (see
+   * enqueue), so they replay before any later write to it.
+   */
+  async retryFailed(itemId: string): Promise<void> {
+    const failed = await this.listFailed();
+    const item = failed.find(i => i.id === itemId);
+    if (!item) return;
+
+    const now = new Date().toISOString();
+    const sameEntry = (i: OutboxItem) => i.userId === item.userId && entryIdOf(i.op) === entryIdOf(item.op);
+    await this.save([
+      ...(await this.list()),
+      ...failed.filter(sameEntry).map(i => ({ ...i, attempts: 0, nextAttemptAt: now })),
+    ]);
+    await this.saveFailed(failed.filter(i => !sameEntry(i)));
+  }
+
+  async discardFailed(itemId: string): Promise<void> {
+    await this.saveFailed((await this.listFailed()).filter(i => i.id !== itemId));
+  }
+
+  /**
+   * Queue a mutation, folding it into a pending create for the same entry
+   * where possible so replay sends one write instead of several. While an
+   * earlier write to the entry is set aside, this one waits with it.
+   */
+  async enqueue(userId: string, op: OutboxOperation): Promise<void> {
+    const items = [...(await this.list())];
+    const targetId = entryIdOf(op);
+
+    const failed = await this.listFailed();
+    if (failed.some(i => i.userId === userId && entryIdOf(i.op) === targetId)) {
+      const now = new Date().toISOString();
+      await this.saveFailed([
+        ...failed,
+        { id: generateId(), userId, op, enqueuedAt: now, attempts: 0, nextAttemptAt: now, lastError: WAITING_MESSAGE },
+      ]);
+      return;
+    }
+    const pendingCreate = items.find(
+      i => i.userId === userId && i.op.kind === 'create' && i.op.entry.id === targetId
+    );
+
+    if (pendingCreate && pendingCreate.op.kind === 'create') {
+      if (op.kind === 'delete' || op.kind === 'purge') {
+        // Never reached the server: drop every queued op for this entry
+        await this.save(items.filter(i => i.userId !== userId || entryIdOf(i.op) !== targetId));
+        return;
+      }
+      if (op.kind === 'update') {
+        pendingCreate.op = {
+          kind: 'create',
+          entry: { ...pendingCreate.op.entry, ...op.updates, id: targetId, updatedAt: new Date().toISOString() },
+        };
+        await this.save(items);
+        return;
+      }
+    }
+
+    const now = new Date().toISOString();
+    items.push({ id: generateId(), userId, op, enqueuedAt: now, attempts: 0, nextAttemptAt: now });
+    await this.save(items);
+  }
+
+  /**
+   * Overlay queued mutations onto a list fetched from the server so the UI
+   * keeps showing writes that have not been replayed yet.
+   */
+  async applyPending(userId: string, entries: Entry[]): Promise<Entry[]> {
+    const items = await this.forUser(userId);
+    if (items.length === 0) return entries;
+
+    const byId = new Map(entries.map(e => [e.id, e]));
+    for (const { op } of items) {
+      if (op.kind === 'create') {
+        byId.set(op.entry.id, op.entry);
+      } else if (op.kind === 'update') {
+        const current = byId.get(op.entryId);
+        if (current) byId.set(op.entryId, { ...current, ...op.updates, id: op.entryId });
+      } else if (op.kind !== 'restore') {
+        byId.delete(op.entryId);
+      }
+    }
+
+    return Array.from(byId.values()).sort(
+      (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+
+  /**
+   * Milliseconds until the next item is due, or null if the queue is empty.
+   */
+  async nextDelay(userId: string): Promise<number | null> {
+    const items = await this.forUser(userId);
+    if (items.length === 0) return null;
+    return Math.max(0, new Date(items[0].nextAttemptAt).getTime() - Date.now());
+  }
+
+  /**
+   * Replay due items through `apply`. Returns how many items were flushed.
+   * Concurrent callers share the same pass.
+   */
+  replay(userId: string, apply: (op: OutboxOperation) => Promise<void>, force = false): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(userId, apply, force).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(
+    userId: string,
+    apply: (op: OutboxOperation) => Promise<void>,
+    force: boolean
+  ): Promise<number> {
+    let flushed = 0;
+
+    while (true) {
+      const [head] = await this.forUser(userId);
+      if (!head) break;
+      if (!force && new Date(head.nextAttemptAt).getTime() > Date.now()) break;
+
+      try {
+        await apply(head.op);
+        await this.save((await this.list()).filter(i => i.id !== head.id));
+        flushed++;
+      } catch (error: any) {
+        const attempts = head.attempts + 1;
+        if (!isNetworkError(error) && !isJournalLockedError(error)) {
+          // Later writes to the entry build on this one, so they wait with it
+          console.warn('Outbox write rejected, moved to failed writes:', error?.message ?? error);
+          const targetId = entryIdOf(head.op);
+          const items = await this.list();
+          const later = items.filter(i => i.id !== head.id && i.userId === userId && entryIdOf(i.op) === targetId);
+          await this.saveFailed([
+            ...(await this.listFailed()),
+            { ...head, attempts, lastError: String(error?.message ?? error) },
+            ...later.map(i => ({ ...i, lastError: WAITING_MESSAGE })),
+          ]);
+          await this.save(items.filter(i => i.id !== head.id && !later.includes(i)));
+          continue;
+        }
+
+        const delay = backoffDelay(attempts);
+        console.warn(`Outbox replay failed (attempt ${attempts}), retrying in ${Math.round(delay / 1000)}s:`, error?.message ?? error);
+
+        const nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        await this.save(
+          (await this.list()).map(i =>
+            i.id === head.id
+              ? { ...i, attempts, nextAttemptAt, lastError: String(error?.message ?? error) }
+              : i.userId === userId && i.nextAttemptAt < nextAttemptAt
+                ? { ...i, nextAttemptAt }
+                : i
+          )
+        );
+        break;
+      }
+    }
+
+    return flushed;
+  }
+
+  private async listFailed(): Promise<OutboxItem[]> {
+    if (this.failed) return this.failed;
+    try {
+      const json = await AsyncStorage.getItem(FAILED_KEY);
+      this.failed = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to load failed outbox writes:', error);
+      this.failed = [];
+    }
+    return this.failed!;
+  }
+
+  private async save(items: OutboxItem[]): Promise<void> {
+    this.items = items;
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  }
+
+  private async saveFailed(items: OutboxItem[]): Promise<void> {
+    this.failed = items;
+    await AsyncStorage.setItem(FAILED_KEY, JSON.stringify(items));
+  }
+}
+
+export const entryOutbox = new EntryOutbox();
@@ -3,7 +3,8 @@
 import { EdgeApi } from './apiClient';
 import { supabase } from './supabase';
 import { Entry } from '@/types/journal';
-import { entriesService } from './entries';
+import { inJournal } from './repository';
+import { entryRepository } from './repository/entryRepository';
 
 export interface DaySummary {
   id: string;
@@ -87,13 +88,14 @@ export class PeriodAnalyzer {
     return this.generateAndCacheDaySummary(date, dayEntries);
   }
 
-  static async analyzeWeekEntries(startDate: string, endDate: string): Promise<PeriodAnalysis> {
-    const entries = await this.getEntriesInDateRange(startDate, endDate);
+  // Reviews cover one journal when given its id, otherwise every journal
+  static async analyzeWeekEntries(startDate: string, endDate: string, journalId?: string): Promise<PeriodAnalysis> {
+    const entries = await this.getEntriesInDateRange(startDate, endDate, journalId);
     return this.runAIAnalysis(entries, 'week', startDate, endDate);
   }
 
-  static async analyzeMonthEntries(startDate: string, endDate: string): Promise<PeriodAnalysis> {
-    const entries = await this.getEntriesInDateRange(startDate, endDate);
+  static async analyzeMonthEntries(startDate: string, endDate: string, journalId?: string): Promise<PeriodAnalysis> {
+    const entries = await this.getEntriesInDateRange(startDate, endDate, journalId);
     return this.runAIAnalysis(entries, 'month', startDate, endDate);
   }
 
@@ -102,7 +104,7 @@ export class PeriodAnalyzer {
     try {
       console.log(`📊 handleEntryChange triggered for ${entryDate}`);
       
-      const groupedEntries = await entriesService.groupEntriesByDay();
+      const groupedEntries = await entryRepository.groupEntriesByDay();
       const dayEntries = groupedEntries[entryDate] || [];
       
       console.log(`📈 Found ${dayEntries.length} entries for ${entryDate}`);
@@ -304,11 +306,12 @@ export class PeriodAnalyzer {
     return title;
   }
 
-  private static async getEntriesInDateRange(startDate: string, endDate: string): Promise<Entry[]> {
-    return entriesService.listByDateRange(
+  private static async getEntriesInDateRange(startDate: string, endDate: string, journalId?: string): Promise<Entry[]> {
+    const entries = await entryRepository.listByDateRange(
       new Date(startDate + 'T00:00:00.000Z'),
       new Date(endDate + 'T23:59:59.999Z')
     );
+    return entries.filter(e => inJournal(e, journalId));
   }
 
   private static async runAIAnalysis(
@@ -433,7 +436,7 @@ export class PeriodAnalyzer {
       try {
         console.log(`🔧 Processing outdated summary for ${date}...`);
         
-        const groupedEntries = await entriesService.groupEntriesByDay();
+        const groupedEntries = await entryRepository.groupEntriesByDay();
         const dayEntries = groupedEntries[date] || [];
         
         if (dayEntries.length > 1) {
@@ -0,0 +1,216 @@
+// src/services/photoCache.ts
+import * as FileSystem from 'expo-file-system/legacy';
+import { isLocalUri } from './imageUpload';
+import { storageService } from './storage/sqliteStorage';
+
+const CACHE_DIR = `${FileSystem.documentDirectory}photo-cache/`;
+const INDEX_KEY = 'photo_cache_index';
+const MAX_BYTES_KEY = 'photo_cache_max_bytes';
+const PERSIST_DELAY_MS = 2000;
+
+export const DEFAULT_PHOTO_CACHE_MAX_BYTES = 250 * 1024 * 1024;
+
+type CachedPhoto = {
+  file: string; // name inside CACHE_DIR
+  size: number;
+  lastAccess: number;
+};
+
+// Two 32-bit FNV-1a passes with different seeds; plenty to keep URLs apart
+function hashUrl(url: string): string {
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (let i = 0; i < url.length; i++) {
+    const c = url.charCodeAt(i);
+    a = Math.imul(a ^ c, 0x01000193);
+    b = Math.imul(b ^ c, 0x811c9dc5);
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+}
+
+function extensionOf(url: string): string {
+  const match = url.split('?')[0].match(/\.([a-z0-9]{2,5})$/i);
+  return match ? match[1].toLowerCase() : 'jpg';
+}
+
+/**
+ * Remote photos downloaded to the app's document directory so they show
+ * offline and are fetched once. Least recently viewed photos are evicted
+ * when the cache grows past its size cap.
+ */
+class PhotoCache {
+  private index = new Map<string, CachedPhoto>();
+  private maxBytes = DEFAULT_PHOTO_CACHE_MAX_BYTES;
+  private loading: Promise<void> | null = null;
+  private downloads = new Map<string, Promise<string>>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * The cached file for a photo if there is one, without touching the
+   * network. Only answers once the index has loaded.
+   */
+  peek(uri: string): string | null {
+    if (isLocalUri(uri)) return uri;
+    const hit = this.index.get(uri);
+    return hit ? CACHE_DIR + hit.file : null;
+  }
+
+  /**
+   * A local path for a photo, downloading it first if needed. Falls back
+   * to the remote URL when the download fails.
+   */
+  async resolve(uri: string): Promise<string> {
+    if (isLocalUri(uri)) return uri;
+    await this.load();
+
+    const hit = this.index.get(uri);
+    if (hit) {
+      hit.lastAccess = Date.now();
+      this.schedulePersist();
+      return CACHE_DIR + hit.file;
+    }
+
+    let download = this.downloads.get(uri);
+    if (!download) {
+      download = this.download(uri).finally(() => this.downloads.delete(uri));
+      this.downloads.set(uri, download);
+    }
+    try {
+      return await download;
+    } catch (error) {
+      console.warn('Photo cache download failed, using remote URL:', uri, error);
+      return uri;
+    }
+  }
+
+  async prefetch(uris: string[]): Promise<void> {
+    for (const uri of uris) {
+      await this.resolve(uri);
+    }
+  }
+
+  /** Drop photos that no longer exist anywhere, e.g. after a purge. */
+  async remove(uris: string[]): Promise<void> {
+    await this.load();
+    for (const uri of uris) {
+      const hit = this.index.get(uri);
+      if (!hit) continue;
+      this.index.delete(uri);
+      await FileSystem.deleteAsync(CACHE_DIR + hit.file, { idempotent: true });
+    }
+    this.schedulePersist();
+  }
+
+  async getSize(): Promise<number> {
+    await this.load();
+    let total = 0;
+    this.index.forEach(photo => {
+      total += photo.size;
+    });
+    return total;
+  }
+
+  async getMaxBytes(): Promise<number> {
+    await this.load();
+    return this.maxBytes;
+  }
+
+  async setMaxBytes(bytes: number): Promise<void> {
+    await this.load();
+    this.maxBytes = bytes;
+    await storageService.setSetting(MAX_BYTES_KEY, String(bytes));
+    await this.evict();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.index = new Map();
+    await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+    await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+    await this.persist();
+    console.log('🧹 Photo cache cleared');
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndex().catch(error => {
+        console.warn('Photo cache index unreadable, starting empty:', error);
+      });
+    }
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<void> {
+    await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+
+    const [json, maxBytes] = await Promise.all([
+      storageService.getSetting(INDEX_KEY),
+      storageService.getSetting(MAX_BYTES_KEY),
+    ]);
+    if (maxBytes && Number(maxBytes) > 0) this.maxBytes = Number(maxBytes);
+    if (!json) return;
+
+    // Trust the directory over the index: files may have been removed under us
+    const files = new Set(await FileSystem.readDirectoryAsync(CACHE_DIR));
+    const records: [string, CachedPhoto][] = JSON.parse(json);
+    this.index = new Map(records.filter(([, photo]) => files.has(photo.file)));
+  }
+
+  private async download(uri: string): Promise<string> {
+    const file = `${hashUrl(uri)}.${extensionOf(uri)}`;
+    const target = CACHE_DIR + file;
+
+    const result = await FileSystem.downloadAsync(uri, target);
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(target, { idempotent: true });
+      throw new Error(`Photo download failed with status ${result.status}`);
+    }
+
+    const info = await FileSystem.getInfoAsync(target);
+    const size = info.exists ? info.size : 0;
+    this.index.set(uri, { file, size, lastAccess: Date.now() });
+    await this.evict(uri);
+    this.schedulePersist();
+    return target;
+  }
+
+  /** Delete least recently viewed photos until the cache fits its cap. */
+  private async evict(keep?: string): Promise<void> {
+    let total = await this.getSize();
+    if (total <= this.maxBytes) return;
+
+    const oldestFirst = Array.from(this.index.entries())
+      .filter(([uri]) => uri !== keep)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    let evicted = 0;
+    for (const [uri, photo] of oldestFirst) {
+      if (total <= this.maxBytes) break;
+      this.index.delete(uri);
+      total -= photo.size;
+      evicted++;
+      await FileSystem.deleteAsync(CACHE_DIR + photo.file, { idempotent: true });
+    }
+
+    if (evicted > 0) {
+      console.log(`🧹 Photo cache evicted ${evicted} photo(s)`);
+      this.schedulePersist();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch(error => {
+        console.warn('Failed to persist photo cache index (non-critical):', error);
+      });
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persist(): Promise<void> {
+    await storageService.setSetting(INDEX_KEY, JSON.stringify(Array.from(this.index.entries())));
+  }
+}
+
+export const photoCache = new PhotoCache();
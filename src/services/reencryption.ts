@@ -0,0 +1,216 @@
+// src/services/reencryption.ts
+import { supabase } from '@/services/supabase';
+import { DeviceEventEmitter } from 'react-native';
+import { EncryptionService } from './encryption';
+import { MigrationStepContext } from './migrations';
+import { isNetworkError } from './outbox';
+import { storageService } from './storage/sqliteStorage';
+
+const STATE_KEY_PREFIX = 'reencryption_';
+const PAGE_SIZE = 200;
+
+// Tables holding encrypted blobs, with the column that orders their rows
+const ENCRYPTED_TABLES = [
+  { table: 'entries', key: 'id' },
+  { table: 'entry_revisions', key: 'revision_id' },
+  { table: 'journals', key: 'id' },
+] as const;
+
+export const REENCRYPTION_EVENT = 'reencryption:status';
+
+export type ReencryptionContext = Pick<MigrationStepContext, 'checkpoint' | 'saveCheckpoint' | 'reportProgress'>;
+
+export interface ReencryptionStatus {
+  pending: boolean; // a pass is due or running
+  running: boolean;
+}
+
+type ReencryptionState = {
+  checkpoint: string | null;
+  passId?: string; // a new pass, e.g. after another key rotation, replaces a running one
+};
+
+const SUPERSEDED_MESSAGE = 'Re-encryption pass superseded';
+
+/**
+ * Replace an entry's blob with the same content re-encrypted, without the
+ * server recording a revision for it. With `clearMetadata` the deprecated
+ * plaintext columns are emptied too. Returns false, writing nothing, if
+ * the entry changed since it was read at `updatedAt`.
+ */
+export async function rewriteEntryBlob(
+  id: string,
+  blob: string,
+  updatedAt: string,
+  clearMetadata = false
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('rewrite_entry_blob', {
+    entry_id: id,
+    blob,
+    expected_updated_at: updatedAt,
+    clear_metadata: clearMetadata,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Rewrites every encrypted blob the user has on the server (entries,
+ * their revisions, journals) that is not in the current envelope under the
+ * current key. Runs as a migration step and as a background job after the
+ * key changes; the job persists its checkpoint so it resumes after a
+ * restart, and restarts from the top if the key changes again mid-pass.
+ */
+class Reencryption {
+  private running = new Map<string, Promise<void>>();
+
+  async getStatus(userId: string): Promise<ReencryptionStatus> {
+    const state = await this.loadState(userId);
+    return { pending: !!state, running: this.running.has(userId) };
+  }
+
+  /** Queue a full pass for the user and start it; a running pass gives way at its next checkpoint. */
+  async schedule(userId: string): Promise<void> {
+    await this.saveState(userId, { checkpoint: null, passId: Date.now().toString(36) });
+    this.resume(userId);
+  }
+
+  /** Continue a queued pass, if there is one, in the background. */
+  resume(userId: string): void {
+    if (this.running.has(userId)) return;
+
+    const job = this.runJob(userId)
+      .catch(error => console.warn('Re-encryption paused, will resume later:', error))
+      .finally(() => {
+        this.running.delete(userId);
+        this.emitStatus(userId);
+      });
+    this.running.set(userId, job);
+    this.emitStatus(userId);
+  }
+
+  /**
+   * One pass over every table. Checkpoints as "<table>:<last key>" after
+   * each page. Entries are only overwritten if unchanged since they were
+   * read; blobs that do not decrypt are left for the Journal Health
+   * screen. Returns how many blobs were rewritten.
+   */
+  async run(userId: string, ctx: ReencryptionContext): Promise<number> {
+    const [resumeTable, resumeKey] = ctx.checkpoint ? ctx.checkpoint.split(/:(.*)/s) : [null, null];
+    const startAt = Math.max(0, ENCRYPTED_TABLES.findIndex(t => t.table === resumeTable));
+    let reencrypted = 0;
+    let failed = 0;
+
+    for (let index = startAt; index < ENCRYPTED_TABLES.length; index++) {
+      const { table, key } = ENCRYPTED_TABLES[index];
+      let after = index === startAt ? resumeKey : null;
+      ctx.reportProgress(index, ENCRYPTED_TABLES.length);
+
+      for (;;) {
+        let query = supabase
+          .from(table)
+          .select(`${key}, encrypted_blob, updated_at`)
+          .eq('user_id', userId)
+          .order(key, { ascending: true })
+          .limit(PAGE_SIZE);
+        if (after) query = query.gt(key, after);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        const rows = (data as Record<string, any>[]) || [];
+
+        for (const row of rows) {
+          const blob = row.encrypted_blob;
+          if (typeof blob !== 'string' || !(await EncryptionService.needsReencryption(blob, userId))) continue;
+
+          try {
+            const content = await EncryptionService.decrypt(blob, userId);
+            const reencryptedBlob = await EncryptionService.encrypt(content, userId);
+            if (table === 'entries') {
+              if (await rewriteEntryBlob(row[key], reencryptedBlob, row.updated_at)) reencrypted++;
+              continue;
+            }
+
+            let update = supabase
+              .from(table)
+              .update({ encrypted_blob: reencryptedBlob })
+              .eq(key, row[key])
+              .eq('user_id', userId);
+            // Revisions never change; journals might have since being read
+            if (table !== 'entry_revisions') update = update.eq('updated_at', row.updated_at);
+
+            const { error: updateError } = await update;
+            if (updateError) throw updateError;
+            reencrypted++;
+          } catch (rowError) {
+            if (isNetworkError(rowError)) throw rowError;
+            console.warn(`Could not re-encrypt ${table} ${row[key]}:`, rowError);
+            failed++;
+          }
+        }
+
+        if (rows.length < PAGE_SIZE) break;
+        after = rows[rows.length - 1][key];
+        await ctx.saveCheckpoint(`${table}:${after}`);
+      }
+    }
+    ctx.reportProgress(ENCRYPTED_TABLES.length, ENCRYPTED_TABLES.length);
+
+    console.log(`🔐 Re-encryption: ${reencrypted} blob(s) rewritten, ${failed} skipped`);
+    return reencrypted;
+  }
+
+  private async runJob(userId: string): Promise<void> {
+    for (;;) {
+      const state = await this.loadState(userId);
+      if (!state) return;
+
+      try {
+        await this.run(userId, {
+          checkpoint: state.checkpoint,
+          saveCheckpoint: async checkpoint => {
+            if (!(await this.isCurrentPass(userId, state))) throw new Error(SUPERSEDED_MESSAGE);
+            state.checkpoint = checkpoint;
+            await this.saveState(userId, state);
+          },
+          reportProgress: () => this.emitStatus(userId),
+        });
+      } catch (error) {
+        if ((error as Error)?.message !== SUPERSEDED_MESSAGE) throw error;
+        continue;
+      }
+
+      // Rows before the checkpoint may predate a pass scheduled since; run that one too
+      if (await this.isCurrentPass(userId, state)) {
+        await storageService.setSetting(STATE_KEY_PREFIX + userId, '');
+        return;
+      }
+    }
+  }
+
+  private async isCurrentPass(userId: string, state: ReencryptionState): Promise<boolean> {
+    return (await this.loadState(userId))?.passId === state.passId;
+  }
+
+  private async loadState(userId: string): Promise<ReencryptionState | null> {
+    const json = await storageService.getSetting(STATE_KEY_PREFIX + userId).catch(() => null);
+    if (!json) return null;
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveState(userId: string, state: ReencryptionState): Promise<void> {
+    await storageService.setSetting(STATE_KEY_PREFIX + userId, JSON.stringify(state));
+  }
+
+  private emitStatus(userId: string): void {
+    this.getStatus(userId)
+      .then(status => DeviceEventEmitter.emit(REENCRYPTION_EVENT, { userId, ...status }))
+      .catch(() => {});
+  }
+}
+
+export const reencryption = new Reencryption();
@@ -0,0 +1,153 @@
+// src/services/repository/entryRepository.ts
+import { Entry, EntryPage, GroupedEntries } from '@/types/journal';
+import { DeviceEventEmitter } from 'react-native';
+import { ConflictResolution } from '../conflicts';
+import { entriesService } from '../entries';
+import { entryOutbox } from '../outbox';
+import { storageService } from '../storage/sqliteStorage';
+import { BulkEdit, CreateEntryInput, EntryPageOptions, EntryRepository, RepositoryMode } from './index';
+import { LocalEntryRepository } from './localRepository';
+import { RemoteEntryRepository } from './remoteRepository';
+import { currentUserId, EntryRow } from './rows';
+
+const MODE_SETTING_KEY = 'entry_repository_mode';
+const DEFAULT_MODE: RepositoryMode = 'hybrid';
+const MODES: RepositoryMode[] = ['remote', 'local', 'hybrid'];
+
+export const REPOSITORY_MODE_CHANGED_EVENT = 'entries:repositoryModeChanged';
+
+const backends: Record<RepositoryMode, EntryRepository> = {
+  hybrid: entriesService,
+  local: new LocalEntryRepository(),
+  remote: new RemoteEntryRepository(),
+};
+
+/**
+ * The entry repository the app talks to. Forwards every call to the
+ * backend picked by the stored mode setting.
+ */
+class RoutedEntryRepository {
+  private mode: RepositoryMode | null = null;
+
+  async getMode(): Promise<RepositoryMode> {
+    if (!this.mode) {
+      const stored = await storageService.getSetting(MODE_SETTING_KEY).catch(() => null);
+      this.mode = MODES.includes(stored as RepositoryMode) ? (stored as RepositoryMode) : DEFAULT_MODE;
+    }
+    return this.mode;
+  }
+
+  /**
+   * Switch backends. Local and hybrid share the on-device store, so both
+   * see the same entries; remote keeps nothing on the device. Leaving
+   * local uploads what was written there, and leaving hybrid for remote
+   * first flushes the outbox, which remote would never replay. The mode
+   * is unchanged if either fails.
+   */
+  async setMode(mode: RepositoryMode): Promise<void> {
+    const current = await this.getMode();
+    if (mode === current) return;
+
+    if (current === 'local') {
+      await entriesService.uploadLocalEntries();
+    } else if (current === 'hybrid' && mode === 'remote') {
+      await entriesService.replayOutbox(true);
+      if ((await entryOutbox.forUser(await currentUserId())).length > 0) {
+        throw new Error('Some changes on this device have not synced yet. Try again once you are online.');
+      }
+    }
+
+    await storageService.setSetting(MODE_SETTING_KEY, mode);
+    this.mode = mode;
+    console.log('🗂️ Entry repository mode:', mode);
+    DeviceEventEmitter.emit(REPOSITORY_MODE_CHANGED_EVENT, { mode });
+  }
+
+  async backend(): Promise<EntryRepository> {
+    return backends[await this.getMode()];
+  }
+
+  async listEntries(): Promise<Entry[]> {
+    return (await this.backend()).listEntries();
+  }
+
+  async listLocalEntries(): Promise<Entry[]> {
+    return (await this.backend()).listLocalEntries();
+  }
+
+  async listEntriesPage(options?: EntryPageOptions): Promise<EntryPage> {
+    return (await this.backend()).listEntriesPage(options);
+  }
+
+  async getEntry(id: string): Promise<Entry | null> {
+    return (await this.backend()).getEntry(id);
+  }
+
+  async listByDateRange(startDate: Date, endDate: Date): Promise<Entry[]> {
+    return (await this.backend()).listByDateRange(startDate, endDate);
+  }
+
+  async searchEntries(query: string): Promise<Entry[]> {
+    return (await this.backend()).searchEntries(query);
+  }
+
+  async groupEntriesByDay(): Promise<GroupedEntries> {
+    return (await this.backend()).groupEntriesByDay();
+  }
+
+  async createEntry(data: CreateEntryInput): Promise<Entry> {
+    return (await this.backend()).createEntry(data);
+  }
+
+  async updateEntry(id: string, updates: Partial<Entry>, base?: Entry): Promise<Entry | null> {
+    return (await this.backend()).updateEntry(id, updates, base);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    return (await this.backend()).deleteEntry(id);
+  }
+
+  async bulkUpdateEntries(ids: string[], edit: BulkEdit): Promise<Entry[]> {
+    return (await this.backend()).bulkUpdateEntries(ids, edit);
+  }
+
+  async bulkDeleteEntries(ids: string[]): Promise<void> {
+    return (await this.backend()).bulkDeleteEntries(ids);
+  }
+
+  async resolveConflict(copyId: string, resolution: ConflictResolution): Promise<Entry | null> {
+    return (await this.backend()).resolveConflict(copyId, resolution);
+  }
+
+  async listTrash(): Promise<Entry[]> {
+    return (await this.backend()).listTrash();
+  }
+
+  async restoreEntry(id: string): Promise<Entry | null> {
+    return (await this.backend()).restoreEntry(id);
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    return (await this.backend()).purgeEntry(id);
+  }
+
+  /** Replay queued offline writes; 0 for backends without an outbox. */
+  async replayOutbox(force = false): Promise<number> {
+    const backend = await this.backend();
+    return backend.replayOutbox ? backend.replayOutbox(force) : 0;
+  }
+
+  /** Pull remote changes; 0 for backends without a local copy to refresh. */
+  async syncChanges(): Promise<number> {
+    const backend = await this.backend();
+    return backend.syncChanges ? backend.syncChanges() : 0;
+  }
+
+  /** Fold a Realtime row into the backend; null if it does not use the server. */
+  async applyRemoteRow(row: EntryRow): Promise<Entry | null> {
+    const backend = await this.backend();
+    return backend.applyRemoteRow ? backend.applyRemoteRow(row) : null;
+  }
+}
+
+export const entryRepository = new RoutedEntryRepository();
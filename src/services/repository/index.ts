@@ -0,0 +1,240 @@
+// src/services/repository/index.ts
+import {
+  DEFAULT_JOURNAL_ID, Entry, EntryCursor, EntryPage, GroupedEntries, LocationData, Mood, Tag,
+} from '@/types/journal';
+import { generateId } from '@/utils/id';
+import { ConflictResolution } from '../conflicts';
+import { formatDate } from '../dates';
+import { ImageUploadService } from '../imageUpload';
+import type { EntryRow } from './rows';
+
+// 'remote': Supabase only. 'local': this device only. 'hybrid': local mirror
+// synced with Supabase, with offline writes queued in the outbox. Local and
+// hybrid use the same on-device store.
+export type RepositoryMode = 'remote' | 'local' | 'hybrid';
+
+export const ENTRY_PAGE_SIZE = 50;
+
+// Deleted entries stay in the trash this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface EntryPageOptions {
+  before?: EntryCursor | null;
+  limit?: number;
+  journalId?: string; // only this journal's entries; every journal when missing
+}
+
+/**
+ * Everything the app needs from an entry store. Backends differ in where
+ * entries live, not in what callers can do with them.
+ */
+export interface EntryRepository {
+  readonly mode: RepositoryMode;
+
+  // Reads
+  listEntries(): Promise<Entry[]>;
+  listLocalEntries(): Promise<Entry[]>; // whole journal, avoiding the network where the backend can
+  listEntriesPage(options?: EntryPageOptions): Promise<EntryPage>;
+  getEntry(id: string): Promise<Entry | null>;
+  listByDateRange(startDate: Date, endDate: Date): Promise<Entry[]>;
+  searchEntries(query: string): Promise<Entry[]>;
+  groupEntriesByDay(): Promise<GroupedEntries>;
+
+  // Writes
+  createEntry(data: CreateEntryInput): Promise<Entry>;
+  updateEntry(id: string, updates: Partial<Entry>, base?: Entry): Promise<Entry | null>;
+  deleteEntry(id: string): Promise<void>;
+  bulkUpdateEntries(ids: string[], edit: BulkEdit): Promise<Entry[]>; // the entries that changed
+  bulkDeleteEntries(ids: string[]): Promise<void>;
+  resolveConflict(copyId: string, resolution: ConflictResolution): Promise<Entry | null>;
+
+  // Trash
+  listTrash(): Promise<Entry[]>; // deleted entries, most recently deleted first
+  restoreEntry(id: string): Promise<Entry | null>;
+  purgeEntry(id: string): Promise<void>; // delete forever, photos included
+
+  // Optional capabilities of server-backed modes
+  replayOutbox?(force?: boolean): Promise<number>;
+  syncChanges?(): Promise<number>; // pull remote changes into the local copy
+  applyRemoteRow?(row: EntryRow): Promise<Entry>;
+}
+
+// ---------- drafts ----------
+
+export type CreateEntryInput = {
+  id?: string;
+  title?: string;
+  body?: string;
+  mood?: Mood;
+  tags?: Tag[];
+  photoUris?: string[];
+  hasPhotos?: boolean;
+  locationData?: LocationData;
+  audioUri?: string;
+  transcription?: string;
+  journalId?: string | null;
+  sentiment?: any;
+  themes?: string[];
+  date?: string;
+  createdAt?: string;
+};
+
+/** A new, unsaved entry with defaults filled in. Photo URIs are still local. */
+export function draftEntry(data: CreateEntryInput): Entry {
+  const now = new Date();
+  const photoUris = data.photoUris || [];
+
+  return {
+    id: data.id || generateId(),
+    createdAt: data.createdAt || now.toISOString(),
+    updatedAt: now.toISOString(),
+    date: data.date || formatDate(now),
+    title: data.title?.trim(),
+    body: data.body?.trim(),
+    mood: data.mood ?? 3,
+    tags: data.tags || [],
+    photoUris,
+    hasPhotos: photoUris.length > 0,
+    locationData: data.locationData,
+    audioUri: data.audioUri,
+    transcription: data.transcription,
+    journalId: storedJournalId(data.journalId),
+    deleted: false,
+  };
+}
+
+// ---------- bulk edits ----------
+
+/** One change applied to every selected entry. */
+export type BulkEdit =
+  | { kind: 'addTags'; tags: Tag[] }
+  | { kind: 'removeTags'; names: string[] }
+  | { kind: 'setMood'; mood: Mood }
+  | { kind: 'setDate'; date: string }
+  | { kind: 'setJournal'; journalId: string };
+
+/**
+ * The fields `edit` changes on `e`, or null when it would leave the entry
+ * as it is. Tags are matched by name, so adding one an entry already has
+ * is a no-op.
+ */
+export function bulkEditUpdates(e: Entry, edit: BulkEdit): Partial<Entry> | null {
+  const tags = e.tags || [];
+  switch (edit.kind) {
+    case 'addTags': {
+      const have = new Set(tags.map(t => t.name));
+      const added = edit.tags.filter(t => !have.has(t.name));
+      return added.length > 0 ? { tags: [...tags, ...added] } : null;
+    }
+    case 'removeTags': {
+      const kept = tags.filter(t => !edit.names.includes(t.name));
+      return kept.length !== tags.length ? { tags: kept } : null;
+    }
+    case 'setMood':
+      return e.mood !== edit.mood ? { mood: edit.mood } : null;
+    case 'setDate':
+      return e.date !== edit.date ? { date: edit.date } : null;
+    case 'setJournal':
+      return journalOf(e) !== edit.journalId ? { journalId: storedJournalId(edit.journalId) } : null;
+  }
+}
+
+/** `entries` with `edit` applied, leaving out any it would not change. */
+export function applyBulkEdit(entries: Entry[], edit: BulkEdit): Entry[] {
+  const updatedAt = new Date().toISOString();
+  const changed: Entry[] = [];
+  for (const entry of entries) {
+    const updates = bulkEditUpdates(entry, edit);
+    if (updates) changed.push({ ...entry, ...updates, updatedAt });
+  }
+  return changed;
+}
+
+// ---------- journals ----------
+
+/** The journal an entry belongs to; entries without one are in the default journal. */
+export function journalOf(e: Entry): string {
+  return e.journalId || DEFAULT_JOURNAL_ID;
+}
+
+/** True when `e` belongs in a view scoped to `journalId` (any journal when missing). */
+export function inJournal(e: Entry, journalId?: string): boolean {
+  return !journalId || journalOf(e) === journalId;
+}
+
+/**
+ * The journalId to store on an entry. The default journal is stored as
+ * null, so entries written before journals existed need no migration.
+ */
+export function storedJournalId(journalId?: string | null): string | null {
+  return journalId && journalId !== DEFAULT_JOURNAL_ID ? journalId : null;
+}
+
+// ---------- paging ----------
+
+/** True when `e` sorts after `cursor` in the newest-first timeline order. */
+export function isBeforeCursor(e: Entry, cursor: EntryCursor): boolean {
+  return e.date < cursor.date || (e.date === cursor.date && e.createdAt < cursor.createdAt);
+}
+
+export function groupByDay(entries: Entry[]): GroupedEntries {
+  const grouped: GroupedEntries = {};
+  entries.forEach(e => {
+    if (!grouped[e.date]) grouped[e.date] = [];
+    grouped[e.date].push(e);
+  });
+  return grouped;
+}
+
+/**
+ * When a deleted entry leaves the trash for good. Entries deleted before
+ * deletedAt was recorded fall back to their last update.
+ */
+export function trashExpiresAt(entry: Entry): Date {
+  const expires = new Date(entry.deletedAt ?? entry.updatedAt);
+  expires.setDate(expires.getDate() + TRASH_RETENTION_DAYS);
+  return expires;
+}
+
+/** Most recently deleted first; entries from before deletedAt by their last update. */
+export function sortTrash(list: Entry[]): Entry[] {
+  return list.sort((a, b) => (b.deletedAt ?? b.updatedAt).localeCompare(a.deletedAt ?? a.updatedAt));
+}
+
+export function sortEntries(list: Entry[]): Entry[] {
+  return list.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Settle a conflicted copy: adopt its content into the original, discard
+ * it, or keep both as independent entries. Works on any backend.
+ */
+export async function resolveConflictIn(
+  repo: EntryRepository,
+  copyId: string,
+  resolution: ConflictResolution
+): Promise<Entry | null> {
+  const copy = await repo.getEntry(copyId);
+  if (!copy?.conflictOf) return copy;
+
+  switch (resolution) {
+    case 'keep-copy': {
+      const { title, body, mood, tags, date, createdAt, locationData, audioUri, transcription } = copy;
+      // Photos added to the copy live in its folder, which goes when it is purged
+      const photoUris = await ImageUploadService.copyIntoEntry(copy.photoUris ?? [], copy.conflictOf);
+      const original = await repo.updateEntry(copy.conflictOf, {
+        title, body, mood, tags, photoUris, date, createdAt, locationData, audioUri, transcription,
+      });
+      await repo.deleteEntry(copy.id);
+      return original;
+    }
+    case 'keep-original':
+      await repo.deleteEntry(copy.id);
+      return repo.getEntry(copy.conflictOf);
+    case 'keep-both': {
+      // Once independent, the copy must not depend on the original's folder
+      const photoUris = await ImageUploadService.copyIntoEntry(copy.photoUris ?? [], copy.id);
+      return repo.updateEntry(copy.id, { conflictOf: undefined, photoUris });
+    }
+  }
+}
@@ -0,0 +1,141 @@
+// src/services/repository/localRepository.ts
+import { Entry, EntryCursor, EntryPage, GroupedEntries } from '@/types/journal';
+import { ConflictResolution } from '../conflicts';
+import { formatDate } from '../dates';
+import { storageService } from '../storage/sqliteStorage';
+import {
+  applyBulkEdit, BulkEdit, CreateEntryInput, draftEntry, ENTRY_PAGE_SIZE, EntryPageOptions, EntryRepository, groupByDay,
+  inJournal, isBeforeCursor, resolveConflictIn, trashExpiresAt,
+} from './index';
+
+/**
+ * A page from the on-device store. Pages always end on a whole day so the
+ * timeline never shows half of one.
+ */
+export async function listStoredPage(
+  before: EntryCursor | null,
+  limit: number,
+  journalId?: string
+): Promise<EntryPage> {
+  let page = await storageService.listEntriesPage(before, limit, journalId);
+  if (page.length < limit) return { entries: page, nextCursor: null };
+
+  const last = page[page.length - 1];
+  const restOfDay = (await storageService.listByDateRange(last.date, last.date))
+    .filter(e => isBeforeCursor(e, last) && inJournal(e, journalId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  page = [...page, ...restOfDay];
+
+  const oldest = page[page.length - 1];
+  return { entries: page, nextCursor: { date: oldest.date, createdAt: oldest.createdAt } };
+}
+
+/**
+ * Entries that never leave the device. Photos keep their local URIs.
+ */
+export class LocalEntryRepository implements EntryRepository {
+  readonly mode = 'local' as const;
+
+  listEntries(): Promise<Entry[]> {
+    return storageService.listEntries();
+  }
+
+  listLocalEntries(): Promise<Entry[]> {
+    return storageService.listEntries();
+  }
+
+  listEntriesPage({ before = null, limit = ENTRY_PAGE_SIZE, journalId }: EntryPageOptions = {}): Promise<EntryPage> {
+    return listStoredPage(before, limit, journalId);
+  }
+
+  getEntry(id: string): Promise<Entry | null> {
+    return storageService.getEntry(id);
+  }
+
+  listByDateRange(startDate: Date, endDate: Date): Promise<Entry[]> {
+    return storageService.listByDateRange(formatDate(startDate), formatDate(endDate));
+  }
+
+  async searchEntries(query: string): Promise<Entry[]> {
+    const q = query.trim();
+    return q ? storageService.searchEntries(q) : storageService.listEntries();
+  }
+
+  async groupEntriesByDay(): Promise<GroupedEntries> {
+    return groupByDay(await storageService.listEntries());
+  }
+
+  async createEntry(data: CreateEntryInput): Promise<Entry> {
+    const entry = draftEntry(data);
+    await storageService.addEntry(entry);
+    return entry;
+  }
+
+  async updateEntry(id: string, updates: Partial<Entry>): Promise<Entry | null> {
+    const existing = await storageService.getEntry(id);
+    if (!existing) return null;
+
+    const photoUris = updates.photoUris ?? existing.photoUris ?? [];
+    const updated: Entry = {
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString(),
+      photoUris,
+      hasPhotos: photoUris.length > 0,
+    };
+    await storageService.updateEntry(updated);
+    return updated;
+  }
+
+  deleteEntry(id: string): Promise<void> {
+    return storageService.deleteEntry(id);
+  }
+
+  async bulkUpdateEntries(ids: string[], edit: BulkEdit): Promise<Entry[]> {
+    const current: Entry[] = [];
+    for (const id of ids) {
+      const entry = await storageService.getEntry(id);
+      if (entry && !entry.deleted) current.push(entry);
+    }
+
+    const changed = applyBulkEdit(current, edit);
+    await storageService.putEntries(changed);
+    return changed;
+  }
+
+  async bulkDeleteEntries(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await storageService.deleteEntry(id);
+    }
+  }
+
+  resolveConflict(copyId: string, resolution: ConflictResolution): Promise<Entry | null> {
+    return resolveConflictIn(this, copyId, resolution);
+  }
+
+  /**
+   * There is no server to purge expired entries here, so opening the trash
+   * does it instead.
+   */
+  async listTrash(): Promise<Entry[]> {
+    const now = Date.now();
+    const trash: Entry[] = [];
+    for (const entry of await storageService.listDeletedEntries()) {
+      if (trashExpiresAt(entry).getTime() <= now) {
+        await storageService.purgeEntry(entry.id);
+      } else {
+        trash.push(entry);
+      }
+    }
+    return trash;
+  }
+
+  restoreEntry(id: string): Promise<Entry | null> {
+    return storageService.restoreEntry(id);
+  }
+
+  purgeEntry(id: string): Promise<void> {
+    return storageService.purgeEntry(id);
+  }
+}
@@ -0,0 +1,310 @@
+// src/services/repository/remoteRepository.ts
+import { supabase } from '@/services/supabase';
+import { Entry, EntryCursor, EntryPage, GroupedEntries } from '@/types/journal';
+import { ConflictResolution, mergeEntryUpdates } from '../conflicts';
+import { formatDate } from '../dates';
+import { isJournalLockedError } from '../encryption';
+import { entryCache } from '../entryCache';
+import { ImageUploadService, isLocalUri } from '../imageUpload';
+import {
+  applyBulkEdit, BulkEdit, CreateEntryInput, draftEntry, ENTRY_PAGE_SIZE, EntryPageOptions, EntryRepository, groupByDay,
+  resolveConflictIn, sortTrash, storedJournalId,
+} from './index';
+import { currentUserId, EntryRow, fromRow, purgeEntryRow, toRow, uploadLocalPhotos } from './rows';
+
+const TABLE = 'entries';
+const FETCH_PAGE_SIZE = 500;
+
+async function decryptRows(rows: EntryRow[], userId: string): Promise<Entry[]> {
+  const entries: Entry[] = [];
+  for (const row of rows) {
+    try {
+      entries.push(await fromRow(row, userId));
+    } catch (error) {
+      if (isJournalLockedError(error)) throw error;
+      console.error('Failed to process entry:', row.id, error);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Entries read from and written straight to Supabase, with nothing kept on
+ * the device beyond the decrypted-entry cache. Needs a connection.
+ */
+export class RemoteEntryRepository implements EntryRepository {
+  readonly mode = 'remote' as const;
+
+  async listEntries(): Promise<Entry[]> {
+    const userId = await currentUserId();
+    const entries: Entry[] = [];
+
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('tombstoned', false)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .range(from, from + FETCH_PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const rows = (data as EntryRow[]) || [];
+      entries.push(...await decryptRows(rows, userId));
+      if (rows.length < FETCH_PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+
+  listLocalEntries(): Promise<Entry[]> {
+    return this.listEntries();
+  }
+
+  /**
+   * One page of the timeline, newest first. Like the other backends, a page
+   * is extended to the end of its oldest day.
+   */
+  async listEntriesPage({ before = null, limit = ENTRY_PAGE_SIZE, journalId }: EntryPageOptions = {}): Promise<EntryPage> {
+    const userId = await currentUserId();
+    const journal = journalId ? storedJournalId(journalId) : undefined;
+
+    let query = supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('tombstoned', false);
+    if (journal !== undefined) {
+      query = journal ? query.eq('journal_id', journal) : query.is('journal_id', null);
+    }
+    if (before) {
+      query = query.or(
+        `entry_date.lt.${before.date},and(entry_date.eq.${before.date},created_at.lt.${before.createdAt})`
+      );
+    }
+
+    const { data, error } = await query
+      .order('entry_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+
+    let rows = (data as EntryRow[]) || [];
+    if (rows.length < limit) {
+      return { entries: await decryptRows(rows, userId), nextCursor: null };
+    }
+
+    const last = rows[rows.length - 1];
+    let restQuery = supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('tombstoned', false)
+      .eq('entry_date', last.entry_date)
+      .lt('created_at', last.created_at);
+    if (journal !== undefined) {
+      restQuery = journal ? restQuery.eq('journal_id', journal) : restQuery.is('journal_id', null);
+    }
+    const { data: rest, error: restError } = await restQuery.order('created_at', { ascending: false });
+    if (restError) throw restError;
+    rows = [...rows, ...((rest as EntryRow[]) || [])];
+
+    const oldest = rows[rows.length - 1];
+    const nextCursor: EntryCursor = { date: oldest.entry_date, createdAt: oldest.created_at };
+    return { entries: await decryptRows(rows, userId), nextCursor };
+  }
+
+  async getEntry(id: string): Promise<Entry | null> {
+    const userId = await currentUserId();
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle<EntryRow>();
+    if (error) throw error;
+    return data ? fromRow(data, userId) : null;
+  }
+
+  async listByDateRange(startDate: Date, endDate: Date): Promise<Entry[]> {
+    const userId = await currentUserId();
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .gte('entry_date', formatDate(startDate))
+      .lte('entry_date', formatDate(endDate))
+      .eq('tombstoned', false)
+      .order('entry_date', { ascending: false });
+    if (error) throw error;
+    return decryptRows((data as EntryRow[]) || [], userId);
+  }
+
+  async searchEntries(query: string): Promise<Entry[]> {
+    // Content is encrypted, so search has to happen client-side
+    const q = query.trim().toLowerCase();
+    const entries = await this.listEntries();
+    if (!q) return entries;
+
+    return entries.filter(entry =>
+      (entry.title?.toLowerCase().includes(q) ?? false) ||
+      (entry.body?.toLowerCase().includes(q) ?? false) ||
+      (entry.tags?.some(tag => tag.name.toLowerCase().includes(q)) ?? false)
+    );
+  }
+
+  async groupEntriesByDay(): Promise<GroupedEntries> {
+    return groupByDay(await this.listEntries());
+  }
+
+  async createEntry(data: CreateEntryInput): Promise<Entry> {
+    const userId = await currentUserId();
+    const draft = draftEntry(data);
+    const photoUris = await uploadLocalPhotos(draft.photoUris || [], draft.id, userId);
+
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .upsert(await toRow(userId, { ...draft, photoUris, hasPhotos: photoUris.length > 0 }), { onConflict: 'id' })
+      .select('*')
+      .single<EntryRow>();
+    if (error) throw error;
+    return fromRow(row, userId);
+  }
+
+  /**
+   * Last write wins, except that an edit started from an older `base` is
+   * rebased onto the current row first so untouched fields are kept.
+   */
+  async updateEntry(id: string, updates: Partial<Entry>, base?: Entry): Promise<Entry | null> {
+    const userId = await currentUserId();
+    const current = await this.getEntry(id);
+    if (!current) return null;
+
+    let effective: Partial<Entry> = updates.photoUris
+      ? { ...updates, photoUris: await uploadLocalPhotos(updates.photoUris, id, userId) }
+      : updates;
+    if (base && base.updatedAt !== current.updatedAt) {
+      const { merged, conflicts } = mergeEntryUpdates(base, current, effective);
+      // This device's edit is the latest word on fields both sides changed
+      effective = { ...merged, ...Object.fromEntries(conflicts.map(f => [f, effective[f]])) };
+    }
+
+    const photoUris = effective.photoUris ?? current.photoUris ?? [];
+    const updated: Entry = {
+      ...current,
+      ...effective,
+      id,
+      updatedAt: new Date().toISOString(),
+      photoUris,
+      hasPhotos: photoUris.length > 0,
+    };
+
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .update(await toRow(userId, updated))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('*')
+      .single<EntryRow>();
+    if (error) throw error;
+
+    // Only files in this entry's folder are its own to delete
+    const removedImages = (current.photoUris || []).filter(uri =>
+      !photoUris.includes(uri) && !isLocalUri(uri) && uri.includes(`/${userId}/${id}/`)
+    );
+    if (removedImages.length > 0) {
+      await ImageUploadService.deleteImages(removedImages);
+    }
+
+    return fromRow(row, userId);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const userId = await currentUserId();
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ tombstoned: true, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId);
+    if (error) throw error;
+    await entryCache.remove(userId, [id]);
+  }
+
+  /**
+   * Read the selected rows, apply the edit and write them back in a single
+   * upsert. Last write wins, as for single-entry updates.
+   */
+  async bulkUpdateEntries(ids: string[], edit: BulkEdit): Promise<Entry[]> {
+    if (ids.length === 0) return [];
+    const userId = await currentUserId();
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('tombstoned', false)
+      .in('id', ids);
+    if (error) throw error;
+
+    const changed = applyBulkEdit(await decryptRows((data as EntryRow[]) || [], userId), edit);
+    if (changed.length === 0) return [];
+
+    const rows = await Promise.all(changed.map(e => toRow(userId, e)));
+    const { data: saved, error: saveError } = await supabase
+      .from(TABLE)
+      .upsert(rows, { onConflict: 'id' })
+      .select('*');
+    if (saveError) throw saveError;
+    return decryptRows((saved as EntryRow[]) || [], userId);
+  }
+
+  async bulkDeleteEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const userId = await currentUserId();
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ tombstoned: true, updated_at: new Date().toISOString() })
+      .in('id', ids)
+      .eq('user_id', userId);
+    if (error) throw error;
+    await entryCache.remove(userId, ids);
+  }
+
+  resolveConflict(copyId: string, resolution: ConflictResolution): Promise<Entry | null> {
+    return resolveConflictIn(this, copyId, resolution);
+  }
+
+  async listTrash(): Promise<Entry[]> {
+    const userId = await currentUserId();
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('tombstoned', true)
+      .order('deleted_at', { ascending: false, nullsFirst: false })
+      .order('updated_at', { ascending: false });
+    if (error) throw error;
+    return sortTrash(await decryptRows((data as EntryRow[]) || [], userId));
+  }
+
+  async restoreEntry(id: string): Promise<Entry | null> {
+    const userId = await currentUserId();
+    const { data: row, error } = await supabase
+      .from(TABLE)
+      .update({ tombstoned: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('*')
+      .maybeSingle<EntryRow>();
+    if (error) throw error;
+    return row ? fromRow(row, userId) : null;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    await purgeEntryRow(await currentUserId(), id);
+  }
+
+  applyRemoteRow(row: EntryRow): Promise<Entry> {
+    return fromRow(row, row.user_id);
+  }
+}
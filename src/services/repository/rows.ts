@@ -0,0 +1,289 @@
+// src/services/repository/rows.ts
+import { supabase } from '@/services/supabase';
+import { Entry } from '@/types/journal';
+import { EncryptionService, isJournalLockedError } from '../encryption';
+import { ImageUploadService, isLocalUri } from '../imageUpload';
+import { entryCache } from '../entryCache';
+import { photoCache } from '../photoCache';
+import { isNetworkError } from '../outbox';
+
+/**
+ * The one row format for entries in Supabase: the few columns the server
+ * needs to page and sync in the clear, everything else in an encrypted
+ * blob. Every backend that talks to the server reads and writes through
+ * toRow/fromRow.
+ */
+export type EntryRow = {
+  id: string;
+  user_id: string;
+  entry_date: string; // the only plaintext index into the journal's content
+  // Mood, photos and location now live in the blob; these are only set on
+  // rows written by older versions, until the metadata migration clears them
+  mood_score: number | null;
+  has_photos: boolean | null;
+  location_data: any | null;
+  // A random id whose journal's name is encrypted. Remote paging filters on
+  // it; a blind index would group entries exactly the same way.
+  journal_id: string | null; // null for the default journal
+  encrypted_blob: any; // Will be string when encrypted, object when legacy
+  created_at: string;
+  updated_at: string;
+  tombstoned: boolean | null;
+  deleted_at?: string | null; // set by the server when tombstoned
+};
+
+// Titles fromRow gives entries it cannot read
+export const CORRUPTED_ENTRY_TITLE = '⚠️ Corrupted Entry';
+export const INVALID_ENTRY_TITLE = '⚠️ Invalid Entry';
+
+// What can be wrong with a row: a blob no key decrypts, content stored
+// before encryption, or a blob or columns that are not an entry at all
+export type RowProblem = 'undecryptable' | 'legacy-unencrypted' | 'malformed';
+
+export async function currentUserId(): Promise<string> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) {
+    if (!isNetworkError(error)) throw error;
+    // Offline: fall back to the cached session so writes can still be queued
+    const { data: sessionData } = await supabase.auth.getSession();
+    const cachedId = sessionData.session?.user.id;
+    if (!cachedId) throw error;
+    return cachedId;
+  }
+  const id = data.user?.id;
+  if (!id) throw new Error('AuthSessionMissingError: Not authenticated');
+  return id;
+}
+
+export async function toRow(userId: string, e: Entry): Promise<EntryRow> {
+  // Create sensitive data object to encrypt
+  const sensitiveData = {
+    title: e.title,
+    body: e.body,
+    photoUris: e.photoUris,
+    tags: e.tags,
+    audioUri: e.audioUri,
+    transcription: e.transcription,
+    conflictOf: e.conflictOf,
+    mergedInto: e.mergedInto,
+    mood: e.mood,
+    hasPhotos: e.hasPhotos ?? ((e.photoUris?.length ?? 0) > 0),
+    locationData: e.locationData,
+    // themes: e.themes,
+    // sentiment: e.sentiment,
+  };
+
+  // Encrypt the sensitive data
+  const encryptedBlob = await EncryptionService.encrypt(sensitiveData, userId);
+
+  return {
+    id: e.id,
+    user_id: userId,
+    entry_date: e.date,
+    mood_score: null,
+    has_photos: null,
+    location_data: null,
+    journal_id: e.journalId || null,
+    encrypted_blob: encryptedBlob,
+    created_at: e.createdAt,
+    updated_at: e.updatedAt,
+    tombstoned: !!e.deleted,
+  };
+}
+
+export async function fromRow(r: EntryRow, userId: string): Promise<Entry> {
+  // updated_at changes on every server write, so a hit is always current
+  const cached = await entryCache.get(userId, r.id, r.updated_at);
+  if (cached) return cached;
+
+  let decryptedData: any = {};
+  
+  // Check if this is legacy format (object) or encrypted format (string)
+  if (typeof r.encrypted_blob === 'string') {
+    // Encrypted format - try to decrypt but don't fail if it's corrupted
+    try {
+      decryptedData = await EncryptionService.decrypt(r.encrypted_blob, userId);
+    } catch (decryptError) {
+      // A locked key says nothing about the row; never cache a placeholder for it
+      if (isJournalLockedError(decryptError)) throw decryptError;
+      // Corrupted encrypted entry - return a placeholder entry
+      console.warn(`⚠️ Corrupted encrypted entry ${r.id} - skipping`);
+      return {
+        id: r.id,
+        createdAt: r.created_at,
+        updatedAt: r.updated_at,
+        date: r.entry_date,
+        title: CORRUPTED_ENTRY_TITLE,
+        body: 'This entry was encrypted with a lost key and cannot be recovered.',
+        mood: (r.mood_score ?? 3) as any,
+        tags: [],
+        photoUris: [],
+        hasPhotos: false,
+        locationData: r.location_data as any,
+        journalId: r.journal_id ?? null,
+        deleted: !!r.tombstoned,
+        deletedAt: r.deleted_at ?? undefined,
+      };
+    }
+  } else if (typeof r.encrypted_blob === 'object' && r.encrypted_blob !== null) {
+    // Legacy unencrypted format
+    console.log(`Reading legacy unencrypted entry: ${r.id}`);
+    decryptedData = r.encrypted_blob;
+  } else {
+    // Neither encrypted string nor object - corrupted data
+    console.warn(`⚠️ Invalid entry format ${r.id}`);
+    return {
+      id: r.id,
+      createdAt: r.created_at,
+      updatedAt: r.updated_at,
+      date: r.entry_date,
+      title: INVALID_ENTRY_TITLE,
+      body: 'This entry has an invalid format.',
+      mood: (r.mood_score ?? 3) as any,
+      tags: [],
+      photoUris: [],
+      hasPhotos: false,
+      locationData: r.location_data as any,
+      journalId: r.journal_id ?? null,
+      deleted: !!r.tombstoned,
+      deletedAt: r.deleted_at ?? undefined,
+    };
+  }
+
+  const entry = entryFromPayload(r, decryptedData);
+
+  // Placeholders for unreadable rows above are deliberately not cached, and
+  // nor is the trash
+  if (r.tombstoned) await entryCache.remove(userId, [r.id]);
+  else await entryCache.set(userId, entry);
+  return entry;
+}
+
+/** An entry from a row's clear columns and its decrypted payload. */
+export function entryFromPayload(r: EntryRow, data: any): Entry {
+  return {
+    id: r.id,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    date: r.entry_date,
+    title: data.title || 'Untitled',
+    body: data.body,
+    // Rows from older versions keep these in plaintext columns instead
+    mood: (data.mood ?? r.mood_score ?? 3) as any,
+    tags: data.tags ?? [],
+    photoUris: data.photoUris ?? [],
+    hasPhotos: data.hasPhotos ?? r.has_photos ?? ((data.photoUris?.length ?? 0) > 0),
+    locationData: data.locationData ?? (r.location_data as any),
+    audioUri: data.audioUri,
+    transcription: data.transcription,
+    conflictOf: data.conflictOf,
+    mergedInto: data.mergedInto,
+    journalId: r.journal_id ?? null,
+    deleted: !!r.tombstoned,
+    deletedAt: r.deleted_at ?? undefined,
+  };
+}
+
+/** True for the stand-ins fromRow returns for rows it cannot read. */
+export function isPlaceholderEntry(e: Entry): boolean {
+  return e.title === CORRUPTED_ENTRY_TITLE || e.title === INVALID_ENTRY_TITLE;
+}
+
+/** True when `data` has the shape of an entry's encrypted payload. */
+export function isEntryPayload(data: any): boolean {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const optionalString = (v: unknown) => v == null || typeof v === 'string';
+  const optionalArray = (v: unknown) => v == null || Array.isArray(v);
+  return optionalString(data.title) && optionalString(data.body) && optionalString(data.transcription)
+    && optionalArray(data.tags) && optionalArray(data.photoUris);
+}
+
+/**
+ * What is wrong with a row, if anything, reading it directly rather than
+ * through the cache. `data` is the payload whenever it could be read.
+ */
+export async function inspectRow(
+  r: EntryRow,
+  userId: string
+): Promise<{ problem: RowProblem | null; data: any | null }> {
+  const validColumns = /^\d{4}-\d{2}-\d{2}$/.test(r.entry_date ?? '') && !isNaN(Date.parse(r.created_at));
+
+  if (typeof r.encrypted_blob === 'string') {
+    let data: any;
+    try {
+      data = await EncryptionService.decrypt(r.encrypted_blob, userId);
+    } catch (error) {
+      if (isJournalLockedError(error)) throw error;
+      return { problem: 'undecryptable', data: null };
+    }
+    return isEntryPayload(data) && validColumns ? { problem: null, data } : { problem: 'malformed', data: null };
+  }
+
+  if (isEntryPayload(r.encrypted_blob) && validColumns) {
+    return { problem: 'legacy-unencrypted', data: r.encrypted_blob };
+  }
+  return { problem: 'malformed', data: null };
+}
+
+/**
+ * Delete an entry row outright, then its photos from storage. Only photos
+ * uploaded under this entry's own folder go: conflicted copies point at
+ * the original's. A row that is already gone is not an error.
+ */
+export async function purgeEntryRow(userId: string, id: string): Promise<void> {
+  const { data: row, error: getErr } = await supabase
+    .from('entries')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle<EntryRow>();
+  if (getErr) throw getErr;
+  if (!row) return;
+
+  const { error } = await supabase
+    .from('entries')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+  if (error) throw error;
+  await entryCache.remove(userId, [id]);
+
+  try {
+    const { photoUris = [] } = await fromRow(row, userId);
+    const ownPhotos = photoUris.filter(uri => !isLocalUri(uri) && uri.includes(`/${userId}/${id}/`));
+    if (ownPhotos.length > 0) {
+      await ImageUploadService.deleteImages(ownPhotos);
+      await photoCache.remove(ownPhotos);
+    }
+  } catch (error) {
+    console.warn('Failed to delete photos for purged entry:', id, error);
+  }
+}
+
+/**
+ * Upload local images and return remote URLs.
+ * Throws when offline so the whole write is deferred to the outbox
+ * with its local URIs intact.
+ */
+export async function uploadLocalPhotos(photoUris: string[], entryId: string, userId: string): Promise<string[]> {
+  if (!photoUris.length) return [];
+
+  const processedUris: string[] = [];
+
+  for (const uri of photoUris) {
+    if (isLocalUri(uri)) {
+      try {
+        const remoteUrl = await ImageUploadService.uploadImage(uri, userId, entryId);
+        processedUris.push(remoteUrl);
+        console.log('Uploaded image:', uri, '->', remoteUrl);
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        console.error('Failed to upload image:', uri, error);
+      }
+    } else {
+      processedUris.push(uri);
+    }
+  }
+
+  return processedUris;
+}
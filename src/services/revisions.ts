@@ -0,0 +1,69 @@
+// src/services/revisions.ts
+import { supabase } from '@/services/supabase';
+import { Entry } from '@/types/journal';
+import { entryRepository } from './repository/entryRepository';
+import { currentUserId, EntryRow, entryFromPayload, inspectRow } from './repository/rows';
+
+const TABLE = 'entry_revisions';
+const MAX_REVISIONS = 50;
+
+// An entries row as it was, plus when it was replaced
+type EntryRevisionRow = EntryRow & {
+  revision_id: string;
+  revised_at: string;
+};
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  revisedAt: string; // when this version was replaced
+  entry: Entry;      // the entry as it was before that
+}
+
+/**
+ * Earlier versions of entries. The server records one whenever an entry's
+ * content changes (see the entry_revisions migration), so there is nothing
+ * to write from here; entries that never leave the device have no history.
+ */
+export class RevisionService {
+  static async listRevisions(entryId: string): Promise<EntryRevision[]> {
+    if ((await entryRepository.getMode()) === 'local') return [];
+
+    const userId = await currentUserId();
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', entryId)
+      .eq('user_id', userId)
+      .order('revised_at', { ascending: false })
+      .limit(MAX_REVISIONS);
+    if (error) throw error;
+
+    // Read directly: a revision shares its entry's id, so going through
+    // fromRow would put old text in the live entry's cache slot
+    const revisions: EntryRevision[] = [];
+    for (const row of (data as EntryRevisionRow[]) || []) {
+      const { problem, data: payload } = await inspectRow(row, userId);
+      if (!payload) {
+        console.error('Failed to decrypt revision:', row.revision_id, problem);
+        continue;
+      }
+      revisions.push({
+        id: row.revision_id,
+        entryId: row.id,
+        revisedAt: row.revised_at,
+        entry: entryFromPayload(row, payload),
+      });
+    }
+    return revisions;
+  }
+
+  /**
+   * The updates that put an entry back to a revision's text. Photos are
+   * left alone: ones removed by a later edit are gone from storage.
+   */
+  static restoreUpdates(revision: EntryRevision): Partial<Entry> {
+    const { title, body, mood, tags, transcription } = revision.entry;
+    return { title, body, mood, tags, transcription };
+  }
+}
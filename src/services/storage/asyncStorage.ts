@@ -1,9 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Entry } from '../../types/journal';
+import { Entry, EntryCursor } from '../../types/journal';
+import { inJournal, sortTrash } from '../repository';
 import { StorageService } from './index';
 
-const ENTRIES_KEY = '@journal/entries';
-const SETTINGS_PREFIX = '@journal/settings/';
+export const ENTRIES_KEY = '@journal/entries';
+export const SETTINGS_PREFIX = '@journal/settings/';
 
 export class AsyncStorageService implements StorageService {
   async listEntries(): Promise<Entry[]> {
@@ -45,10 +46,54 @@ export class AsyncStorageService implements StorageService {
     if (entry) {
       entry.deleted = true;
       entry.updatedAt = new Date().toISOString();
+      entry.deletedAt = entry.updatedAt;
       await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(entries));
     }
   }
 
+  async putEntries(incoming: Entry[]): Promise<void> {
+    const entries = await this._getAllEntries();
+    const byId = new Map(entries.map(e => [e.id, e]));
+    incoming.forEach(e => byId.set(e.id, e));
+    await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(Array.from(byId.values())));
+  }
+
+  async listDeletedEntries(): Promise<Entry[]> {
+    const entries = await this._getAllEntries();
+    return sortTrash(entries.filter(e => e.deleted));
+  }
+
+  async restoreEntry(id: string): Promise<Entry | null> {
+    const entries = await this._getAllEntries();
+    const entry = entries.find(e => e.id === id && e.deleted);
+    if (!entry) return null;
+
+    entry.deleted = false;
+    delete entry.deletedAt;
+    entry.updatedAt = new Date().toISOString();
+    await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(entries));
+    return entry;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    const entries = await this._getAllEntries();
+    await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(entries.filter(e => e.id !== id)));
+  }
+
+  async clearEntries(): Promise<void> {
+    await AsyncStorage.removeItem(ENTRIES_KEY);
+  }
+
+  async listEntriesPage(before: EntryCursor | null, limit: number, journalId?: string): Promise<Entry[]> {
+    const entries = (await this.listEntries()).filter(e => inJournal(e, journalId)).sort(
+      (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+    );
+    const older = before
+      ? entries.filter(e => e.date < before.date || (e.date === before.date && e.createdAt < before.createdAt))
+      : entries;
+    return older.slice(0, limit);
+  }
+
   async listByDateRange(startDate: string, endDate: string): Promise<Entry[]> {
     const entries = await this.listEntries();
     return entries.filter(e => e.date >= startDate && e.date <= endDate);
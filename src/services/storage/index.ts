@@ -1,4 +1,4 @@
-import { Entry } from '../../types/journal';
+import { Entry, EntryCursor } from '../../types/journal';
 
 export interface StorageService {
   // Core CRUD
@@ -7,8 +7,16 @@ export interface StorageService {
   addEntry(entry: Entry): Promise<void>;
   updateEntry(entry: Entry): Promise<void>;
   deleteEntry(id: string): Promise<void>;
+  putEntries(entries: Entry[]): Promise<void>; // bulk insert-or-replace
+  clearEntries(): Promise<void>; // hard-delete every local entry
+
+  // Trash
+  listDeletedEntries(): Promise<Entry[]>; // soft-deleted, most recently deleted first
+  restoreEntry(id: string): Promise<Entry | null>; // undo deleteEntry
+  purgeEntry(id: string): Promise<void>; // hard-delete a single entry
   
   // Query methods
+  listEntriesPage(before: EntryCursor | null, limit: number, journalId?: string): Promise<Entry[]>; // newest first, strictly older than `before`
   listByDateRange(startDate: string, endDate: string): Promise<Entry[]>;
   searchEntries(query: string): Promise<Entry[]>;
   
@@ -0,0 +1,357 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import { Entry, EntryCursor } from '../../types/journal';
+import { storedJournalId } from '../repository';
+import { ENTRIES_KEY, SETTINGS_PREFIX } from './asyncStorage';
+import { StorageService } from './index';
+
+const DATABASE_NAME = 'journal.db';
+const SCHEMA_VERSION = 2;
+
+type EntryRecord = {
+  id: string;
+  entry_date: string;
+  created_at: string;
+  updated_at: string;
+  title: string | null;
+  body: string | null;
+  mood: number | null;
+  has_photos: number;
+  payload: string;
+  deleted: number;
+  journal_id: string | null;
+};
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS entries (
+    id TEXT PRIMARY KEY NOT NULL,
+    entry_date TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    title TEXT,
+    body TEXT,
+    mood INTEGER,
+    has_photos INTEGER NOT NULL DEFAULT 0,
+    payload TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS idx_entries_date
+    ON entries (deleted, entry_date DESC, created_at DESC);
+  CREATE TABLE IF NOT EXISTS entry_tags (
+    entry_id TEXT NOT NULL,
+    tag_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    PRIMARY KEY (entry_id, name)
+  );
+  CREATE INDEX IF NOT EXISTS idx_entry_tags_name ON entry_tags (name);
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+`;
+
+// Version 2: entries belong to a journal; NULL is the default journal
+const JOURNALS_SCHEMA = `
+  ALTER TABLE entries ADD COLUMN journal_id TEXT;
+  UPDATE entries SET journal_id = json_extract(payload, '$.journalId');
+  CREATE INDEX IF NOT EXISTS idx_entries_journal
+    ON entries (journal_id, deleted, entry_date DESC, created_at DESC);
+`;
+
+function fromRecord(r: EntryRecord): Entry {
+  // payload holds the full entry; the indexed columns are the source of truth
+  const entry = JSON.parse(r.payload) as Entry;
+  return {
+    ...entry,
+    id: r.id,
+    date: r.entry_date,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    tags: entry.tags ?? [],
+    journalId: r.journal_id,
+    deleted: !!r.deleted,
+  };
+}
+
+// SQL condition (and its parameters) limiting a query to one journal
+function journalFilter(journalId?: string): { sql: string; params: (string | null)[] } {
+  if (!journalId) return { sql: '', params: [] };
+  const stored = storedJournalId(journalId);
+  return stored ? { sql: ' AND journal_id = ?', params: [stored] } : { sql: ' AND journal_id IS NULL', params: [] };
+}
+
+export class SqliteStorageService implements StorageService {
+  private dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  async listEntries(): Promise<Entry[]> {
+    try {
+      const db = await this.getDb();
+      const rows = await db.getAllAsync<EntryRecord>(
+        `SELECT * FROM entries WHERE deleted = 0
+         ORDER BY entry_date DESC, created_at DESC`
+      );
+      return rows.map(fromRecord);
+    } catch (error) {
+      console.error('Failed to load entries:', error);
+      return [];
+    }
+  }
+
+  async getEntry(id: string): Promise<Entry | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<EntryRecord>(
+      'SELECT * FROM entries WHERE id = ? AND deleted = 0',
+      id
+    );
+    return row ? fromRecord(row) : null;
+  }
+
+  async addEntry(entry: Entry): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await this.writeEntry(db, entry);
+    });
+  }
+
+  async updateEntry(entry: Entry): Promise<void> {
+    const db = await this.getDb();
+    const existing = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM entries WHERE id = ?',
+      entry.id
+    );
+    if (!existing) return;
+
+    await db.withTransactionAsync(async () => {
+      await this.writeEntry(db, entry);
+    });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<EntryRecord>('SELECT * FROM entries WHERE id = ?', id);
+    if (!row) return;
+
+    const entry = fromRecord(row);
+    await db.withTransactionAsync(async () => {
+      const now = new Date().toISOString();
+      await this.writeEntry(db, { ...entry, deleted: true, deletedAt: now, updatedAt: now });
+    });
+  }
+
+  async putEntries(entries: Entry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        await this.writeEntry(db, entry);
+      }
+    });
+  }
+
+  async listDeletedEntries(): Promise<Entry[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<EntryRecord>(
+      `SELECT * FROM entries WHERE deleted = 1
+       ORDER BY COALESCE(json_extract(payload, '$.deletedAt'), updated_at) DESC`
+    );
+    return rows.map(fromRecord);
+  }
+
+  async restoreEntry(id: string): Promise<Entry | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<EntryRecord>(
+      'SELECT * FROM entries WHERE id = ? AND deleted = 1',
+      id
+    );
+    if (!row) return null;
+
+    const entry: Entry = { ...fromRecord(row), deleted: false, deletedAt: undefined, updatedAt: new Date().toISOString() };
+    await db.withTransactionAsync(async () => {
+      await this.writeEntry(db, entry);
+    });
+    return entry;
+  }
+
+  async purgeEntry(id: string): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM entry_tags WHERE entry_id = ?', id);
+      await db.runAsync('DELETE FROM entries WHERE id = ?', id);
+    });
+  }
+
+  async clearEntries(): Promise<void> {
+    const db = await this.getDb();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM entry_tags');
+      await db.runAsync('DELETE FROM entries');
+    });
+  }
+
+  async listEntriesPage(before: EntryCursor | null, limit: number, journalId?: string): Promise<Entry[]> {
+    const db = await this.getDb();
+    const journal = journalFilter(journalId);
+    const rows = before
+      ? await db.getAllAsync<EntryRecord>(
+          `SELECT * FROM entries
+           WHERE deleted = 0 AND (entry_date < ? OR (entry_date = ? AND created_at < ?))${journal.sql}
+           ORDER BY entry_date DESC, created_at DESC
+           LIMIT ?`,
+          before.date,
+          before.date,
+          before.createdAt,
+          ...journal.params,
+          limit
+        )
+      : await db.getAllAsync<EntryRecord>(
+          `SELECT * FROM entries WHERE deleted = 0${journal.sql}
+           ORDER BY entry_date DESC, created_at DESC
+           LIMIT ?`,
+          ...journal.params,
+          limit
+        );
+    return rows.map(fromRecord);
+  }
+
+  async listByDateRange(startDate: string, endDate: string): Promise<Entry[]> {
+    const db = await this.getDb();
+    const rows = await db.getAllAsync<EntryRecord>(
+      `SELECT * FROM entries
+       WHERE deleted = 0 AND entry_date >= ? AND entry_date <= ?
+       ORDER BY entry_date DESC, created_at DESC`,
+      startDate,
+      endDate
+    );
+    return rows.map(fromRecord);
+  }
+
+  async searchEntries(query: string): Promise<Entry[]> {
+    const db = await this.getDb();
+    const pattern = `%${query.toLowerCase()}%`;
+    const rows = await db.getAllAsync<EntryRecord>(
+      `SELECT * FROM entries e
+       WHERE e.deleted = 0 AND (
+         lower(e.title) LIKE ? OR
+         lower(e.body) LIKE ? OR
+         EXISTS (SELECT 1 FROM entry_tags t WHERE t.entry_id = e.id AND t.name LIKE ?)
+       )
+       ORDER BY e.entry_date DESC, e.created_at DESC`,
+      pattern,
+      pattern,
+      pattern
+    );
+    return rows.map(fromRecord);
+  }
+
+  async getSetting(key: string): Promise<string | null> {
+    const db = await this.getDb();
+    const row = await db.getFirstAsync<{ value: string }>(
+      'SELECT value FROM settings WHERE key = ?',
+      key
+    );
+    return row?.value ?? null;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    const db = await this.getDb();
+    await db.runAsync(
+      'INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      key,
+      value
+    );
+  }
+
+  private getDb(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().catch(error => {
+        // Allow the next call to retry instead of caching the failure
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+
+    const current = version?.user_version ?? 0;
+
+    if (current < 1) await db.execAsync(SCHEMA);
+    if (current < 2) await db.execAsync(JOURNALS_SCHEMA);
+    if (current < 1) await this.importFromAsyncStorage(db);
+
+    if (current < SCHEMA_VERSION) {
+      await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    }
+
+    return db;
+  }
+
+  /**
+   * One-time move of the legacy single-JSON AsyncStorage data into SQLite.
+   * The old keys are left in place as a read-only fallback.
+   */
+  private async importFromAsyncStorage(db: SQLite.SQLiteDatabase): Promise<void> {
+    let legacyEntries: Entry[] = [];
+    try {
+      const json = await AsyncStorage.getItem(ENTRIES_KEY);
+      legacyEntries = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to read legacy entries:', error);
+    }
+
+    const settingKeys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(SETTINGS_PREFIX));
+    const settings = settingKeys.length ? await AsyncStorage.multiGet(settingKeys) : [];
+
+    await db.withTransactionAsync(async () => {
+      for (const entry of legacyEntries) {
+        await this.writeEntry(db, { ...entry, tags: entry.tags ?? [] });
+      }
+      for (const [key, value] of settings) {
+        if (value == null) continue;
+        await db.runAsync(
+          'INSERT OR IGNORE INTO settings (key, value) VALUES (?, ?)',
+          key.slice(SETTINGS_PREFIX.length),
+          value
+        );
+      }
+    });
+
+    console.log(`Migrated ${legacyEntries.length} entries and ${settings.length} settings to SQLite`);
+  }
+
+  private async writeEntry(db: SQLite.SQLiteDatabase, entry: Entry): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO entries
+         (id, entry_date, created_at, updated_at, title, body, mood, has_photos, payload, deleted, journal_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.id,
+      entry.date,
+      entry.createdAt,
+      entry.updatedAt,
+      entry.title ?? null,
+      entry.body ?? null,
+      entry.mood ?? null,
+      (entry.hasPhotos ?? (entry.photoUris?.length ?? 0) > 0) ? 1 : 0,
+      JSON.stringify(entry),
+      entry.deleted ? 1 : 0,
+      storedJournalId(entry.journalId)
+    );
+
+    await db.runAsync('DELETE FROM entry_tags WHERE entry_id = ?', entry.id);
+    for (const tag of entry.tags ?? []) {
+      await db.runAsync(
+        'INSERT OR IGNORE INTO entry_tags (entry_id, tag_id, name) VALUES (?, ?, ?)',
+        entry.id,
+        tag.id,
+        tag.name
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const storageService = new SqliteStorageService();
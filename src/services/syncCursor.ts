@@ -0,0 +1,32 @@
+// src/services/syncCursor.ts
+import { storageService } from './storage/sqliteStorage';
+
+const CURSOR_PREFIX = 'sync_cursor';
+
+/**
+ * Per-user `updated_at` high-water marks for delta sync, kept in the local
+ * settings table next to the mirrored entries they describe.
+ */
+export const SyncCursor = {
+  async get(scope: string, userId: string): Promise<string | null> {
+    return (await storageService.getSetting(`${CURSOR_PREFIX}_${scope}_${userId}`)) || null;
+  },
+
+  async set(scope: string, userId: string, updatedAt: string): Promise<void> {
+    await storageService.setSetting(`${CURSOR_PREFIX}_${scope}_${userId}`, updatedAt);
+  },
+
+  async reset(scope: string, userId: string): Promise<void> {
+    await storageService.setSetting(`${CURSOR_PREFIX}_${scope}_${userId}`, '');
+  },
+
+  /**
+   * Latest updated_at in a batch of rows, or the previous cursor if empty.
+   */
+  advance(previous: string | null, rows: { updated_at: string }[]): string | null {
+    return rows.reduce<string | null>(
+      (max, r) => (!max || r.updated_at > max ? r.updated_at : max),
+      previous
+    );
+  },
+};
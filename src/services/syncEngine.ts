@@ -0,0 +1,267 @@
+// src/services/syncEngine.ts
+import * as Network from 'expo-network';
+import { AppState, AppStateStatus, DeviceEventEmitter, NativeEventSubscription } from 'react-native';
+import { journalsService } from './journals';
+import { entryOutbox, isNetworkError, OutboxItem } from './outbox';
+import { entryRepository } from './repository/entryRepository';
+import { currentUserId } from './repository/rows';
+import { storageService } from './storage/sqliteStorage';
+
+const STATUS_KEY = 'sync_status';
+const AUTO_SYNC_KEY = 'sync_auto';
+const WIFI_ONLY_KEY = 'sync_wifi_only';
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export const SYNC_STATUS_EVENT = 'sync:status';
+export const SYNC_CHANGES_EVENT = 'sync:changes'; // a pass pulled remote changes
+
+export type SyncState =
+  | 'idle'         // last run succeeded
+  | 'syncing'
+  | 'offline'
+  | 'waiting-wifi' // Wi-Fi only is on and we're on cellular
+  | 'error'
+  | 'disabled';    // automatic sync is off, or entries are device-only
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSuccessAt: string | null;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+  pendingOperations: number;
+  failedOperations: number; // writes the server rejected, waiting on the user
+}
+
+export interface SyncPreferences {
+  autoSync: boolean;
+  wifiOnly: boolean;
+}
+
+const INITIAL_STATUS: SyncStatus = {
+  state: 'idle',
+  lastSuccessAt: null,
+  lastAttemptAt: null,
+  lastError: null,
+  pendingOperations: 0,
+  failedOperations: 0,
+};
+
+/**
+ * Keeps the hybrid repository in step with Supabase without the user
+ * asking: replays the outbox and pulls remote changes when the app comes
+ * to the foreground, when the connection returns, and every 15 minutes
+ * while open. Status is persisted and broadcast on SYNC_STATUS_EVENT.
+ */
+class SyncEngine {
+  private status: SyncStatus = INITIAL_STATUS;
+  private prefs: SyncPreferences = { autoSync: true, wifiOnly: false };
+  private loading: Promise<void> | null = null;
+  private running: Promise<SyncStatus> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private appStateSub: NativeEventSubscription | null = null;
+  private networkSub: { remove: () => void } | null = null;
+
+  async getStatus(): Promise<SyncStatus> {
+    await this.load();
+    return this.status;
+  }
+
+  async getPreferences(): Promise<SyncPreferences> {
+    await this.load();
+    return this.prefs;
+  }
+
+  async setPreferences(updates: Partial<SyncPreferences>): Promise<void> {
+    await this.load();
+    this.prefs = { ...this.prefs, ...updates };
+    await Promise.all([
+      storageService.setSetting(AUTO_SYNC_KEY, String(this.prefs.autoSync)),
+      storageService.setSetting(WIFI_ONLY_KEY, String(this.prefs.wifiOnly)),
+    ]);
+
+    if (this.prefs.autoSync) {
+      this.sync().catch(error => console.warn('Sync after preference change failed:', error));
+    } else {
+      await this.update({ state: 'disabled' });
+    }
+  }
+
+  /** Writes the server rejected, for the user to retry or discard. */
+  async getFailedWrites(): Promise<OutboxItem[]> {
+    return entryOutbox.failedForUser(await currentUserId());
+  }
+
+  /** Queue a rejected write again and sync straight away. */
+  async retryFailedWrite(itemId: string): Promise<SyncStatus> {
+    await entryOutbox.retryFailed(itemId);
+    return this.sync({ manual: true });
+  }
+
+  async discardFailedWrite(itemId: string): Promise<SyncStatus> {
+    await entryOutbox.discardFailed(itemId);
+    const failedOperations = await this.countFailed();
+    return this.update({
+      failedOperations,
+      ...(failedOperations === 0 && this.status.state === 'error' ? { state: 'idle', lastError: null } : {}),
+    });
+  }
+
+  /** Begin syncing in the background. Returns a function that stops it. */
+  start(): () => void {
+    this.stop();
+
+    this.timer = setInterval(() => this.runInBackground(), SYNC_INTERVAL_MS);
+    this.appStateSub = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') this.runInBackground();
+    });
+    this.networkSub = Network.addNetworkStateListener(({ isInternetReachable }) => {
+      if (isInternetReachable && this.status.state === 'offline') this.runInBackground();
+    });
+
+    this.runInBackground();
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.appStateSub?.remove();
+    this.appStateSub = null;
+    this.networkSub?.remove();
+    this.networkSub = null;
+  }
+
+  /**
+   * Run one sync pass. Automatic runs honour the preferences; a manual
+   * run (the "Sync Now" button) goes ahead regardless. Concurrent callers
+   * share the same pass.
+   */
+  sync({ manual = false } = {}): Promise<SyncStatus> {
+    if (!this.running) {
+      this.running = this.runSync(manual).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private runInBackground(): void {
+    this.sync().catch(error => console.warn('Background sync failed:', error));
+  }
+
+  private async runSync(manual: boolean): Promise<SyncStatus> {
+    await this.load();
+
+    if ((await entryRepository.getMode()) === 'local') {
+      return this.update({ state: 'disabled', pendingOperations: 0 });
+    }
+    if (!manual && !this.prefs.autoSync) {
+      return this.update({ state: 'disabled', pendingOperations: await this.countPending() });
+    }
+
+    const network = await Network.getNetworkStateAsync().catch(() => null);
+    if (network && network.isInternetReachable === false) {
+      return this.update({ state: 'offline', pendingOperations: await this.countPending() });
+    }
+    const unmetered = network?.type === Network.NetworkStateType.WIFI
+      || network?.type === Network.NetworkStateType.ETHERNET;
+    if (!manual && this.prefs.wifiOnly && network && !unmetered) {
+      return this.update({ state: 'waiting-wifi', pendingOperations: await this.countPending() });
+    }
+
+    const startedAt = new Date().toISOString();
+    await this.update({ state: 'syncing', lastAttemptAt: startedAt });
+
+    try {
+      // Automatic runs leave items that are backing off alone
+      await entryRepository.replayOutbox(manual);
+      const changed = await entryRepository.syncChanges();
+      await journalsService.sync();
+      const pendingOperations = await this.countPending();
+      const failedOperations = await this.countFailed();
+      const lastError = pendingOperations > 0 || failedOperations > 0 ? await this.lastOutboxError() : null;
+
+      console.log(`☁️ Sync finished: ${changed} change(s) pulled, ${pendingOperations} pending, ${failedOperations} failed`);
+      if (changed > 0) DeviceEventEmitter.emit(SYNC_CHANGES_EVENT, { changed });
+      return this.update({
+        state: lastError ? 'error' : 'idle',
+        lastSuccessAt: lastError ? this.status.lastSuccessAt : startedAt,
+        lastError,
+        pendingOperations,
+        failedOperations,
+      });
+    } catch (error: any) {
+      console.warn('Sync failed:', error);
+      return this.update({
+        state: isNetworkError(error) ? 'offline' : 'error',
+        lastError: String(error?.message ?? error),
+        pendingOperations: await this.countPending(),
+      });
+    }
+  }
+
+  private async countPending(): Promise<number> {
+    try {
+      return (await entryOutbox.forUser(await currentUserId())).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async countFailed(): Promise<number> {
+    try {
+      return (await entryOutbox.failedForUser(await currentUserId())).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  // The queue's head is what is holding it up; otherwise the latest rejection
+  private async lastOutboxError(): Promise<string | null> {
+    try {
+      const userId = await currentUserId();
+      const [head] = await entryOutbox.forUser(userId);
+      if (head?.lastError) return head.lastError;
+      const failed = await entryOutbox.failedForUser(userId);
+      return failed[failed.length - 1]?.lastError ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readPersisted().catch(error => {
+        console.warn('Sync status unreadable, starting fresh:', error);
+      });
+    }
+    return this.loading;
+  }
+
+  private async readPersisted(): Promise<void> {
+    const [status, autoSync, wifiOnly] = await Promise.all([
+      storageService.getSetting(STATUS_KEY),
+      storageService.getSetting(AUTO_SYNC_KEY),
+      storageService.getSetting(WIFI_ONLY_KEY),
+    ]);
+    // A pass interrupted by the app closing is not still running
+    if (status) this.status = { ...INITIAL_STATUS, ...JSON.parse(status), state: 'idle' };
+    this.prefs = {
+      autoSync: autoSync !== 'false',
+      wifiOnly: wifiOnly === 'true',
+    };
+  }
+
+  private async update(changes: Partial<SyncStatus>): Promise<SyncStatus> {
+    this.status = { ...this.status, ...changes };
+    DeviceEventEmitter.emit(SYNC_STATUS_EVENT, this.status);
+    try {
+      await storageService.setSetting(STATUS_KEY, JSON.stringify(this.status));
+    } catch (error) {
+      console.warn('Failed to persist sync status (non-critical):', error);
+    }
+    return this.status;
+  }
+}
+
+export const syncEngine = new SyncEngine();
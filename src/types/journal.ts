@@ -40,6 +40,33 @@ export interface Entry {
     transcription?: string;
     locationData?: LocationData;
     deleted?: boolean; // soft delete
+    deletedAt?: string; // ISO, when it went into the trash
+    conflictOf?: string; // set on a "conflicted copy": id of the entry it clashed with
+    mergedInto?: string; // set on the trashed half of a merge: id of the entry it was merged into
+    journalId?: string | null; // null or missing: the default journal
+}
+
+// Id of the journal every account starts with; its entries have no journalId
+export const DEFAULT_JOURNAL_ID = 'default';
+
+export interface Journal {
+    id: string;
+    name: string;
+    color: string; // hex
+    icon: string;  // Ionicons glyph name
+    createdAt: string; // ISO
+    updatedAt: string; // ISO
+}
+
+// Position in the (date, createdAt) newest-first ordering used for paging
+export interface EntryCursor {
+    date: string;
+    createdAt: string;
+}
+
+export interface EntryPage {
+    entries: Entry[];
+    nextCursor: EntryCursor | null; // null once the oldest entry is loaded
 }
 
 export type ViewMode = 'day' | 'week' | 'month';
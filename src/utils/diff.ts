@@ -0,0 +1,82 @@
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+// Above this many word pairs the LCS table gets too big for a phone
+const MAX_DIFF_CELLS = 2_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff from `before` to `after`, whitespace included so the
+ * parts join back into either text.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Trim the common prefix and suffix; edits are usually small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    push(parts, 'removed', midA.join(''));
+    push(parts, 'added', midB.join(''));
+  } else {
+    // lcs[i * cols + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        push(parts, 'removed', midA[i++]);
+      } else {
+        push(parts, 'added', midB[j++]);
+      }
+    }
+    push(parts, 'removed', midA.slice(i).join(''));
+    push(parts, 'added', midB.slice(j).join(''));
+  }
+
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
@@ -0,0 +1,110 @@
+// supabase/functions/purge-trash/index.ts
+// Permanently deletes entries that have been in the trash for more than
+// TRASH_RETENTION_DAYS, along with their photos. Invoked daily by pg_cron
+// (see migrations/20261019000200_purge_trash_schedule.sql) with the
+// service role key; it is not meant to be called by the app.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const TRASH_RETENTION_DAYS = 30
+const BATCH_SIZE = 200
+const PHOTO_BUCKET = 'journal-photos'
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const authHeader = req.headers.get('Authorization') ?? ''
+
+  if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  )
+
+  // deleted_at is set by the server when an entry is tombstoned, so
+  // rewrites of the row since don't restart its time in the trash
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const summary = { entriesPurged: 0, filesDeleted: 0, errors: 0 }
+
+  try {
+    while (true) {
+      const { data: rows, error: selectError } = await supabaseAdmin
+        .from('entries')
+        .select('id, user_id')
+        .eq('tombstoned', true)
+        .lt('deleted_at', cutoff)
+        .order('deleted_at', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (selectError) throw selectError
+      if (!rows || rows.length === 0) break
+
+      // Rows go first, re-checking the cutoff so an entry restored since the
+      // select survives, photos included
+      const { data: deleted, error: deleteError } = await supabaseAdmin
+        .from('entries')
+        .delete()
+        .in('id', rows.map(row => row.id))
+        .eq('tombstoned', true)
+        .lt('deleted_at', cutoff)
+        .select('id, user_id')
+
+      if (deleteError) throw deleteError
+      summary.entriesPurged += deleted?.length ?? 0
+
+      // Photos are uploaded to <user_id>/<entry_id>/, so each entry's folder
+      // can be removed without decrypting the row to find its photo URLs
+      for (const row of deleted ?? []) {
+        const folder = `${row.user_id}/${row.id}`
+        const { data: files, error: listError } = await supabaseAdmin
+          .storage
+          .from(PHOTO_BUCKET)
+          .list(folder)
+
+        if (listError) {
+          console.error(`Error listing ${PHOTO_BUCKET}/${folder}:`, listError)
+          summary.errors++
+          continue
+        }
+        if (!files || files.length === 0) continue
+
+        const { error: removeError } = await supabaseAdmin
+          .storage
+          .from(PHOTO_BUCKET)
+          .remove(files.map(file => `${folder}/${file.name}`))
+
+        if (removeError) {
+          console.error(`Error deleting files in ${PHOTO_BUCKET}/${folder}:`, removeError)
+          summary.errors++
+        } else {
+          summary.filesDeleted += files.length
+        }
+      }
+
+      if (rows.length < BATCH_SIZE) break
+    }
+
+    console.log('Trash purge summary:', summary)
+    return new Response(
+      JSON.stringify({ message: 'Trash purged', summary }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Trash purge failed:', error, summary)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message, summary }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+})
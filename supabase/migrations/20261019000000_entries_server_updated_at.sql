@@ -0,0 +1,20 @@
+-- Delta sync pages through entries by updated_at, so the value has to come
+-- from the server clock rather than whichever device wrote the row.
+
+create or replace function public.set_entries_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_set_updated_at on public.entries;
+create trigger entries_set_updated_at
+  before insert or update on public.entries
+  for each row execute function public.set_entries_updated_at();
+
+create index if not exists entries_user_updated_at_idx
+  on public.entries (user_id, updated_at);
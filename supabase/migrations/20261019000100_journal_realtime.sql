@@ -0,0 +1,8 @@
+-- Stream entry and day summary changes to the app's Realtime subscription.
+-- Full replica identity lets DELETE events carry the row's user_id and date.
+
+alter table public.entries replica identity full;
+alter table public.day_summaries replica identity full;
+
+alter publication supabase_realtime add table public.entries;
+alter publication supabase_realtime add table public.day_summaries;
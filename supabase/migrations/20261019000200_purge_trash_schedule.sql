@@ -0,0 +1,34 @@
+-- Run the purge-trash edge function every night. It permanently deletes
+-- entries tombstoned more than 30 days ago, together with their photos.
+--
+-- The function URL and service role key are read from Vault; create them
+-- once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+create extension if not exists pg_cron with schema extensions;
+create extension if not exists pg_net with schema extensions;
+
+-- The purge scans tombstones by age
+create index if not exists entries_tombstoned_updated_at_idx
+  on public.entries (updated_at)
+  where tombstoned;
+
+select cron.unschedule('purge-trash')
+where exists (select 1 from cron.job where jobname = 'purge-trash');
+
+select cron.schedule(
+  'purge-trash',
+  '17 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
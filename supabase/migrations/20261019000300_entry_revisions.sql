@@ -0,0 +1,67 @@
+-- Keep the previous version of an entry whenever its content changes, so an
+-- accidental edit or a bad title regeneration can be undone. Revisions hold
+-- the same encrypted blob the entry had; the server never sees plaintext.
+
+create table if not exists public.entry_revisions (
+  like public.entries,
+  revision_id uuid primary key default gen_random_uuid(),
+  revised_at timestamptz not null default now()
+);
+
+alter table public.entry_revisions
+  drop constraint if exists entry_revisions_entry_fkey;
+alter table public.entry_revisions
+  add constraint entry_revisions_entry_fkey
+  foreign key (id) references public.entries (id) on delete cascade;
+
+create index if not exists entry_revisions_entry_idx
+  on public.entry_revisions (id, revised_at desc);
+
+alter table public.entry_revisions enable row level security;
+
+drop policy if exists "Users read their own entry revisions" on public.entry_revisions;
+create policy "Users read their own entry revisions"
+  on public.entry_revisions for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users delete their own entry revisions" on public.entry_revisions;
+create policy "Users delete their own entry revisions"
+  on public.entry_revisions for delete
+  using (auth.uid() = user_id);
+
+-- Rows are copied by column name so columns added to entries later only
+-- need adding here too, not reordering.
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.encrypted_blob is distinct from old.encrypted_blob
+     or new.mood_score is distinct from old.mood_score
+     or new.entry_date is distinct from old.entry_date then
+    insert into public.entry_revisions
+    select * from jsonb_populate_record(
+      null::public.entry_revisions,
+      to_jsonb(old) || jsonb_build_object('revision_id', gen_random_uuid(), 'revised_at', now())
+    );
+
+    -- Keep the 50 most recent revisions per entry
+    delete from public.entry_revisions
+    where id = old.id
+      and revision_id in (
+        select revision_id from public.entry_revisions
+        where id = old.id
+        order by revised_at desc
+        offset 50
+      );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_record_revision on public.entries;
+create trigger entries_record_revision
+  after update on public.entries
+  for each row execute function public.record_entry_revision();
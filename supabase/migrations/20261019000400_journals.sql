@@ -0,0 +1,29 @@
+-- Separate journals (work, personal, dreams...) per account. A journal's
+-- name, color and icon are encrypted like entry content; entries point at
+-- their journal by id, with null meaning the account's default journal.
+
+create table if not exists public.journals (
+  id text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  encrypted_blob text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  tombstoned boolean not null default false,
+  primary key (user_id, id)
+);
+
+alter table public.journals enable row level security;
+
+drop policy if exists "Users manage their own journals" on public.journals;
+create policy "Users manage their own journals"
+  on public.journals for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table public.entries add column if not exists journal_id text;
+-- Revisions copy entry rows by column name, so they need the column too
+alter table public.entry_revisions add column if not exists journal_id text;
+
+create index if not exists entries_user_journal_date_idx
+  on public.entries (user_id, journal_id, entry_date desc, created_at desc)
+  where not tombstoned;
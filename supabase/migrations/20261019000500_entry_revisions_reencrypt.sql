@@ -0,0 +1,26 @@
+-- Revisions keep the blob an entry had, so when a client re-encrypts its
+-- entries into a newer format it has to upgrade their history too. Owners
+-- may replace a revision's blob; nothing else about a revision changes.
+
+drop policy if exists "Users re-encrypt their own entry revisions" on public.entry_revisions;
+create policy "Users re-encrypt their own entry revisions"
+  on public.entry_revisions for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.guard_entry_revision_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - 'encrypted_blob') is distinct from (to_jsonb(old) - 'encrypted_blob') then
+    raise exception 'Only the encrypted blob of a revision can be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists entry_revisions_guard_update on public.entry_revisions;
+create trigger entry_revisions_guard_update
+  before update on public.entry_revisions
+  for each row execute function public.guard_entry_revision_update();
@@ -0,0 +1,36 @@
+-- Passphrase protection: each account that opts in stores its random data
+-- key here, encrypted with a key derived from the passphrase (scrypt with
+-- the salt and parameters in kdf). The server never sees the passphrase or
+-- the data key, so it cannot read the journal.
+
+create table if not exists public.key_bundles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  key_id text not null,
+  kdf jsonb not null,
+  wrapped_key text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.key_bundles enable row level security;
+
+drop policy if exists "Users manage their own key bundle" on public.key_bundles;
+create policy "Users manage their own key bundle"
+  on public.key_bundles for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.set_key_bundles_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists key_bundles_set_updated_at on public.key_bundles;
+create trigger key_bundles_set_updated_at
+  before update on public.key_bundles
+  for each row execute function public.set_key_bundles_updated_at();
@@ -0,0 +1,8 @@
+-- Recovery keys: a second copy of the data key, encrypted with a key derived
+-- from a random recovery key the user writes down at setup. It lets a
+-- forgotten passphrase be replaced; like the passphrase, the recovery key
+-- itself never reaches the server. Bundles made before this stay null.
+
+alter table public.key_bundles
+  add column if not exists recovery_kdf jsonb,
+  add column if not exists recovery_wrapped_key text;
@@ -0,0 +1,6 @@
+-- Key rotation: data keys replaced by a rotation, each encrypted with the
+-- current data key and tagged with its key id. Blobs still encrypted under
+-- one stay readable while the re-encryption pass rewrites them.
+
+alter table public.key_bundles
+  add column if not exists retired_keys jsonb;
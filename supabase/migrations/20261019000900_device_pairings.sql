@@ -0,0 +1,95 @@
+-- Device pairing: a short-lived row through which an unlocked device hands
+-- its data key to a new device on the same account. The server only sees
+-- ephemeral X25519 public keys, an HMAC keyed by the pairing code, and the
+-- data key sealed with their shared secret; never the code or the key.
+
+create table if not exists public.device_pairings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  offer_key text not null,
+  answer_key text,
+  answer_tag text,
+  sealed_key text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '5 minutes'
+);
+
+create index if not exists device_pairings_user_id_idx
+  on public.device_pairings (user_id, created_at desc);
+
+alter table public.device_pairings enable row level security;
+
+drop policy if exists "Users read their own live pairings" on public.device_pairings;
+create policy "Users read their own live pairings"
+  on public.device_pairings for select
+  using (auth.uid() = user_id and expires_at > now());
+
+drop policy if exists "Users start their own pairings" on public.device_pairings;
+create policy "Users start their own pairings"
+  on public.device_pairings for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users answer their own live pairings" on public.device_pairings;
+create policy "Users answer their own live pairings"
+  on public.device_pairings for update
+  using (auth.uid() = user_id and expires_at > now())
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users remove their own pairings" on public.device_pairings;
+create policy "Users remove their own pairings"
+  on public.device_pairings for delete
+  using (auth.uid() = user_id);
+
+-- Each step happens once: the offer and expiry are fixed, and an answer or
+-- sealed key, once written, can't be replaced
+create or replace function public.guard_device_pairings_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.user_id is distinct from old.user_id
+    or new.offer_key is distinct from old.offer_key
+    or new.created_at is distinct from old.created_at
+    or new.expires_at is distinct from old.expires_at
+    or (old.answer_key is not null and new.answer_key is distinct from old.answer_key)
+    or (old.answer_tag is not null and new.answer_tag is distinct from old.answer_tag)
+    or (old.sealed_key is not null and new.sealed_key is distinct from old.sealed_key) then
+    raise exception 'device pairing steps cannot be changed once taken';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists device_pairings_guard_update on public.device_pairings;
+create trigger device_pairings_guard_update
+  before update on public.device_pairings
+  for each row execute function public.guard_device_pairings_update();
+
+-- Clients can't set their own expiry
+create or replace function public.set_device_pairings_expiry()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_at := now();
+  new.expires_at := now() + interval '5 minutes';
+  return new;
+end;
+$$;
+
+drop trigger if exists device_pairings_set_expiry on public.device_pairings;
+create trigger device_pairings_set_expiry
+  before insert on public.device_pairings
+  for each row execute function public.set_device_pairings_expiry();
+
+-- Sweep pairings nobody finished
+create extension if not exists pg_cron with schema extensions;
+
+select cron.unschedule('purge-device-pairings')
+where exists (select 1 from cron.job where jobname = 'purge-device-pairings');
+
+select cron.schedule(
+  'purge-device-pairings',
+  '*/15 * * * *',
+  $$ delete from public.device_pairings where expires_at < now() - interval '1 hour' $$
+);
@@ -0,0 +1,27 @@
+-- Entry metadata encryption: clients now keep mood, the photo flag and
+-- location inside encrypted_blob, leaving entry_date as the only plaintext
+-- index. Each client moves its existing rows across in a data migration
+-- and clears the columns, which stay until older app versions that still
+-- write them are retired.
+
+comment on column public.entries.mood_score is 'Deprecated: in encrypted_blob; set only by older app versions';
+comment on column public.entries.has_photos is 'Deprecated: in encrypted_blob; set only by older app versions';
+comment on column public.entries.location_data is 'Deprecated: in encrypted_blob; set only by older app versions';
+
+-- Revisions copied the plaintext columns too. Owners may now clear them
+-- alongside replacing the blob; nothing else about a revision changes.
+create or replace function public.guard_entry_revision_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - 'encrypted_blob' - 'mood_score' - 'has_photos' - 'location_data')
+       is distinct from (to_jsonb(old) - 'encrypted_blob' - 'mood_score' - 'has_photos' - 'location_data')
+     or (new.mood_score is not null and new.mood_score is distinct from old.mood_score)
+     or (new.has_photos is not null and new.has_photos is distinct from old.has_photos)
+     or (new.location_data is not null and new.location_data is distinct from old.location_data) then
+    raise exception 'Only the encrypted blob of a revision can be changed, and its plaintext metadata cleared';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,74 @@
+-- Re-encryption and format migrations rewrite every entry's blob without
+-- changing what it says, and AES-GCM's random nonces make each rewrite
+-- look like an edit. Clients make those rewrites through
+-- rewrite_entry_blob, which marks the transaction so no revision is
+-- recorded for them.
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('quill.maintenance_rewrite', true), '') = 'on' then
+    return new;
+  end if;
+
+  if new.encrypted_blob is distinct from old.encrypted_blob
+     or new.mood_score is distinct from old.mood_score
+     or new.entry_date is distinct from old.entry_date then
+    insert into public.entry_revisions
+    select * from jsonb_populate_record(
+      null::public.entry_revisions,
+      to_jsonb(old) || jsonb_build_object('revision_id', gen_random_uuid(), 'revised_at', now())
+    );
+
+    -- Keep the 50 most recent revisions per entry
+    delete from public.entry_revisions
+    where id = old.id
+      and revision_id in (
+        select revision_id from public.entry_revisions
+        where id = old.id
+        order by revised_at desc
+        offset 50
+      );
+  end if;
+  return new;
+end;
+$$;
+
+-- Replaces the blob of one of the caller's entries, and with
+-- clear_metadata its deprecated plaintext columns, only if the entry is
+-- unchanged since expected_updated_at. Returns whether it was rewritten.
+-- Runs as the caller, so row level security still applies.
+create or replace function public.rewrite_entry_blob(
+  entry_id public.entries.id%type,
+  blob public.entries.encrypted_blob%type,
+  expected_updated_at timestamptz,
+  clear_metadata boolean default false
+)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  rewritten boolean;
+begin
+  perform set_config('quill.maintenance_rewrite', 'on', true);
+
+  update public.entries
+  set encrypted_blob = blob,
+      mood_score = case when clear_metadata then null else mood_score end,
+      has_photos = case when clear_metadata then null else has_photos end,
+      location_data = case when clear_metadata then null else location_data end
+  where id = entry_id
+    and user_id = auth.uid()
+    and updated_at = expected_updated_at;
+  rewritten := found;
+
+  perform set_config('quill.maintenance_rewrite', 'off', true);
+  return rewritten;
+end;
+$$;
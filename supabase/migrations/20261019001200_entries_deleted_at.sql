@@ -0,0 +1,39 @@
+-- When an entry went into the trash. The trash used updated_at for this,
+-- but maintenance rewrites (re-encryption, format migrations) touch
+-- tombstones too and would restart their retention. The server sets
+-- deleted_at when an entry is tombstoned and clears it on restore;
+-- whatever a client sends is ignored.
+
+alter table public.entries add column if not exists deleted_at timestamptz;
+alter table public.entry_revisions add column if not exists deleted_at timestamptz;
+
+-- Existing tombstones: updated_at is the best record there is. The
+-- updated_at trigger is held off so this doesn't resync every tombstone.
+alter table public.entries disable trigger entries_set_updated_at;
+update public.entries set deleted_at = updated_at where tombstoned and deleted_at is null;
+alter table public.entries enable trigger entries_set_updated_at;
+
+create or replace function public.set_entries_deleted_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not coalesce(new.tombstoned, false) then
+    new.deleted_at := null;
+  elsif tg_op = 'INSERT' or not coalesce(old.tombstoned, false) then
+    new.deleted_at := now();
+  else
+    new.deleted_at := old.deleted_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_set_deleted_at on public.entries;
+create trigger entries_set_deleted_at
+  before insert or update on public.entries
+  for each row execute function public.set_entries_deleted_at();
+
+create index if not exists entries_trash_deleted_at_idx
+  on public.entries (deleted_at)
+  where tombstoned;